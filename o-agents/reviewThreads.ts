@@ -0,0 +1,106 @@
+import {
+  buildReviewThreadReplies,
+  buildReviewThreadsPrompt,
+  deferReviewThreadResponses,
+  ensureCommitAndPushChanges,
+  getOpenReviewThreads,
+  getPullRequestUrlForBranch,
+  logger,
+  postPullRequestReview,
+  replyToReviewComment,
+  reviewThreadResponseSchema,
+  runNonInteractiveAgent,
+} from "o-agents";
+import type { AgentTool, IssueData, ReviewComment } from "o-agents";
+
+/**
+ * When targeting a PR, has the agent address its unresolved human review threads on
+ * `headBranch`. The replies are posted after the runs on the target are compared, for the
+ * selected run only; addressed threads are resolved if `resolveThreads` is set and the run
+ * committed changes on top of `baseBranch`, the reviewed PR's branch.
+ */
+export async function addressReviewThreads(options: {
+  tool: AgentTool;
+  issueData: IssueData;
+  headBranch: string;
+  baseBranch: string;
+  cwd: string;
+  resolveThreads: boolean;
+}): Promise<void> {
+  const { tool, issueData, headBranch, baseBranch, cwd } = options;
+  const reviewThreads = getOpenReviewThreads(issueData);
+  if (!issueData.number || reviewThreads.length === 0) return;
+
+  const responses = await runNonInteractiveAgent({
+    tool,
+    prompt: buildReviewThreadsPrompt({ reviewThreads }),
+    schema: reviewThreadResponseSchema,
+    cwd,
+  });
+  await ensureCommitAndPushChanges("chore: apply changes from review thread agent", { cwd });
+
+  deferReviewThreadResponses(headBranch, {
+    pullRequestNumber: issueData.number,
+    reviewedBranch: baseBranch,
+    responses: buildReviewThreadReplies({
+      reviewThreads,
+      responses,
+      pullRequestUrl: getPullRequestUrlForBranch(headBranch),
+    }),
+    resolve: options.resolveThreads,
+  });
+}
+
+/**
+ * Posts each reviewer's comments as an inline review on the PR of `headBranch`.
+ * Returns the thread id for each comment, in the order of `reviews` flattened.
+ */
+export async function publishReviewComments(
+  headBranch: string,
+  reviews: { reviewer: AgentTool; comments: ReviewComment[] }[],
+): Promise<(number | undefined)[]> {
+  const pullRequestUrl = getPullRequestUrlForBranch(headBranch);
+  if (!pullRequestUrl) {
+    logger.info("Skipped publishing review comments: no PR exists for this branch.");
+    return reviews.flatMap(({ comments }) => comments.map(() => undefined));
+  }
+  const threadIds: (number | undefined)[] = [];
+  for (const { reviewer, comments } of reviews) {
+    if (comments.length === 0) continue;
+    try {
+      const posted = await postPullRequestReview({
+        pullRequestUrl,
+        comments,
+        body: `Review by ${reviewer}`,
+      });
+      threadIds.push(...posted.map((comment) => comment.id));
+    } catch (error) {
+      logger.error(
+        `Failed to publish review by ${reviewer}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      threadIds.push(...comments.map(() => undefined));
+    }
+  }
+  return threadIds;
+}
+
+/** Replies to each published review thread with the resolution agent's response. */
+export async function publishReviewResponses(
+  headBranch: string,
+  threadIds: (number | undefined)[],
+  responses: string[],
+): Promise<void> {
+  const pullRequestUrl = getPullRequestUrlForBranch(headBranch);
+  if (!pullRequestUrl) return;
+  for (const [index, commentId] of threadIds.entries()) {
+    const body = responses[index];
+    if (commentId === undefined || !body) continue;
+    try {
+      await replyToReviewComment({ pullRequestUrl, commentId, body });
+    } catch (error) {
+      logger.error(
+        `Failed to reply to review comment ${commentId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import {
+  buildCiFixPrompt,
+  buildPullRequestBody,
+  createPullRequest,
+  defineWorkflow,
+  ensureCommitAndPushChanges,
+  fetchFailedChecks,
+  getHeadCommit,
+  getPullRequestUrlForBranch,
+  logger,
+  runNonInteractiveAgent,
+  waitForPullRequestChecks,
+} from "o-agents";
+import { z } from "zod";
+
+const paramsSchema = z.object({
+  maxAttempts: z.number().int().positive().default(3),
+  pollIntervalSeconds: z.number().positive().default(30),
+  /** Also bounds the wait for the first check; a PR on which no check appears fails the workflow. */
+  checksTimeoutMinutes: z.number().positive().default(60),
+  /**
+   * Opens the fixes as a new PR stacked on the target PR and polls its checks instead of pushing
+   * them to the target PR's branch. CI must then also run on PRs into that branch.
+   */
+  stackFixes: z.boolean().default(false),
+});
+
+/**
+ * Repairs the failing CI checks of the target PR: the fixes are pushed to its branch, and its
+ * checks are polled after every push until they pass.
+ */
+export default defineWorkflow(
+  paramsSchema,
+  async ({ tool, issueData, baseBranch, headBranch, cwd }, params) => {
+    if (issueData.kind !== "pr") {
+      logger.error("workflowFixCi requires --target to be a pull request.");
+      return 1;
+    }
+    const waitOptions = {
+      pollIntervalMs: params.pollIntervalSeconds * 1000,
+      timeoutMs: params.checksTimeoutMinutes * 60 * 1000,
+    };
+
+    let pullRequestUrl = issueData.url;
+    let failedChecks = await fetchFailedChecks(
+      pullRequestUrl,
+      await waitForPullRequestChecks(pullRequestUrl, waitOptions),
+    );
+    for (let attempt = 1; failedChecks.length > 0; attempt++) {
+      if (attempt > params.maxAttempts) {
+        logger.error(`Checks still failing after ${params.maxAttempts} fix attempts.`);
+        return 1;
+      }
+      logger.info(
+        `Fix attempt ${attempt}/${params.maxAttempts}: ${failedChecks.map((check) => check.name).join(", ")}`,
+      );
+      const headBefore = await getHeadCommit(cwd);
+      const changeSummary = await runNonInteractiveAgent({
+        tool,
+        prompt: buildCiFixPrompt({ headBranch, failedChecks }),
+        cwd,
+      });
+      await ensureCommitAndPushChanges("fix: repair failing CI checks", {
+        cwd,
+        pushTo: params.stackFixes ? undefined : baseBranch,
+      });
+      if ((await getHeadCommit(cwd)) === headBefore) {
+        logger.error("The agent made no changes to fix the failing checks.");
+        return 1;
+      }
+      if (params.stackFixes) {
+        await createPullRequest(
+          baseBranch,
+          headBranch,
+          buildPullRequestBody(issueData, undefined, changeSummary),
+          { cwd },
+        );
+        const createdUrl = getPullRequestUrlForBranch(headBranch);
+        if (!createdUrl) {
+          logger.error("No pull request exists for the fix branch; cannot poll its checks.");
+          return 1;
+        }
+        pullRequestUrl = createdUrl;
+      }
+      failedChecks = await fetchFailedChecks(
+        pullRequestUrl,
+        await waitForPullRequestChecks(pullRequestUrl, waitOptions),
+      );
+    }
+    logger.info(`All checks passed on ${pullRequestUrl}.`);
+    return 0;
+  },
+);
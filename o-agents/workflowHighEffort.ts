@@ -1,23 +1,21 @@
 import {
-  buildImplementationPrompt,
-  buildPlanPrompt,
-  buildPullRequestBody,
-  buildRefactoringPrompt,
-  buildReviewPrompt,
-  buildReviewResolutionPrompt,
-  buildTestFixPrompt,
-  createPullRequest,
-  ensureCommitAndPushChanges,
-  logger,
-  runCommandWithOutput,
-  runNonInteractiveAgent,
+  createPullRequestStep,
+  defineWorkflow,
+  implementStep,
+  planStep,
+  refactorStep,
+  reviewLoopStep,
+  testFixLoopStep,
 } from "o-agents";
-import type { AgentTool, IssueData } from "o-agents";
+import type { AgentTool, StepContext } from "o-agents";
 import { z } from "zod";
-import { reviewCommentSchema, reviewResponseSchema } from "./schemas.ts";
-import { runNonInteractiveAgents } from "../src/agent/workflowRunner.ts";
+import {
+  addressReviewThreads,
+  publishReviewComments,
+  publishReviewResponses,
+} from "./reviewThreads.ts";
 
-export const paramsSchema = z.object({
+const paramsSchema = z.object({
   testCommand: z
     .preprocess(
       (value) => {
@@ -29,88 +27,47 @@ export const paramsSchema = z.object({
       z.array(z.string().min(1)).min(1),
     )
     .optional(),
+  /** Post reviewer findings as inline PR review threads and reply with the resolutions. */
+  publishReviewComments: z.boolean().default(false),
+  /**
+   * Also resolve the PR review threads the agent addressed after replying to them, provided the
+   * selected run committed changes for them.
+   */
+  resolveReviewThreads: z.boolean().default(false),
 });
 
 type WorkflowParams = z.infer<typeof paramsSchema>;
-type WorkflowContext = {
-  tool: AgentTool;
-  issueData: IssueData;
-  baseBranch: string;
-  headBranch: string;
-  cwd: string;
-};
 
 const REVIEW_AGENTS: AgentTool[] = ["codex-cli", "claude-code", "gemini-cli"];
-const MAX_REVIEW_FIX_ATTEMPTS = 3;
-const MAX_TEST_FIX_ATTEMPTS = 5;
-
-export default async function runWorkflow(
-  { tool, issueData, baseBranch, headBranch, cwd }: WorkflowContext,
-  params: WorkflowParams,
-): Promise<number> {
-  const plan = await runNonInteractiveAgent({
-    tool,
-    prompt: buildPlanPrompt({ issueData }),
-    cwd,
-  });
-  const changeSummary = await runNonInteractiveAgent({
-    tool,
-    prompt: buildImplementationPrompt({ plan }),
-    cwd,
-  });
-  await ensureCommitAndPushChanges("chore: apply changes from implementation agent", { cwd });
-  await createPullRequest(
-    baseBranch,
-    headBranch,
-    buildPullRequestBody(issueData, plan, changeSummary),
-    { cwd },
-  );
-  await runNonInteractiveAgent({
-    tool,
-    prompt: buildRefactoringPrompt({ headBranch }),
-    cwd,
-  });
-
-  for (let count = 0; count < MAX_REVIEW_FIX_ATTEMPTS; count++) {
-    const reviewCommentsList = await runNonInteractiveAgents({
-      tools: REVIEW_AGENTS,
-      prompt: buildReviewPrompt({ headBranch }),
-      schema: reviewCommentSchema,
-      cwd,
-    });
-    const reviewComments = reviewCommentsList.flat();
-    if (reviewComments.length === 0) break;
 
-    await runNonInteractiveAgent({
-      tool,
-      prompt: buildReviewResolutionPrompt({
-        reviewComments,
-      }),
-      schema: reviewResponseSchema,
-      cwd,
-    });
-    await ensureCommitAndPushChanges("chore: apply changes from review resolution agent", { cwd });
-  }
-
-  let lastExitCode = 0;
-  const [command, ...args] = params.testCommand ?? [];
-  if (!command) {
-    logger.info("No test command provided, skipping tests...");
-    return 0;
-  }
-  for (let count = 0; count < MAX_TEST_FIX_ATTEMPTS; count++) {
-    const { combined, exitCode } = await runCommandWithOutput(command, args, { cwd });
-    lastExitCode = exitCode;
-    if (exitCode === 0) {
-      return 0;
-    }
-    logger.info("Tests failed, running test-fixing agent...");
-    await runNonInteractiveAgent({
-      tool,
-      prompt: buildTestFixPrompt({ headBranch, testOutput: combined }),
-      cwd,
-    });
-    await ensureCommitAndPushChanges("chore: apply changes from test-fixing agent", { cwd });
-  }
-  return lastExitCode || 1;
-}
+export default defineWorkflow({
+  paramsSchema,
+  steps: [
+    planStep(),
+    implementStep(),
+    createPullRequestStep(),
+    {
+      name: "review-threads",
+      run: ({ tool, issueData, headBranch, baseBranch, cwd, params }) =>
+        addressReviewThreads({
+          tool,
+          issueData,
+          headBranch,
+          baseBranch,
+          cwd,
+          resolveThreads: params.resolveReviewThreads,
+        }),
+    },
+    refactorStep(),
+    reviewLoopStep({
+      reviewers: REVIEW_AGENTS,
+      onComments: async ({ headBranch, params }: StepContext<WorkflowParams>, reviews) =>
+        params.publishReviewComments ? await publishReviewComments(headBranch, reviews) : [],
+      onResponses: ({ headBranch }, responses, threadIds) =>
+        publishReviewResponses(headBranch, threadIds, responses),
+    }),
+    testFixLoopStep({
+      testCommand: ({ params }: StepContext<WorkflowParams>) => params.testCommand,
+    }),
+  ],
+});
@@ -1,15 +1,7 @@
-import type { AgentTool, IssueData } from "o-agents";
+import type { WorkflowContext } from "o-agents";
 import { logger, RESULT_DELIVERY_INSTRUCTION, runNonInteractiveAgent } from "o-agents";
 import { z } from "zod";
 
-type WorkflowContext = {
-  tool: AgentTool;
-  issueData: IssueData;
-  baseBranch: string;
-  headBranch: string;
-  cwd: string;
-};
-
 const resultSchema = z.object({ status: z.literal("ok") });
 
 export default async function runWorkflow({ tool, cwd }: WorkflowContext): Promise<number> {
@@ -0,0 +1,60 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+import type { AgentTool, AgentUsage } from "../types.ts";
+
+export type AgentCallRecord = {
+  requestedTool: AgentTool;
+  /** The agent that actually produced the result; differs from `requestedTool` on fallback. */
+  tool?: AgentTool;
+  status: "succeeded" | "replayed" | "failed";
+  startedAt: string;
+  /** Wall-clock time including retries and fallbacks; 0 for replayed calls. */
+  durationMs: number;
+  /** Summed over every attempt, including failed ones and fallbacks. */
+  usage?: AgentUsage;
+  error?: string;
+};
+
+type AgentCallLog = {
+  calls: AgentCallRecord[];
+  budgetUsd?: number;
+  /** Updated after every attempt, so that the budget also covers calls still in progress. */
+  spentUsd: number;
+};
+
+const callLogStorage = new AsyncLocalStorage<AgentCallLog>();
+
+/**
+ * Collects every agent call made by `fn` (including nested parallel calls) into `calls`,
+ * so that the run summary can report which agents actually answered and what they cost.
+ */
+export function runWithAgentCallLog<T>(
+  calls: AgentCallRecord[],
+  fn: () => Promise<T>,
+  options: { budgetUsd?: number } = {},
+): Promise<T> {
+  return callLogStorage.run({ calls, budgetUsd: options.budgetUsd, spentUsd: 0 }, fn);
+}
+
+export function recordAgentCall(record: AgentCallRecord): void {
+  callLogStorage.getStore()?.calls.push(record);
+}
+
+export function recordAgentUsage(usage: AgentUsage): void {
+  const log = callLogStorage.getStore();
+  if (log) log.spentUsd += usage.costUsd ?? 0;
+}
+
+export function isAgentBudgetExceeded(): boolean {
+  const log = callLogStorage.getStore();
+  return log?.budgetUsd !== undefined && log.spentUsd > log.budgetUsd;
+}
+
+/** Throws once the agents of the current workflow run have reported more cost than its budget. */
+export function assertWithinAgentBudget(): void {
+  const log = callLogStorage.getStore();
+  if (!log || !isAgentBudgetExceeded()) return;
+  throw new Error(
+    `Budget of $${log.budgetUsd?.toFixed(2)} exceeded: agents reported $${log.spentUsd.toFixed(2)}; aborting workflow.`,
+  );
+}
@@ -1,8 +1,15 @@
-import type { AgentTool } from "../types.ts";
-import { type AgentRegistry, createAgentRegistry, getAgentDefinition } from "./agentRegistry.ts";
+import type { AgentTool, AgentUsageExtractor } from "../types.ts";
+import {
+  type AgentRegistry,
+  createAgentRegistry,
+  getAgentDefinition,
+  getAgentFallbackChain,
+  resolveAgentNameOrAlias,
+} from "./agentRegistry.ts";
 import { loadConfigFile } from "../config/oAgentsConfig.ts";
+import type { SandboxOptions } from "./sandbox.ts";
 
-const registryCache = new Map<string, AgentRegistry>();
+const loadedConfigCache = new Map<string, { registry: AgentRegistry; sandbox?: SandboxOptions }>();
 
 export function buildAgentCommand(
   tool: AgentTool,
@@ -12,8 +19,10 @@ export function buildAgentCommand(
   commandArgs: [string, ...string[]];
   terminal?: boolean;
   versionCommandArgs?: [string, ...string[]];
+  usageExtractor?: AgentUsageExtractor;
+  sandbox?: SandboxOptions;
 } {
-  const registry = getRegistry(configDir);
+  const { registry, sandbox } = getLoadedConfig(configDir);
   const definition = getAgentDefinition(registry, tool);
   if (!definition) {
     throw new Error(`Unknown agent tool "${tool}".`);
@@ -33,16 +42,43 @@ export function buildAgentCommand(
     commandArgs,
     terminal: definition.terminal,
     versionCommandArgs,
+    usageExtractor: definition.usageExtractor,
+    sandbox,
   };
 }
 
-function getRegistry(configDir: string): AgentRegistry {
-  const cached = registryCache.get(configDir);
+/**
+ * Resolves the ordered list of agents to try. An explicit array is used as-is,
+ * while a single agent is followed by the fallbacks configured in `[fallbacks]`.
+ */
+export function resolveAgentChain(
+  tool: AgentTool | AgentTool[],
+  configDir: string = process.cwd(),
+): [AgentTool, ...AgentTool[]] {
+  const { registry } = getLoadedConfig(configDir);
+  if (!Array.isArray(tool)) {
+    return getAgentFallbackChain(registry, tool) as [AgentTool, ...AgentTool[]];
+  }
+  const chain = tool.map((value) => {
+    const resolved = resolveAgentNameOrAlias(registry, value);
+    if (!resolved) {
+      throw new Error(`Unknown agent tool "${value}".`);
+    }
+    return resolved;
+  });
+  if (chain.length === 0) {
+    throw new Error("Agent fallback chain must contain at least one agent.");
+  }
+  return chain as [AgentTool, ...AgentTool[]];
+}
+
+function getLoadedConfig(configDir: string): { registry: AgentRegistry; sandbox?: SandboxOptions } {
+  const cached = loadedConfigCache.get(configDir);
   if (cached) {
     return cached;
   }
   const config = loadConfigFile(configDir);
-  const registry = createAgentRegistry(config);
-  registryCache.set(configDir, registry);
-  return registry;
+  const loaded = { registry: createAgentRegistry(config), sandbox: config?.sandbox };
+  loadedConfigCache.set(configDir, loaded);
+  return loaded;
 }
@@ -1,4 +1,6 @@
 import type { AgentConfigEntry, OAgentsConfig } from "../config/oAgentsConfig.ts";
+import type { AgentUsageExtractor } from "../types.ts";
+import { createUsagePatternExtractor } from "./agentUsage.ts";
 
 export type AgentDefinition = {
   name: string;
@@ -6,11 +8,17 @@ export type AgentDefinition = {
   aliases: string[];
   terminal?: boolean;
   versionCmd?: string[];
+  /** Reads token/cost figures from the agent's output; agents without one report no usage. */
+  usageExtractor?: AgentUsageExtractor;
+  /** Whether `usageExtractor` reads the cost, which `--budget` is enforced with. */
+  reportsCost?: boolean;
 };
 
 export type AgentRegistry = {
   agents: Map<string, AgentDefinition>;
   aliases: Map<string, string>;
+  /** Canonical agent name -> canonical fallback agent names, in the order they are tried. */
+  fallbacks: Map<string, string[]>;
 };
 
 const BUILTIN_AGENTS: AgentDefinition[] = [
@@ -25,6 +33,8 @@ const BUILTIN_AGENTS: AgentDefinition[] = [
     ],
     aliases: ["codex"],
     versionCmd: ["npx", "--yes", "@openai/codex@latest", "--version"],
+    // `codex exec` ends with "tokens used" followed by the count, on the same or the next line.
+    usageExtractor: createUsagePatternExtractor({ totalTokens: "^tokens used:?\\s*([\\d,]+)" }),
   },
   {
     name: "claude-code",
@@ -36,9 +46,18 @@ const BUILTIN_AGENTS: AgentDefinition[] = [
       "--allowed-tools",
       "Bash,Edit,Write",
       "--print",
+      // Ends the output with a result object that carries the session's token usage and cost.
+      "--output-format",
+      "json",
     ],
     aliases: ["claude"],
     versionCmd: ["npx", "--yes", "@anthropic-ai/claude-code@latest", "--version"],
+    usageExtractor: createUsagePatternExtractor({
+      inputTokens: '"input_tokens":\\s*(\\d+)',
+      outputTokens: '"output_tokens":\\s*(\\d+)',
+      costUsd: '"total_cost_usd":\\s*([\\d.]+(?:e[-+]?\\d+)?)',
+    }),
+    reportsCost: true,
   },
   {
     name: "gemini-cli",
@@ -85,8 +104,12 @@ export function createAgentRegistry(config?: OAgentsConfig): AgentRegistry {
   const registry: AgentRegistry = {
     agents,
     aliases: new Map(),
+    fallbacks: new Map(),
   };
   populateAndValidateAliases(registry);
+  if (config) {
+    populateAndValidateFallbacks(registry, config.fallbacks);
+  }
   return registry;
 }
 
@@ -112,6 +135,17 @@ export function getAgentDefinition(
   return registry.agents.get(resolvedName);
 }
 
+/**
+ * Returns the agents to try for `value`: the agent itself followed by its configured fallbacks.
+ */
+export function getAgentFallbackChain(registry: AgentRegistry, value: string): string[] {
+  const resolvedName = resolveAgentNameOrAlias(registry, value);
+  if (!resolvedName) {
+    throw new Error(`Unknown agent tool "${value}".`);
+  }
+  return [resolvedName, ...(registry.fallbacks.get(resolvedName) ?? [])];
+}
+
 export function isAgentNameOrAlias(registry: AgentRegistry, value: string): boolean {
   return resolveAgentNameOrAlias(registry, value) !== undefined;
 }
@@ -127,6 +161,12 @@ function toAgentDefinition(
     aliases: entry.aliases ?? base?.aliases ?? [],
     terminal: entry.terminal ?? base?.terminal,
     versionCmd: entry.versionCmd ?? base?.versionCmd,
+    usageExtractor: entry.usagePatterns
+      ? createUsagePatternExtractor(entry.usagePatterns)
+      : base?.usageExtractor,
+    reportsCost: entry.usagePatterns
+      ? entry.usagePatterns.costUsd !== undefined
+      : base?.reportsCost,
   };
 }
 
@@ -146,3 +186,27 @@ function populateAndValidateAliases(registry: AgentRegistry): void {
     }
   }
 }
+
+function populateAndValidateFallbacks(
+  registry: AgentRegistry,
+  fallbacks: Record<string, string[]>,
+): void {
+  for (const [key, values] of Object.entries(fallbacks)) {
+    const name = resolveAgentNameOrAlias(registry, key);
+    if (!name) {
+      throw new Error(`Invalid fallbacks entry '${key}': unknown agent '${key}'.`);
+    }
+    const chain: string[] = [];
+    for (const value of values) {
+      const fallbackName = resolveAgentNameOrAlias(registry, value);
+      if (!fallbackName) {
+        throw new Error(`Invalid fallbacks entry '${key}': unknown agent '${value}'.`);
+      }
+      if (fallbackName === name || chain.includes(fallbackName)) {
+        throw new Error(`Invalid fallbacks entry '${key}': '${value}' is listed more than once.`);
+      }
+      chain.push(fallbackName);
+    }
+    registry.fallbacks.set(name, chain);
+  }
+}
@@ -0,0 +1,76 @@
+import type { AgentUsage, AgentUsageExtractor } from "../types.ts";
+
+export type AgentUsagePatterns = { [K in keyof AgentUsage]?: string };
+
+const USAGE_FIELDS = ["inputTokens", "outputTokens", "totalTokens", "costUsd"] as const;
+
+/**
+ * Builds an extractor from one regular expression per figure. The first capture group of the
+ * last match is used, since agents that print running totals print the final one last.
+ */
+export function createUsagePatternExtractor(patterns: AgentUsagePatterns): AgentUsageExtractor {
+  const compiled = USAGE_FIELDS.flatMap((field) => {
+    const pattern = patterns[field];
+    return pattern ? [{ field, regex: new RegExp(pattern, "gim") }] : [];
+  });
+  return (output) => {
+    const usage: AgentUsage = {};
+    for (const { field, regex } of compiled) {
+      const value = Array.from(output.matchAll(regex)).at(-1)?.[1];
+      const parsed = value === undefined ? Number.NaN : Number(value.replaceAll(",", ""));
+      if (Number.isFinite(parsed)) usage[field] = parsed;
+    }
+    // Keep totals comparable across agents that only report the input/output split.
+    if (
+      usage.totalTokens === undefined &&
+      (usage.inputTokens ?? usage.outputTokens) !== undefined
+    ) {
+      usage.totalTokens = (usage.inputTokens ?? 0) + (usage.outputTokens ?? 0);
+    }
+    return Object.keys(usage).length > 0 ? usage : undefined;
+  };
+}
+
+export function addAgentUsage(
+  total: AgentUsage | undefined,
+  usage: AgentUsage | undefined,
+): AgentUsage | undefined {
+  if (!total || !usage) return total ?? usage;
+  const sum: AgentUsage = {};
+  for (const field of USAGE_FIELDS) {
+    const a = total[field];
+    const b = usage[field];
+    if (a !== undefined || b !== undefined) sum[field] = (a ?? 0) + (b ?? 0);
+  }
+  return sum;
+}
+
+/** Formats usage as e.g. `tokens=12,345 (in=10,000 out=2,345) cost=$0.42`. */
+export function formatAgentUsage(usage: AgentUsage | undefined): string {
+  if (!usage) return "usage=N/A";
+  const parts: string[] = [];
+  if (usage.totalTokens !== undefined) {
+    const split =
+      usage.inputTokens !== undefined && usage.outputTokens !== undefined
+        ? ` (in=${formatCount(usage.inputTokens)} out=${formatCount(usage.outputTokens)})`
+        : "";
+    parts.push(`tokens=${formatCount(usage.totalTokens)}${split}`);
+  }
+  if (usage.costUsd !== undefined) {
+    parts.push(`cost=$${usage.costUsd.toFixed(2)}`);
+  }
+  return parts.join(" ");
+}
+
+function formatCount(value: number): string {
+  return value.toLocaleString("en-US");
+}
+
+export function isValidUsagePattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -1,25 +1,28 @@
-import type { IssueData } from "../types.ts";
+import type { IssueData, ReviewThread, WorktreeMetrics } from "../types.ts";
 import YAML from "yaml";
 import { yamlStringifyOptions } from "../utils/yaml.ts";
 import { z } from "zod";
+import { renderPromptTemplate, type PromptTemplateName } from "./promptTemplates.ts";
 
 export const RESULT_DELIVERY_INSTRUCTION = "{RESULT_DELIVERY_INSTRUCTION}";
 
-export function buildPlanPrompt({ issueData }: { issueData: IssueData }): string {
-  return `
+export function buildPlanPrompt({
+  issueData,
+  revision,
+}: {
+  issueData: IssueData;
+  /** A previous plan that was rejected, with the reason; the agent revises it. */
+  revision?: { plan: string; feedback: string };
+}): string {
+  const prompt = renderPrompt(
+    "plan",
+    `
 Create an implementation plan to modify files in the current repository to resolve the request below.
 Then return the plan as markdown content following the response instructions appended to the end of this prompt.
 
 Request:
 ~~~~yaml
-${YAML.stringify(
-  {
-    title: issueData.title,
-    body: issueData.body,
-    comments: issueData.comments,
-  },
-  yamlStringifyOptions,
-).trim()}
+{{issue}}
 ~~~~
   
 Requirements:
@@ -34,17 +37,50 @@ Requirements:
 - Design the plan in detail so that developers can implement it without needing the original request.
 - Even if the request is ambiguous, create an actionable plan based on reasonable assumptions.
 
-${RESULT_DELIVERY_INSTRUCTION}`.trim();
+{{RESULT_DELIVERY_INSTRUCTION}}`,
+    { issue: formatIssue(issueData) },
+  );
+  // Kept outside the template, so that overrides need no placeholder for it.
+  return revision ? `${buildPlanRevisionNote(revision)}\n\n${prompt}` : prompt;
 }
 
-export function buildImplementationPrompt({ plan }: { plan: string }): string {
+function buildPlanRevisionNote(revision: { plan: string; feedback: string }): string {
   return `
+Note: A reviewer rejected the previous plan below. Create a revised plan that addresses their feedback.
+
+Previous plan:
+~~~~markdown
+${revision.plan}
+~~~~
+
+Feedback:
+${revision.feedback}`.trim();
+}
+
+/**
+ * Prepends the reason why the result of a previous run of the same step was rejected, so that
+ * steps re-run by `approveStep` can take it into account. Returns `prompt` as is without feedback.
+ */
+export function prependRejectionFeedback(prompt: string, feedback: string | undefined): string {
+  if (!feedback) return prompt;
+  const note = `
+Note: A reviewer rejected the result of a previous run of this task. Address their feedback this time.
+
+Feedback:
+${feedback}`.trim();
+  return `${note}\n\n${prompt}`;
+}
+
+export function buildImplementationPrompt({ plan }: { plan: string }): string {
+  return renderPrompt(
+    "implementation",
+    `
 Implement the following plan on the current branch.
 Then return the change summary as markdown content.
 
 Plan:
 ~~~~md
-${plan.trim()}
+{{plan}}
 ~~~~
 
 Requirements:
@@ -52,15 +88,21 @@ Requirements:
 - Commit your changes with a conventional commit prefix: feat|fix|perf|refactor|test|build|chore|ci|docs|style.
 - Push the changes to the origin remote.
 
-${RESULT_DELIVERY_INSTRUCTION}`.trim();
+{{RESULT_DELIVERY_INSTRUCTION}}`,
+    { plan: plan.trim() },
+  );
 }
 
 export function buildReviewPrompt({ headBranch }: { headBranch: string }): string {
-  return `
-Review the changes in the current branch compared to \`${headBranch}\`.
+  return renderPrompt(
+    "review",
+    `
+Review the changes in the current branch compared to \`{{headBranch}}\`.
 Then return the review comments as a JSON array following the response instructions appended to the end of this prompt.
 
-${RESULT_DELIVERY_INSTRUCTION}`.trim();
+{{RESULT_DELIVERY_INSTRUCTION}}`,
+    { headBranch },
+  );
 }
 
 export function buildReviewResolutionPrompt({
@@ -68,13 +110,15 @@ export function buildReviewResolutionPrompt({
 }: {
   reviewComments: unknown[];
 }): string {
-  return `
+  return renderPrompt(
+    "reviewResolution",
+    `
 Address the review comments below.
 Then return a JSON array of responses, one per comment, following the response instructions appended to the end of this prompt.
 
 Review comments:
 ~~~~yaml
-${YAML.stringify(reviewComments, yamlStringifyOptions).trim()}
+{{reviewComments}}
 ~~~~
 
 Requirements:
@@ -85,7 +129,59 @@ Requirements:
 - Commit your changes with a conventional commit prefix: feat|fix|perf|refactor|test|build|chore|ci|docs|style.
 - Push the current branch to origin.
 
-${RESULT_DELIVERY_INSTRUCTION}`.trim();
+{{RESULT_DELIVERY_INSTRUCTION}}`,
+    {
+      reviewComments: YAML.stringify(reviewComments, yamlStringifyOptions).trim(),
+    },
+  );
+}
+
+export const reviewCommentSchema = z.array(
+  z.object({
+    path: z.string().min(1),
+    line: z.number().int().positive(),
+    body: z.string().min(1),
+  }),
+);
+
+export const reviewResponseSchema = z.array(z.string().min(1));
+
+export const reviewThreadResponseSchema = z.array(
+  z.object({
+    threadId: z.string().min(1),
+    addressed: z.boolean(),
+    response: z.string().min(1),
+  }),
+);
+
+export function buildReviewThreadsPrompt({
+  reviewThreads,
+}: {
+  reviewThreads: ReviewThread[];
+}): string {
+  return renderPrompt(
+    "reviewThreads",
+    `
+Resolve the unresolved pull request review threads below, left by human reviewers.
+Then return a JSON array with one entry per thread, following the response instructions appended to the end of this prompt.
+Each entry holds the thread id, whether you addressed the thread with code changes, and a reply to post on the thread.
+
+Review threads:
+~~~~yaml
+{{reviewThreads}}
+~~~~
+
+Requirements:
+- The last comment of each thread is the most recent; take the whole conversation into account.
+- If a request is unclear or you disagree with it, leave the code unchanged, set addressed to false, and explain why in the reply.
+- Keep each reply short and describe what was changed.
+- Do not run tests.
+- Commit your changes with a conventional commit prefix: feat|fix|perf|refactor|test|build|chore|ci|docs|style.
+- Push the current branch to origin.
+
+{{RESULT_DELIVERY_INSTRUCTION}}`,
+    { reviewThreads: formatReviewThreads(reviewThreads) },
+  );
 }
 
 export function buildTestFixPrompt({
@@ -95,14 +191,16 @@ export function buildTestFixPrompt({
   headBranch: string;
   testOutput: string;
 }): string {
-  return `
-The changes on the current branch compared to \`${headBranch}\` caused test failures.
+  return renderPrompt(
+    "testFix",
+    `
+The changes on the current branch compared to \`{{headBranch}}\` caused test failures.
 Fix the failing tests based on the output below.
 Then return the change summary as markdown content.
 
 Test output:
 ~~~~
-${testOutput}
+{{testOutput}}
 ~~~~
 
 Requirements:
@@ -110,12 +208,55 @@ Requirements:
 - Commit your changes with a conventional commit prefix: feat|fix|perf|refactor|test|build|chore|ci|docs|style.
 - Push the current branch to origin.
 
-${RESULT_DELIVERY_INSTRUCTION}`.trim();
+{{RESULT_DELIVERY_INSTRUCTION}}`,
+    { headBranch, testOutput },
+  );
+}
+
+export function buildCiFixPrompt({
+  headBranch,
+  failedChecks,
+}: {
+  headBranch: string;
+  failedChecks: { name: string; workflow?: string; link?: string; log?: string }[];
+}): string {
+  const sections = failedChecks.map((check) =>
+    [
+      `### ${check.workflow ? `${check.workflow} / ` : ""}${check.name}`,
+      check.link ? `Details: ${check.link}` : "",
+      "~~~~",
+      check.log?.trim() || "No log available.",
+      "~~~~",
+    ]
+      .filter(Boolean)
+      .join("\n"),
+  );
+  return renderPrompt(
+    "ciFix",
+    `
+The CI checks below failed for the current branch \`{{headBranch}}\`.
+Fix the failures based on the log excerpts below.
+Then return the change summary as markdown content.
+
+Failed checks:
+{{failedChecks}}
+
+Requirements:
+- Fix the root cause in production or test code; do not disable, skip, or loosen the failing checks.
+- Do not run the full test suite.
+- Commit your changes with a conventional commit prefix: feat|fix|perf|refactor|test|build|chore|ci|docs|style.
+- Push the current branch to origin.
+
+{{RESULT_DELIVERY_INSTRUCTION}}`,
+    { headBranch, failedChecks: sections.join("\n\n") },
+  );
 }
 
 export function buildRefactoringPrompt({ headBranch }: { headBranch: string }): string {
-  return `
-The changes on the current branch compared to \`${headBranch}\` may have reduced code quality.
+  return renderPrompt(
+    "refactoring",
+    `
+The changes on the current branch compared to \`{{headBranch}}\` may have reduced code quality.
 Review the changes and related code, then refactor to improve quality.
 Then return the change summary as markdown content.
 
@@ -125,7 +266,9 @@ Requirements:
 - Commit your changes with a conventional commit prefix: feat|fix|perf|refactor|test|build|chore|ci|docs|style.
 - Push the current branch to origin.
 
-${RESULT_DELIVERY_INSTRUCTION}`.trim();
+{{RESULT_DELIVERY_INSTRUCTION}}`,
+    { headBranch },
+  );
 }
 
 export const comparePullRequestsSchema = z.object({
@@ -138,9 +281,11 @@ export function buildComparePullRequestsPrompt({
   pullRequestEntries,
 }: {
   issueData: IssueData;
-  pullRequestEntries: { url: string; worktreePath: string }[];
+  pullRequestEntries: { url: string; worktreePath: string; metrics?: WorktreeMetrics }[];
 }): string {
-  return `
+  return renderPrompt(
+    "comparePullRequests",
+    `
 Compare the pull requests below and select the best implementation based on the rubric.
 If any improvements from other PRs are worth integrating, move to the best PR's worktree, manually apply the improvements, commit, and push the updates.
 Then return a JSON response with the best PR URL (or "N/A" if none are acceptable) and a brief reason following the response instructions appended to the end of this prompt.
@@ -150,22 +295,55 @@ Rubric (in priority order):
 2. Simplicity: Reduces overall codebase size by eliminating redundancy and unnecessary code.
 3. Code quality: Maintainable, readable, and follows project conventions.
 
+Each entry may list objective metrics collected in its worktree: files changed, lines added and removed, the exit code of the run's own last test run, and the exit code of each configured check command (0 means it passed).
+Treat failing checks as evidence against correctness and a smaller diff as evidence of simplicity, but confirm them by reading the changes.
+
 Issue context:
 ~~~~yaml
-${YAML.stringify(
-  {
-    title: issueData.title,
-    body: issueData.body,
-    comments: issueData.comments,
-  },
-  yamlStringifyOptions,
-).trim()}
+{{issue}}
 ~~~~
 
 Pull request entries:
 ~~~~yaml
-${YAML.stringify(pullRequestEntries, yamlStringifyOptions).trim()}
+{{pullRequests}}
 ~~~~
 
-${RESULT_DELIVERY_INSTRUCTION}`.trim();
+{{RESULT_DELIVERY_INSTRUCTION}}`,
+    {
+      issue: formatIssue(issueData),
+      pullRequests: YAML.stringify(pullRequestEntries, yamlStringifyOptions).trim(),
+    },
+  );
+}
+
+function renderPrompt(
+  name: PromptTemplateName,
+  defaultTemplate: string,
+  values: Record<string, string>,
+): string {
+  return renderPromptTemplate(name, defaultTemplate, { ...values, RESULT_DELIVERY_INSTRUCTION });
+}
+
+function formatIssue(issueData: IssueData): string {
+  return YAML.stringify(
+    {
+      title: issueData.title,
+      body: issueData.body,
+      comments: issueData.comments,
+    },
+    yamlStringifyOptions,
+  ).trim();
+}
+
+function formatReviewThreads(reviewThreads: ReviewThread[]): string {
+  return YAML.stringify(
+    reviewThreads.map((thread) => ({
+      threadId: thread.id,
+      path: thread.path,
+      line: thread.line,
+      diffHunk: thread.diffHunk,
+      comments: thread.comments,
+    })),
+    yamlStringifyOptions,
+  ).trim();
 }
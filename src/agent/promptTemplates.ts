@@ -0,0 +1,104 @@
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { basename, join, resolve } from "node:path";
+
+const PROMPT_TEMPLATES_DIR = "o-agents/prompts";
+// Optional in overrides: the response instructions are appended when a template omits it.
+const RESULT_DELIVERY_PLACEHOLDER = "RESULT_DELIVERY_INSTRUCTION";
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Data placeholders of each overridable prompt. An override must reference every one of them,
+ * otherwise the agent would silently run without the issue, plan, etc.
+ */
+export const PROMPT_TEMPLATE_PLACEHOLDERS = {
+  plan: ["issue"],
+  implementation: ["plan"],
+  review: ["headBranch"],
+  reviewResolution: ["reviewComments"],
+  reviewThreads: ["reviewThreads"],
+  testFix: ["headBranch", "testOutput"],
+  ciFix: ["headBranch", "failedChecks"],
+  refactoring: ["headBranch"],
+  comparePullRequests: ["issue", "pullRequests"],
+} as const satisfies Record<string, readonly string[]>;
+
+export type PromptTemplateName = keyof typeof PROMPT_TEMPLATE_PLACEHOLDERS;
+
+let loadedTemplates: Map<PromptTemplateName, string> | undefined;
+
+/**
+ * Loads the prompt overrides in `o-agents/prompts/<name>.md` and makes them the templates
+ * used by the prompt builders. Throws listing every invalid file; call it at startup
+ * so that broken templates are reported before any agent runs.
+ */
+export function loadPromptTemplates(cwd: string = process.cwd()): Map<PromptTemplateName, string> {
+  const templatesDir = resolve(cwd, PROMPT_TEMPLATES_DIR);
+  const templates = new Map<PromptTemplateName, string>();
+  if (existsSync(templatesDir)) {
+    const problems: string[] = [];
+    const files = readdirSync(templatesDir)
+      .filter((file) => file.endsWith(".md"))
+      .sort();
+    for (const file of files) {
+      const name = basename(file, ".md");
+      if (!isPromptTemplateName(name)) {
+        problems.push(
+          `${file}: unknown template; expected one of ${Object.keys(PROMPT_TEMPLATE_PLACEHOLDERS).join(", ")}`,
+        );
+        continue;
+      }
+      const template = readFileSync(join(templatesDir, file), "utf8");
+      problems.push(
+        ...validatePromptTemplate(name, template).map((problem) => `${file}: ${problem}`),
+      );
+      templates.set(name, template);
+    }
+    if (problems.length > 0) {
+      throw new Error(
+        `Invalid prompt templates in ${templatesDir}:\n${problems.map((problem) => `- ${problem}`).join("\n")}`,
+      );
+    }
+  }
+  loadedTemplates = templates;
+  return templates;
+}
+
+/** Returns the problems of an override: missing data placeholders and unknown ones. */
+export function validatePromptTemplate(name: PromptTemplateName, template: string): string[] {
+  const expected: readonly string[] = PROMPT_TEMPLATE_PLACEHOLDERS[name];
+  const used = new Set(Array.from(template.matchAll(PLACEHOLDER_PATTERN), (match) => match[1]));
+  const problems: string[] = [];
+  for (const placeholder of expected) {
+    if (!used.has(placeholder)) problems.push(`missing placeholder {{${placeholder}}}`);
+  }
+  for (const placeholder of used) {
+    if (
+      placeholder &&
+      placeholder !== RESULT_DELIVERY_PLACEHOLDER &&
+      !expected.includes(placeholder)
+    ) {
+      problems.push(`unknown placeholder {{${placeholder}}}`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Fills the override of `name`, or `defaultTemplate` when there is none, in a single pass
+ * so that placeholder-like text inside values (e.g. an issue body) is left untouched.
+ */
+export function renderPromptTemplate(
+  name: PromptTemplateName,
+  defaultTemplate: string,
+  values: Record<string, string>,
+): string {
+  loadedTemplates ??= loadPromptTemplates();
+  const template = loadedTemplates.get(name) ?? defaultTemplate;
+  return template
+    .replace(PLACEHOLDER_PATTERN, (match, placeholder: string) => values[placeholder] ?? match)
+    .trim();
+}
+
+function isPromptTemplateName(name: string): name is PromptTemplateName {
+  return Object.hasOwn(PROMPT_TEMPLATE_PLACEHOLDERS, name);
+}
@@ -1,6 +1,6 @@
-import { createServer } from "node:http";
+import { createServer, type ServerResponse } from "node:http";
 
-import type { ZodType } from "zod";
+import { z, type ZodType } from "zod";
 
 import { logger } from "../utils/logger.ts";
 import { jsonrepair } from "jsonrepair";
@@ -10,19 +10,62 @@ export type AgentResult<T> = {
   receivedAt: string;
 };
 
+export type RejectedResult = {
+  body: string;
+  issues: string[];
+};
+
 export type ResultServer<T> = {
   url: string;
   waitForResult: Promise<AgentResult<T>>;
+  rejectedResults: RejectedResult[];
   close: () => Promise<void>;
 };
 
+const SCHEMA_EXCERPT_MAX_LENGTH = 2000;
+const REJECTED_BODY_MAX_LENGTH = 500;
+
 export async function startResultServer<T>(
   schema: ZodType<T> | undefined,
-  port?: number,
+  options: {
+    port?: number;
+    /** Fails `waitForResult` once this many payloads have been rejected. Unlimited if omitted. */
+    maxRejectedResults?: number;
+  } = {},
 ): Promise<ResultServer<T>> {
   let resolveResult: (value: AgentResult<T>) => void;
   let rejectResult: (reason?: Error) => void;
   let isClosed = false;
+  const rejectedResults: RejectedResult[] = [];
+  const schemaExcerpt = schema ? buildSchemaExcerpt(schema) : undefined;
+
+  // Agents only see the response body, so it must carry everything needed to fix the payload.
+  const rejectPayload = (res: ServerResponse, body: string, issues: string[]): void => {
+    rejectedResults.push({ body, issues });
+    const attempt = rejectedResults.length;
+    const maxRejectedResults = options.maxRejectedResults;
+    const limitReached = maxRejectedResults !== undefined && attempt >= maxRejectedResults;
+    const attemptLabel =
+      maxRejectedResults === undefined ? `${attempt}` : `${attempt} of ${maxRejectedResults}`;
+    logger.error(`Rejected agent result (attempt ${attemptLabel}): ${issues.join("; ")}`);
+
+    const lines = [`Result rejected (attempt ${attemptLabel}).`, "Issues:"];
+    lines.push(...issues.map((issue) => `- ${issue}`));
+    if (schemaExcerpt) {
+      lines.push("Expected JSON Schema:", schemaExcerpt);
+    }
+    lines.push(
+      limitReached
+        ? "No more attempts are allowed; stop submitting results."
+        : "Fix the issues above and submit the result again.",
+    );
+    res.writeHead(400, { "content-type": "text/plain" });
+    res.end(lines.join("\n"));
+
+    if (limitReached) {
+      rejectResult(new Error(formatRejectedResultsError(rejectedResults)));
+    }
+  };
 
   const waitForResult = new Promise<AgentResult<T>>((resolve, reject) => {
     resolveResult = resolve;
@@ -62,8 +105,7 @@ export async function startResultServer<T>(
       const parsed = parseResultBody(contentType, body);
 
       if (parsed.error) {
-        res.writeHead(400, { "content-type": "text/plain" });
-        res.end(parsed.error);
+        rejectPayload(res, body, [parsed.error]);
         return;
       }
 
@@ -71,9 +113,7 @@ export async function startResultServer<T>(
       if (schema) {
         const validated = schema.safeParse(parsed.value);
         if (!validated.success) {
-          const issue = validated.error.issues[0]?.message ?? "Invalid result payload.";
-          res.writeHead(400, { "content-type": "text/plain" });
-          res.end(issue);
+          rejectPayload(res, body, validated.error.issues.map(formatIssue));
           return;
         }
         resultValue = validated.data;
@@ -101,7 +141,7 @@ export async function startResultServer<T>(
   });
 
   const resolvedPort = await new Promise<number>((resolve, reject) => {
-    server.listen(port ?? 0, "127.0.0.1", () => {
+    server.listen(options.port ?? 0, "127.0.0.1", () => {
       const address = server.address();
       if (!address || typeof address === "string") {
         reject(new Error("Failed to determine result server port."));
@@ -117,6 +157,7 @@ export async function startResultServer<T>(
   return {
     url,
     waitForResult,
+    rejectedResults,
     close: async () => {
       if (isClosed) return;
       await new Promise<void>((resolve) => {
@@ -142,6 +183,39 @@ function parseResultBody(contentType: string, body: string): { value?: unknown;
   return { value: body.trim() };
 }
 
+function formatIssue(issue: z.core.$ZodIssue): string {
+  const path = issue.path.length > 0 ? formatJsonPath(issue.path) : "$";
+  return `${path}: ${issue.message}`;
+}
+
+function formatJsonPath(path: PropertyKey[]): string {
+  return path.reduce<string>(
+    (acc, segment) =>
+      typeof segment === "number" ? `${acc}[${segment}]` : `${acc}.${String(segment)}`,
+    "$",
+  );
+}
+
+function buildSchemaExcerpt(schema: ZodType<unknown>): string {
+  const json = JSON.stringify(z.toJSONSchema(schema));
+  return json.length > SCHEMA_EXCERPT_MAX_LENGTH
+    ? `${json.slice(0, SCHEMA_EXCERPT_MAX_LENGTH)}…`
+    : json;
+}
+
+function formatRejectedResultsError(rejectedResults: RejectedResult[]): string {
+  const details = rejectedResults.map((rejected, index) => {
+    const body =
+      rejected.body.length > REJECTED_BODY_MAX_LENGTH
+        ? `${rejected.body.slice(0, REJECTED_BODY_MAX_LENGTH)}…`
+        : rejected.body;
+    return `  ${index + 1}. ${rejected.issues.join("; ")}\n     payload: ${body}`;
+  });
+  return [`Agent result was rejected ${rejectedResults.length} times; giving up.`, ...details].join(
+    "\n",
+  );
+}
+
 function buildCallbackUrl(port: number): string {
   return `http://127.0.0.1:${port}/agent-result`;
 }
@@ -0,0 +1,232 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { z, type ZodType } from "zod";
+
+import type { AgentTool, IssueData } from "../types.ts";
+import { getErrorMessage } from "../utils/error.ts";
+
+const MANIFEST_FILENAME = "manifest.json";
+
+const agentStepSchema = z.object({
+  index: z.number().int().nonnegative(),
+  tool: z.string(),
+  promptHash: z.string(),
+  result: z.unknown(),
+  completedAt: z.string(),
+});
+
+const manifestRunSchema = z.object({
+  branchName: z.string().optional(),
+  worktreePath: z.string().optional(),
+  pullRequestUrl: z.string().optional(),
+  exitCode: z.number().int().optional(),
+});
+
+const manifestTargetSchema = z.object({
+  kind: z.enum(["issue", "pr"]),
+  number: z.number().int(),
+  baseBranch: z.string().optional(),
+  issueData: z.custom<IssueData>((value) => typeof value === "object" && value !== null).optional(),
+});
+
+const runManifestSchema = z.object({
+  version: z.literal(1),
+  runTimestamp: z.string(),
+  argv: z.array(z.string()),
+  branchTimestamp: z.string().optional(),
+  // Resolved target values, so a resumed --targets-query run does not pick up new matches.
+  targets: z.array(z.string()).optional(),
+  targetData: z.record(z.string(), manifestTargetSchema),
+  runs: z.record(z.string(), manifestRunSchema),
+  checkpoints: z.record(z.string(), z.array(agentStepSchema)),
+});
+
+type AgentStep = z.infer<typeof agentStepSchema>;
+export type RunManifest = z.infer<typeof runManifestSchema>;
+export type RunManifestRun = z.infer<typeof manifestRunSchema>;
+export type RunManifestTarget = z.infer<typeof manifestTargetSchema>;
+
+/**
+ * Persists the run manifest after every change so that a run killed at any point
+ * (SIGINT, crash, sleep) can be resumed from the last completed agent call.
+ */
+export class RunManifestStore {
+  readonly path: string;
+  private manifest: RunManifest;
+
+  constructor(path: string, manifest: RunManifest) {
+    this.path = path;
+    this.manifest = manifest;
+  }
+
+  get data(): RunManifest {
+    return this.manifest;
+  }
+
+  update(patch: Partial<Omit<RunManifest, "targetData" | "runs" | "checkpoints">>): void {
+    this.manifest = { ...this.manifest, ...patch };
+    this.save();
+  }
+
+  getTarget(target: string): RunManifestTarget | undefined {
+    return this.manifest.targetData[target];
+  }
+
+  updateTarget(target: string, data: RunManifestTarget): void {
+    this.manifest.targetData[target] = data;
+    this.save();
+  }
+
+  getRun(runLabel: string): RunManifestRun | undefined {
+    return this.manifest.runs[runLabel];
+  }
+
+  updateRun(runLabel: string, patch: RunManifestRun): void {
+    this.manifest.runs[runLabel] = { ...this.manifest.runs[runLabel], ...patch };
+    this.save();
+  }
+
+  createCheckpointScope(scopeKey: string): CheckpointScope {
+    return { store: this, scopeKey, nextIndex: 0, diverged: false };
+  }
+
+  getSteps(scopeKey: string): AgentStep[] {
+    return this.manifest.checkpoints[scopeKey] ?? [];
+  }
+
+  recordStep(scopeKey: string, step: AgentStep): void {
+    const steps = this.getSteps(scopeKey).filter((existing) => existing.index !== step.index);
+    this.manifest.checkpoints[scopeKey] = [...steps, step].sort((a, b) => a.index - b.index);
+    this.save();
+  }
+
+  discardStepsFrom(scopeKey: string, index: number): void {
+    const steps = this.getSteps(scopeKey);
+    const kept = steps.filter((step) => step.index < index);
+    if (kept.length === steps.length) return;
+    this.manifest.checkpoints[scopeKey] = kept;
+    this.save();
+  }
+
+  save(): void {
+    writeFileSync(this.path, `${JSON.stringify(this.manifest, null, 2)}\n`, "utf8");
+  }
+}
+
+type CheckpointScope = {
+  store: RunManifestStore;
+  scopeKey: string;
+  nextIndex: number;
+  diverged: boolean;
+};
+
+export type AgentCheckpoint<T> = {
+  replayed?: { result: T; tool: AgentTool };
+  complete: (result: T, tool: AgentTool) => void;
+};
+
+const checkpointStorage = new AsyncLocalStorage<CheckpointScope>();
+
+export function createRunManifest(
+  logDir: string,
+  init: { runTimestamp: string; argv: string[] },
+): RunManifestStore {
+  const store = new RunManifestStore(getRunManifestPath(logDir), {
+    version: 1,
+    runTimestamp: init.runTimestamp,
+    argv: init.argv,
+    targetData: {},
+    runs: {},
+    checkpoints: {},
+  });
+  store.save();
+  return store;
+}
+
+export function loadRunManifest(logDir: string): RunManifestStore {
+  const manifestPath = getRunManifestPath(logDir);
+  if (!existsSync(manifestPath)) {
+    throw new Error(`No run manifest found at ${manifestPath}.`);
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(manifestPath, "utf8"));
+  } catch (error) {
+    const message = getErrorMessage(error);
+    throw new Error(`Failed to parse run manifest at ${manifestPath}: ${message}`);
+  }
+  const validated = runManifestSchema.safeParse(raw);
+  if (!validated.success) {
+    throw new Error(`Invalid run manifest at ${manifestPath}: ${validated.error.message}`);
+  }
+  return new RunManifestStore(manifestPath, validated.data);
+}
+
+export function getRunManifestPath(logDir: string): string {
+  return join(logDir, MANIFEST_FILENAME);
+}
+
+export function runWithAgentCheckpoints<T>(
+  scope: CheckpointScope,
+  fn: () => Promise<T>,
+): Promise<T> {
+  return checkpointStorage.run(scope, fn);
+}
+
+/**
+ * Claims the next checkpoint slot of the current scope.
+ * Slots must be claimed synchronously in call order so that parallel agent calls
+ * (e.g. `runNonInteractiveAgents`) map to the same slots when a run is resumed.
+ */
+export function claimAgentCheckpoint<T>(
+  tool: AgentTool,
+  prompt: string,
+  schema: ZodType<T> | undefined,
+): AgentCheckpoint<T> | undefined {
+  const scope = checkpointStorage.getStore();
+  if (!scope) return undefined;
+
+  const index = scope.nextIndex;
+  scope.nextIndex += 1;
+  const promptHash = hashPrompt(tool, prompt);
+  const replayed = scope.diverged
+    ? undefined
+    : replayStep(scope.store.getSteps(scope.scopeKey), index, promptHash, schema);
+  if (!replayed) {
+    // Once a step runs live, later steps may depend on its new result and cannot be replayed.
+    scope.diverged = true;
+    scope.store.discardStepsFrom(scope.scopeKey, index);
+  }
+
+  return {
+    replayed,
+    complete: (result, producedBy) => {
+      scope.store.recordStep(scope.scopeKey, {
+        index,
+        tool: producedBy,
+        promptHash,
+        result,
+        completedAt: new Date().toISOString(),
+      });
+    },
+  };
+}
+
+function replayStep<T>(
+  steps: AgentStep[],
+  index: number,
+  promptHash: string,
+  schema: ZodType<T> | undefined,
+): { result: T; tool: AgentTool } | undefined {
+  const recorded = steps.find((step) => step.index === index);
+  if (!recorded || recorded.promptHash !== promptHash) return undefined;
+  if (!schema) return { result: recorded.result as T, tool: recorded.tool };
+  const validated = schema.safeParse(recorded.result);
+  return validated.success ? { result: validated.data, tool: recorded.tool } : undefined;
+}
+
+function hashPrompt(tool: AgentTool, prompt: string): string {
+  return createHash("sha256").update(`${tool}\n${prompt}`).digest("hex");
+}
@@ -0,0 +1,343 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { createServer, request as httpRequest } from "node:http";
+import {
+  connect,
+  createServer as createNetServer,
+  type Server as NetServer,
+  type Socket,
+} from "node:net";
+import { homedir, tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+
+import type { SandboxKind } from "../types.ts";
+import { logger } from "../utils/logger.ts";
+
+export type SandboxOptions = {
+  kind: SandboxKind;
+  /** Container image providing the agent CLIs; required by docker and podman. */
+  image?: string;
+  /**
+   * Hosts agents may reach, through an egress proxy; the sandbox has no other network access.
+   * The network is unrestricted when omitted.
+   */
+  allowedHosts?: string[];
+  /** Extra host paths mounted read-write, e.g. the agents' credential directories. */
+  mounts: string[];
+  /**
+   * Names of host environment variables passed into the sandbox; the agents' API keys for
+   * example. Other host variables, such as `GH_TOKEN`, stay outside.
+   */
+  env: string[];
+};
+
+/** A host path mounted at the same path inside the sandbox. */
+export type SandboxMount = { path: string; readOnly?: boolean };
+
+/**
+ * How a sandbox without a network of its own reaches the outside: each loopback port in
+ * `forwards` leads to a Unix socket in `socketDir`, which is mounted into the sandbox.
+ */
+export type SandboxNetwork = { socketDir: string; forwards: [port: number, socketPath: string][] };
+
+export type AgentSandbox = {
+  commandArgs: [string, ...string[]];
+  close: () => Promise<void>;
+};
+
+/** Loopback port of the egress proxy inside the sandbox, which has a network namespace of its own. */
+const SANDBOX_PROXY_PORT = 3128;
+const FORWARDER_FILE = "forward.mjs";
+/**
+ * Runs inside the sandbox before the agent: listens on the loopback ports given as JSON and
+ * pipes every connection to the matching Unix socket.
+ */
+const FORWARDER_SCRIPT = `import { spawn } from "node:child_process";
+import { connect, createServer } from "node:net";
+
+const [forwards, executable, ...args] = process.argv.slice(2);
+await Promise.all(
+  JSON.parse(forwards).map(
+    ([port, socketPath]) =>
+      new Promise((resolve, reject) => {
+        const server = createServer((client) => {
+          const upstream = connect(socketPath);
+          client.pipe(upstream).pipe(client);
+          client.on("error", () => upstream.destroy());
+          upstream.on("error", () => client.destroy());
+        });
+        server.on("error", reject);
+        server.listen(port, "127.0.0.1", resolve);
+      }),
+  ),
+);
+const agent = spawn(executable, args, { stdio: "inherit" });
+for (const signal of ["SIGINT", "SIGTERM", "SIGHUP"]) {
+  process.on(signal, () => agent.kill(signal));
+}
+agent.on("error", (error) => {
+  console.error(error.message);
+  process.exit(127);
+});
+agent.on("exit", (code, signal) => process.exit(code ?? (signal ? 128 : 1)));
+`;
+
+/**
+ * Wraps an agent command so that it only sees the worktree and `mounts`. With
+ * `options.allowedHosts`, the sandbox also loses the host network: agents reach the allowed hosts
+ * through the egress proxy, and the host's `loopbackPorts`, such as the result server's, through
+ * Unix sockets.
+ */
+export async function startAgentSandbox(
+  options: SandboxOptions,
+  commandArgs: [string, ...string[]],
+  context: { cwd: string; terminal?: boolean; mounts: SandboxMount[]; loopbackPorts: number[] },
+): Promise<AgentSandbox> {
+  if (!options.allowedHosts) {
+    return {
+      commandArgs: buildSandboxCommand(options, commandArgs, context),
+      close: async () => {},
+    };
+  }
+
+  const socketDir = mkdtempSync(join(tmpdir(), "o-agents-sandbox-"));
+  const closers: (() => Promise<void>)[] = [];
+  const close = async () => {
+    await Promise.all(closers.map((closeServer) => closeServer()));
+    rmSync(socketDir, { recursive: true, force: true });
+  };
+  try {
+    const proxySocketPath = join(socketDir, "proxy.sock");
+    closers.push(await startEgressProxy(options.allowedHosts, proxySocketPath));
+    const forwards: SandboxNetwork["forwards"] = [[SANDBOX_PROXY_PORT, proxySocketPath]];
+    for (const port of context.loopbackPorts) {
+      const socketPath = join(socketDir, `port-${port}.sock`);
+      closers.push(await startLoopbackBridge(socketPath, port));
+      forwards.push([port, socketPath]);
+    }
+    writeFileSync(join(socketDir, FORWARDER_FILE), FORWARDER_SCRIPT);
+    return {
+      commandArgs: buildSandboxCommand(options, commandArgs, {
+        ...context,
+        network: { socketDir, forwards },
+      }),
+      close,
+    };
+  } catch (error) {
+    await close();
+    throw error;
+  }
+}
+
+/**
+ * Passed into bwrap besides `options.env`, since it starts from the host environment rather than
+ * an image's and agents cannot start without these.
+ */
+const BWRAP_BASE_ENV = ["PATH", "HOME", "USER", "LANG", "LC_ALL", "TERM", "TZ"];
+
+/**
+ * `context.mounts` are mounted after the worktree and `options.mounts`, in order, so that a
+ * read-only mount can cover part of a writable one and the other way around. Without
+ * `context.network`, the sandbox shares the host network.
+ */
+export function buildSandboxCommand(
+  options: SandboxOptions,
+  commandArgs: [string, ...string[]],
+  context: { cwd: string; terminal?: boolean; mounts: SandboxMount[]; network?: SandboxNetwork },
+): [string, ...string[]] {
+  const { network } = context;
+  const mounts: SandboxMount[] = [
+    ...Array.from(new Set([context.cwd, ...options.mounts.map(resolveMountPath)]), (path) => ({
+      path,
+    })),
+    ...context.mounts,
+    ...(network ? [{ path: network.socketDir }] : []),
+  ];
+  const proxyUrl = `http://127.0.0.1:${SANDBOX_PROXY_PORT}`;
+  const proxyEnv: [string, string][] = network
+    ? [
+        ["HTTP_PROXY", proxyUrl],
+        ["HTTPS_PROXY", proxyUrl],
+        ["http_proxy", proxyUrl],
+        ["https_proxy", proxyUrl],
+        ["NO_PROXY", "127.0.0.1,localhost"],
+        ["no_proxy", "127.0.0.1,localhost"],
+      ]
+    : [];
+  const agentArgs: [string, ...string[]] = network
+    ? [
+        "node",
+        join(network.socketDir, FORWARDER_FILE),
+        JSON.stringify(network.forwards),
+        ...commandArgs,
+      ]
+    : commandArgs;
+  if (options.kind === "bwrap") {
+    const env = Array.from(new Set([...BWRAP_BASE_ENV, ...options.env])).flatMap((name) => {
+      const value = process.env[name];
+      return value === undefined ? [] : [[name, value] as const];
+    });
+    return [
+      "bwrap",
+      "--die-with-parent",
+      // Includes the network namespace, which only has a loopback interface.
+      "--unshare-all",
+      ...(network ? [] : ["--share-net"]),
+      "--clearenv",
+      ...[...env, ...proxyEnv].flatMap(([name, value]) => ["--setenv", name, value]),
+      "--ro-bind",
+      "/",
+      "/",
+      "--dev",
+      "/dev",
+      "--proc",
+      "/proc",
+      "--tmpfs",
+      "/tmp",
+      // Hide credentials such as SSH keys; the paths below are mounted back on top.
+      "--tmpfs",
+      homedir(),
+      ...mounts.flatMap(({ path, readOnly }) => [
+        readOnly ? "--ro-bind-try" : "--bind-try",
+        path,
+        path,
+      ]),
+      "--chdir",
+      context.cwd,
+      "--",
+      ...agentArgs,
+    ];
+  }
+
+  if (!options.image) {
+    throw new Error(`sandboxOptions.image is required when sandbox is "${options.kind}".`);
+  }
+  return [
+    options.kind,
+    "run",
+    "--rm",
+    "--init",
+    context.terminal ? "-it" : "-i",
+    "--network",
+    network ? "none" : "host",
+    "--user",
+    `${process.getuid?.() ?? 0}:${process.getgid?.() ?? 0}`,
+    ...mounts.flatMap(({ path, readOnly }) => [
+      "--volume",
+      readOnly ? `${path}:${path}:ro` : `${path}:${path}`,
+    ]),
+    "--workdir",
+    context.cwd,
+    ...options.env.flatMap((name) => ["--env", name]),
+    ...proxyEnv.flatMap(([name, value]) => ["--env", `${name}=${value}`]),
+    options.image,
+    ...agentArgs,
+  ];
+}
+
+/** Matches `host` against entries such as `api.openai.com` or `*.anthropic.com`. */
+export function isHostAllowed(host: string, allowedHosts: string[]): boolean {
+  const normalized = host.toLowerCase();
+  return allowedHosts.some((entry) => {
+    const allowed = entry.toLowerCase();
+    return allowed.startsWith("*.")
+      ? normalized.endsWith(allowed.slice(1))
+      : normalized === allowed;
+  });
+}
+
+/** Serves on a Unix socket, since the sandbox cannot reach the host's loopback interface. */
+export async function startEgressProxy(
+  allowedHosts: string[],
+  socketPath: string,
+): Promise<() => Promise<void>> {
+  const server = createServer((req, res) => {
+    // Bun's server stalls on a second absolute-form request over a kept-alive connection.
+    res.setHeader("connection", "close");
+    const target = URL.canParse(req.url ?? "") ? new URL(req.url ?? "") : undefined;
+    if (!target || !isHostAllowed(target.hostname, allowedHosts)) {
+      logger.error(`Sandbox blocked request to ${target?.hostname ?? req.url}.`);
+      res.writeHead(403).end("Blocked by the o-agents sandbox proxy: host not in allowedHosts.\n");
+      return;
+    }
+    const upstream = httpRequest(
+      target,
+      { method: req.method, headers: req.headers },
+      (upstreamRes) => {
+        res.writeHead(upstreamRes.statusCode ?? 502, {
+          ...upstreamRes.headers,
+          connection: "close",
+        });
+        upstreamRes.pipe(res);
+      },
+    );
+    upstream.on("error", () => res.destroy());
+    req.pipe(upstream);
+  });
+  // Tunnels are detached from the HTTP server, so closing it does not end them.
+  const tunnels = new Set<Socket>();
+  server.on("connect", (req, clientSocket: Socket, head) => {
+    const authority = req.url ?? "";
+    const separator = authority.lastIndexOf(":");
+    const host = separator === -1 ? authority : authority.slice(0, separator);
+    const port = separator === -1 ? 443 : Number(authority.slice(separator + 1));
+    if (!isHostAllowed(host, allowedHosts)) {
+      logger.error(`Sandbox blocked connection to ${host}.`);
+      clientSocket.end("HTTP/1.1 403 Forbidden\r\n\r\n");
+      return;
+    }
+    const upstream = connect(port, host, () => {
+      clientSocket.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+      upstream.write(head);
+      upstream.pipe(clientSocket);
+      clientSocket.pipe(upstream);
+    });
+    trackSocket(tunnels, clientSocket);
+    trackSocket(tunnels, upstream);
+    upstream.on("error", () => clientSocket.destroy());
+    clientSocket.on("error", () => upstream.destroy());
+  });
+
+  await listenOnSocket(server, socketPath);
+  return () =>
+    new Promise<void>((resolveClose) => {
+      server.close(() => resolveClose());
+      server.closeAllConnections();
+      for (const socket of tunnels) socket.destroy();
+    });
+}
+
+/** Lets the sandbox reach a service on the host's loopback `port` through `socketPath`. */
+async function startLoopbackBridge(socketPath: string, port: number): Promise<() => Promise<void>> {
+  const sockets = new Set<Socket>();
+  const server = createNetServer((client) => {
+    const upstream = connect(port, "127.0.0.1");
+    client.pipe(upstream).pipe(client);
+    trackSocket(sockets, client);
+    trackSocket(sockets, upstream);
+    client.on("error", () => upstream.destroy());
+    upstream.on("error", () => client.destroy());
+  });
+  await listenOnSocket(server, socketPath);
+  return () =>
+    new Promise<void>((resolveClose) => {
+      server.close(() => resolveClose());
+      for (const socket of sockets) socket.destroy();
+    });
+}
+
+function trackSocket(sockets: Set<Socket>, socket: Socket): void {
+  sockets.add(socket);
+  socket.on("close", () => sockets.delete(socket));
+}
+
+function listenOnSocket(server: NetServer, socketPath: string): Promise<void> {
+  return new Promise((resolveListen, reject) => {
+    server.once("error", reject);
+    server.listen(socketPath, () => resolveListen());
+  });
+}
+
+function resolveMountPath(path: string): string {
+  if (path === "~") return homedir();
+  return path.startsWith("~/") ? join(homedir(), path.slice(2)) : resolve(path);
+}
@@ -1,19 +1,37 @@
 import { z, type ZodType } from "zod";
 import { PromisePool } from "minimal-promise-pool";
-import { join } from "node:path";
-import { mkdirSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import { existsSync, mkdirSync, readFileSync } from "node:fs";
+import { setTimeout as sleep } from "node:timers/promises";
 
-import { buildAgentCommand } from "./agentCommand.ts";
+import { buildAgentCommand, resolveAgentChain } from "./agentCommand.ts";
+import {
+  assertWithinAgentBudget,
+  isAgentBudgetExceeded,
+  recordAgentCall,
+  recordAgentUsage,
+} from "./agentCalls.ts";
+import { addAgentUsage, formatAgentUsage } from "./agentUsage.ts";
 import { RESULT_DELIVERY_INSTRUCTION } from "./prompt.ts";
 import { startResultServer } from "./resultServer.ts";
+import { type AgentSandbox, type SandboxMount, startAgentSandbox } from "./sandbox.ts";
+import { claimAgentCheckpoint } from "./runManifest.ts";
 import { runAgentUntilResult } from "../utils/run.ts";
 import {
   ensureTemporaryAgentInstructionsApplied,
   restoreTemporaryAgentInstructions,
 } from "./instructionOverride.ts";
-import type { AgentRunOptions, AgentTool } from "../types.ts";
+import type { AgentRunOptions, AgentTool, AgentUsage } from "../types.ts";
 import { O_AGENTS_LOGS_DIR } from "../git/git.ts";
 import { formatRunTimestamp } from "../utils/time.ts";
+import { logger } from "../utils/logger.ts";
+import { getErrorMessage } from "../utils/error.ts";
+
+const DEFAULT_AGENT_GRACE_PERIOD_MS = 5000;
+const DEFAULT_RETRY_DELAY_MS = 5000;
+const DEFAULT_RETRY_BACKOFF_FACTOR = 2;
+const DEFAULT_MAX_RETRY_DELAY_MS = 60_000;
+const DEFAULT_MAX_REJECTED_RESULTS = 5;
 
 let agentConcurrency = 1;
 const promisePools = new Map<AgentTool, PromisePool>();
@@ -23,7 +41,25 @@ export function setAgentConcurrency(value: number): void {
   promisePools.clear();
 }
 
-type RunNonInteractiveAgentsOptions<T> = {
+export type AgentAttemptOptions = {
+  /** Wall-clock limit for a single attempt. */
+  timeoutMs?: number;
+  /** Limit on how long an attempt may go without producing output. */
+  inactivityTimeoutMs?: number;
+  /** How long to wait for the agent to exit on its own after it posts a result. */
+  agentGracePeriodMs?: number;
+  /** Total attempts including the first one. Defaults to 1 (no retries). */
+  maxAttempts?: number;
+  /** Delay before the first retry; later retries multiply it by `retryBackoffFactor`. */
+  retryDelayMs?: number;
+  /** At least 1; defaults to 2. */
+  retryBackoffFactor?: number;
+  maxRetryDelayMs?: number;
+  /** How many invalid result payloads an attempt may post before it fails. Defaults to 5. */
+  maxRejectedResults?: number;
+};
+
+type RunNonInteractiveAgentsOptions<T> = AgentAttemptOptions & {
   tools: AgentTool[];
   prompt: string;
   cwd: string;
@@ -40,32 +76,37 @@ export async function runNonInteractiveAgents<T>(
 export async function runNonInteractiveAgents<T>(
   options: RunNonInteractiveAgentsOptions<T>,
 ): Promise<T[]> {
-  const { tools, prompt, cwd, configDir } = options;
+  const { tools, schema, ...rest } = options;
   const seenTools = new Set<AgentTool>();
   const uniqueTools = tools.filter((tool) => {
     if (seenTools.has(tool)) return false;
     seenTools.add(tool);
     return true;
   });
-  const schema = options.schema;
   if (schema) {
     return Promise.all(
-      uniqueTools.map((tool) => runNonInteractiveAgent({ tool, prompt, cwd, configDir, schema })),
+      uniqueTools.map((tool) => runNonInteractiveAgent({ ...rest, tool, schema })),
     );
   }
   return Promise.all(
-    uniqueTools.map((tool) => runNonInteractiveAgent({ tool, prompt, cwd, configDir })),
+    uniqueTools.map((tool) => runNonInteractiveAgent({ ...rest, tool })),
   ) as Promise<T[]>;
 }
 
-type RunNonInteractiveAgentOptions<T> = {
-  tool: AgentTool;
+type RunNonInteractiveAgentOptions<T> = AgentAttemptOptions & {
+  /** A single agent (plus its configured fallbacks) or an explicit ordered fallback chain. */
+  tool: AgentTool | AgentTool[];
   prompt: string;
   cwd: string;
   configDir?: string;
   schema?: ZodType<T>;
 };
 
+type SingleAgentOptions<T> = Omit<RunNonInteractiveAgentOptions<T>, "tool"> & {
+  tool: AgentTool;
+  onUsage: (usage: AgentUsage) => void;
+};
+
 export async function runNonInteractiveAgent(
   options: RunNonInteractiveAgentOptions<string>,
 ): Promise<string>;
@@ -75,36 +116,203 @@ export async function runNonInteractiveAgent<T>(
 export async function runNonInteractiveAgent<T>(
   options: RunNonInteractiveAgentOptions<T>,
 ): Promise<T> {
+  const chain = resolveAgentChain(options.tool, options.configDir ?? process.cwd());
+  const [requestedTool] = chain;
+  const startedAt = new Date();
+  const getCallTiming = () => ({
+    startedAt: startedAt.toISOString(),
+    durationMs: Date.now() - startedAt.getTime(),
+  });
+  const checkpoint = claimAgentCheckpoint(
+    chain.join(","),
+    options.prompt,
+    options.schema as ZodType<T> | undefined,
+  );
+  if (checkpoint?.replayed) {
+    const { result, tool } = checkpoint.replayed;
+    logger.info(`Replayed ${tool} result from run manifest.`);
+    recordAgentCall({ requestedTool, tool, status: "replayed", ...getCallTiming(), durationMs: 0 });
+    return result;
+  }
+  assertWithinAgentBudget();
+
+  let usage: AgentUsage | undefined;
+  const onUsage = (attemptUsage: AgentUsage) => {
+    logger.info(`Agent usage: ${formatAgentUsage(attemptUsage)}`);
+    usage = addAgentUsage(usage, attemptUsage);
+    recordAgentUsage(attemptUsage);
+  };
+  let lastError: unknown;
+  for (const [index, tool] of chain.entries()) {
+    try {
+      const result = await runAgentWithRetries<T>({ ...options, tool, onUsage });
+      if (index > 0) {
+        logger.info(`Result produced by fallback agent ${tool} (requested ${requestedTool}).`);
+      }
+      checkpoint?.complete(result, tool);
+      recordAgentCall({ requestedTool, tool, status: "succeeded", ...getCallTiming(), usage });
+      return result;
+    } catch (error) {
+      lastError = error;
+      const nextTool = chain[index + 1];
+      if (!nextTool || isAgentBudgetExceeded()) break;
+      logger.error(`Agent ${tool} failed: ${getErrorMessage(error)} Falling back to ${nextTool}.`);
+    }
+  }
+  recordAgentCall({
+    requestedTool,
+    status: "failed",
+    ...getCallTiming(),
+    usage,
+    error: getErrorMessage(lastError),
+  });
+  throw lastError;
+}
+
+async function runAgentWithRetries<T>(options: SingleAgentOptions<T>): Promise<T> {
+  const maxAttempts = options.maxAttempts ?? 1;
+  if (!Number.isInteger(maxAttempts) || maxAttempts <= 0) {
+    throw new Error("maxAttempts must be a positive integer.");
+  }
+  const retryBackoffFactor = options.retryBackoffFactor ?? DEFAULT_RETRY_BACKOFF_FACTOR;
+  if (!Number.isFinite(retryBackoffFactor) || retryBackoffFactor < 1) {
+    throw new Error("retryBackoffFactor must be a number of at least 1.");
+  }
   const pool = getPromisePool(options.tool);
-  return pool.runAndWaitForReturnValue(async () => {
-    const { tool, prompt, cwd } = options;
-    const configDir = options.configDir ?? process.cwd();
-    const schema = options.schema as ZodType<T> | undefined;
-    const resultServer = await startResultServer(schema);
-    const instruction = buildResponseInstruction(resultServer.url, schema).instruction;
-    const resolvedPrompt = injectResponseInstruction(prompt, instruction);
+  let retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  let previousError: unknown;
+  for (let attempt = 1; ; attempt++) {
+    const prompt =
+      attempt === 1
+        ? options.prompt
+        : prependRetryNote(options.prompt, attempt, maxAttempts, previousError);
     try {
-      await ensureTemporaryAgentInstructionsApplied({ cwd });
-      const agentCommand = buildAgentCommand(tool, resolvedPrompt, configDir);
-      const [agentExecutable, ...agentExecArgs] = agentCommand.commandArgs;
-      const agentRunOptions: AgentRunOptions = {
-        stream: true,
-        cwd,
-        terminal: agentCommand.terminal,
-        agentGracePeriodMs: 5000,
-      };
-      const result = await runAgentUntilResult(
-        agentExecutable,
-        agentExecArgs,
-        resultServer.waitForResult,
-        agentRunOptions,
+      // Each attempt takes its own pool slot so other agents can run during the backoff.
+      return await pool.runAndWaitForReturnValue(() => runAgentAttempt<T>(options, prompt));
+    } catch (error) {
+      if (attempt >= maxAttempts) throw error;
+      assertWithinAgentBudget();
+      previousError = error;
+      logger.error(
+        `Agent ${options.tool} attempt ${attempt}/${maxAttempts} failed: ${getErrorMessage(error)} Retrying in ${retryDelayMs}ms...`,
+      );
+      await sleep(retryDelayMs);
+      retryDelayMs = Math.min(
+        retryDelayMs * retryBackoffFactor,
+        options.maxRetryDelayMs ?? DEFAULT_MAX_RETRY_DELAY_MS,
       );
-      return result.result as T;
-    } finally {
-      await resultServer?.close();
-      await restoreTemporaryAgentInstructions({ cwd });
     }
+  }
+}
+
+async function runAgentAttempt<T>(options: SingleAgentOptions<T>, prompt: string): Promise<T> {
+  const { tool, cwd } = options;
+  const configDir = options.configDir ?? process.cwd();
+  const schema = options.schema as ZodType<T> | undefined;
+  const resultServer = await startResultServer(schema, {
+    maxRejectedResults: options.maxRejectedResults ?? DEFAULT_MAX_REJECTED_RESULTS,
   });
+  const instruction = buildResponseInstruction(resultServer.url, schema).instruction;
+  const resolvedPrompt = injectResponseInstruction(prompt, instruction);
+  let sandbox: AgentSandbox | undefined;
+  try {
+    await ensureTemporaryAgentInstructionsApplied({ cwd });
+    const agentCommand = buildAgentCommand(tool, resolvedPrompt, configDir);
+    sandbox = agentCommand.sandbox
+      ? await startAgentSandbox(agentCommand.sandbox, agentCommand.commandArgs, {
+          cwd,
+          terminal: agentCommand.terminal,
+          mounts: getSandboxMounts(cwd),
+          loopbackPorts: [Number(new URL(resultServer.url).port)],
+        })
+      : undefined;
+    if (sandbox) logger.info(`Running ${tool} in a ${agentCommand.sandbox?.kind} sandbox.`);
+    const [agentExecutable, ...agentExecArgs] = sandbox?.commandArgs ?? agentCommand.commandArgs;
+    const agentRunOptions: AgentRunOptions = {
+      stream: true,
+      cwd,
+      terminal: agentCommand.terminal,
+      agentGracePeriodMs: options.agentGracePeriodMs ?? DEFAULT_AGENT_GRACE_PERIOD_MS,
+      inactivityTimeoutMs: options.inactivityTimeoutMs,
+      timeoutMs: options.timeoutMs,
+      usageExtractor: agentCommand.usageExtractor,
+      onUsage: options.onUsage,
+    };
+    const startedAt = Date.now();
+    logger.event({ type: "agent_prompt_sent", tool, prompt: resolvedPrompt });
+    const result = await runAgentUntilResult(
+      agentExecutable,
+      agentExecArgs,
+      resultServer.waitForResult,
+      agentRunOptions,
+    );
+    logger.event({
+      type: "agent_result_received",
+      tool,
+      durationMs: Date.now() - startedAt,
+      result: result.result,
+    });
+    return result.result as T;
+  } finally {
+    await sandbox?.close();
+    await resultServer.close();
+    await restoreTemporaryAgentInstructions({ cwd });
+  }
+}
+
+/**
+ * Host paths besides the worktree `cwd` that sandboxed agents see. Commits in a worktree write
+ * objects, refs, and reflogs to the main repository's .git and the index and HEAD to the
+ * worktree's directory in it. The rest of .git stays read-only, including the hooks, the config,
+ * and the files pointing git at these directories, because the host runs git in the worktree
+ * after the agent.
+ */
+export function getSandboxMounts(cwd: string): SandboxMount[] {
+  const gitDir = resolve(".git");
+  const mounts: SandboxMount[] = [
+    { path: resolve(O_AGENTS_LOGS_DIR) },
+    { path: gitDir, readOnly: true },
+    ...["objects", "refs", "logs"].map((name) => ({ path: join(gitDir, name) })),
+  ];
+  const worktreeGitDir = readWorktreeGitDir(cwd);
+  // Only the worktree's own directory is trusted; the pointer could name any host path.
+  if (worktreeGitDir && dirname(worktreeGitDir) === join(gitDir, "worktrees")) {
+    mounts.push(
+      { path: worktreeGitDir },
+      ...["commondir", "gitdir", "config.worktree"].map((name) => ({
+        path: join(worktreeGitDir, name),
+        readOnly: true,
+      })),
+      { path: join(cwd, ".git"), readOnly: true },
+    );
+  }
+  // Containers would create missing paths as root-owned directories.
+  return mounts.filter(({ path }) => existsSync(path));
+}
+
+function readWorktreeGitDir(cwd: string): string | undefined {
+  try {
+    const pointer = readFileSync(join(cwd, ".git"), "utf8");
+    const gitDir = /^gitdir: (.+)$/m.exec(pointer)?.[1]?.trim();
+    return gitDir ? resolve(cwd, gitDir) : undefined;
+  } catch {
+    // .git is a directory in the main worktree.
+    return undefined;
+  }
+}
+
+function prependRetryNote(
+  prompt: string,
+  attempt: number,
+  maxAttempts: number,
+  previousError: unknown,
+): string {
+  return `
+Note: This is attempt ${attempt} of ${maxAttempts}. The previous attempt failed before delivering a result:
+${getErrorMessage(previousError)}
+The previous attempt may have left partial changes; inspect the current state of the repository before continuing.
+
+${prompt}`.trim();
 }
 
 function injectResponseInstruction(prompt: string, instruction: string): string {
@@ -152,6 +360,7 @@ function buildResponseInstruction(
     "```json",
     JSON.stringify(jsonSchema, null, 2),
     "```",
+    "If the server rejects the response, it lists every schema violation with its JSON path; fix them all and submit again.",
   );
   return {
     instruction: instructionLines.join("\n"),
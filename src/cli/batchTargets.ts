@@ -0,0 +1,28 @@
+import type { Forge } from "../forge/forge.ts";
+import type { WorkKind } from "../types.ts";
+
+export type ResolvedTargetKind = { kind: WorkKind; number: number };
+
+/**
+ * Drops targets naming an issue or PR listed before, e.g. `12` after its URL. Targets that fail
+ * to resolve are kept, so that they fail on their own run instead of aborting the batch.
+ */
+export async function dedupeTargets(
+  targets: string[],
+  forge: Forge,
+  targetKinds: Map<string, ResolvedTargetKind>,
+): Promise<string[]> {
+  const resolvedKinds = await Promise.all(
+    targets.map((target) => forge.resolveTargetKind(target).catch(() => undefined)),
+  );
+  const seen = new Set<string>();
+  return targets.filter((target, index) => {
+    const resolved = resolvedKinds[index];
+    if (!resolved) return true;
+    const key = `${resolved.kind}-${resolved.number}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    targetKinds.set(target, resolved);
+    return true;
+  });
+}
@@ -0,0 +1,81 @@
+import type { AgentTool, AgentUsage, WorktreeMetrics } from "../types.ts";
+import type { JudgeVote } from "./judgeVotes.ts";
+
+export const COMPARE_COMMENT_MARKER = "<!-- o-agents:compare-result -->";
+
+/** What the comparison comment shows of each workflow run. */
+export type ComparedRunResult = {
+  tool: AgentTool;
+  pullRequestUrl?: string;
+  usage?: AgentUsage;
+};
+
+export function buildComparisonCommentBody(options: {
+  bestPrUrl?: string;
+  reason?: string;
+  votes: JudgeVote[];
+  results: ComparedRunResult[];
+  metricsByUrl: Map<string, WorktreeMetrics | undefined>;
+  metricNames: string[];
+}): string {
+  const winner = (options.bestPrUrl ?? "").trim();
+  let winnerText = "No acceptable PR selected";
+  if (winner && winner !== "N/A") {
+    const agent = options.results.find(
+      (result) => (result.pullRequestUrl ?? "").trim() === winner,
+    )?.tool;
+    winnerText = agent ? `${winner} (agent: ${agent})` : winner;
+  }
+  const reasoning = (options.reason ?? "").trim() || "No reasoning provided.";
+  return `${COMPARE_COMMENT_MARKER}
+## O-Agents Comparison Result
+🏆 Winner: ${winnerText}
+🤔 Reasoning:
+${reasoning}
+${buildVotesSection(options.votes)}
+${buildMetricsTable(options.results, options.metricsByUrl, options.metricNames)}`;
+}
+
+function buildVotesSection(votes: JudgeVote[]): string {
+  if (votes.length < 2) return "";
+  const lines = votes.map(
+    (vote) =>
+      `- **${vote.judge}** picked ${vote.bestPrUrl}: ${vote.reason.trim().replace(/\s*\n\s*/g, " ")}`,
+  );
+  return `\n🗳️ Votes:\n${lines.join("\n")}\n`;
+}
+
+export function buildMetricsTable(
+  results: ComparedRunResult[],
+  metricsByUrl: Map<string, WorktreeMetrics | undefined>,
+  metricNames: string[],
+): string {
+  const header = ["PR", "Agent", "Files", "Lines", "Tests", ...metricNames, "Tokens", "Cost"];
+  const rows = results.flatMap((result) => {
+    if (!result.pullRequestUrl) return [];
+    const metrics = metricsByUrl.get(result.pullRequestUrl);
+    const { totalTokens, costUsd } = result.usage ?? {};
+    const cells = [
+      result.pullRequestUrl,
+      result.tool,
+      metrics ? String(metrics.filesChanged) : "N/A",
+      metrics ? `+${metrics.linesAdded} / -${metrics.linesRemoved}` : "N/A",
+      formatCommandExitCode(metrics?.testExitCode),
+      ...metricNames.map((name) => formatCommandExitCode(metrics?.commands[name])),
+      totalTokens === undefined ? "N/A" : totalTokens.toLocaleString("en-US"),
+      costUsd === undefined ? "N/A" : `$${costUsd.toFixed(2)}`,
+    ];
+    return [`| ${cells.join(" | ")} |`];
+  });
+  return [
+    "📊 Metrics:",
+    `| ${header.join(" | ")} |`,
+    `| ${header.map(() => "---").join(" | ")} |`,
+    ...rows,
+  ].join("\n");
+}
+
+function formatCommandExitCode(exitCode: number | undefined): string {
+  if (exitCode === undefined) return "N/A";
+  return exitCode === 0 ? "✅" : `❌ (exit ${exitCode})`;
+}
@@ -0,0 +1,250 @@
+import { createServer, type ServerResponse } from "node:http";
+
+import { type LogRecord, logger } from "../utils/logger.ts";
+import { stripAnsi } from "../utils/redact.ts";
+
+/** One workflow run (or the run itself, for output outside any workflow) shown as a column. */
+export type DashboardColumn = {
+  /** The `mainPrefix` of the output, e.g. `[main-1]` or `[issue-12] [compare-2]`. */
+  id: string;
+  target?: string;
+  tool?: string;
+  workflow?: string;
+  step?: string;
+  startedAt?: string;
+  finishedAt?: string;
+  exitCode?: number;
+  pullRequestUrl?: string;
+  log: string;
+};
+
+export type Dashboard = {
+  url: string;
+  close: () => Promise<void>;
+};
+
+const RUN_COLUMN_ID = "run";
+// Agents can print megabytes; browsers only need the tail to follow along.
+const MAX_LOG_LENGTH = 200_000;
+
+/**
+ * Serves a page on the loopback interface that shows every workflow run as a column with its live
+ * output, current step, elapsed time, PR and exit code, fed by `logger.subscribe`.
+ */
+export async function startDashboard(options: { port?: number } = {}): Promise<Dashboard> {
+  const columns = new Map<string, DashboardColumn>();
+  const clients = new Set<ServerResponse>();
+  const unsubscribe = logger.subscribe((record) => {
+    const column = applyLogRecord(columns, record);
+    const message =
+      record.kind === "output"
+        ? { event: "output", data: { id: column.id, text: stripAnsi(record.text) } }
+        : { event: "column", data: { ...column, log: undefined } };
+    for (const client of clients) {
+      writeServerSentEvent(client, message.event, message.data);
+    }
+  });
+
+  const server = createServer((req, res) => {
+    const requestUrl = new URL(req.url ?? "", "http://127.0.0.1");
+    if (req.method !== "GET") {
+      res.writeHead(405, { "content-type": "text/plain" });
+      res.end("Method Not Allowed");
+      return;
+    }
+    if (requestUrl.pathname === "/") {
+      res.writeHead(200, { "content-type": "text/html; charset=utf-8" });
+      res.end(DASHBOARD_HTML);
+      return;
+    }
+    if (requestUrl.pathname === "/events") {
+      res.writeHead(200, {
+        "content-type": "text/event-stream",
+        "cache-control": "no-cache",
+        connection: "keep-alive",
+      });
+      writeServerSentEvent(res, "snapshot", Array.from(columns.values()));
+      clients.add(res);
+      req.on("close", () => clients.delete(res));
+      return;
+    }
+    res.writeHead(404, { "content-type": "text/plain" });
+    res.end("Not Found");
+  });
+
+  const port = await new Promise<number>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, "127.0.0.1", () => {
+      const address = server.address();
+      if (!address || typeof address === "string") {
+        reject(new Error("Failed to determine dashboard port."));
+        return;
+      }
+      resolve(address.port);
+    });
+  }).catch((error: unknown) => {
+    unsubscribe();
+    throw error;
+  });
+
+  return {
+    url: `http://127.0.0.1:${port}/`,
+    close: () =>
+      new Promise<void>((resolve) => {
+        unsubscribe();
+        for (const client of clients) client.end();
+        clients.clear();
+        server.close(() => resolve());
+        server.closeAllConnections();
+      }),
+  };
+}
+
+/** Folds `record` into the column of its workflow run and returns that column. */
+export function applyLogRecord(
+  columns: Map<string, DashboardColumn>,
+  record: LogRecord,
+): DashboardColumn {
+  const id = record.context.mainPrefix ?? RUN_COLUMN_ID;
+  let column = columns.get(id);
+  if (!column) {
+    column = { id, log: "" };
+    columns.set(id, column);
+  }
+  if (record.kind === "output") {
+    column.log = trimLog(column.log + stripAnsi(record.text));
+    return column;
+  }
+
+  const { event } = record;
+  switch (event.type) {
+    case "run_started":
+    case "workflow_started":
+      column.startedAt = event.time;
+      column.finishedAt = undefined;
+      column.exitCode = undefined;
+      if (event.type === "workflow_started") {
+        column.target = event.target;
+        column.tool = event.tool;
+        column.workflow = event.workflow;
+      }
+      break;
+    case "step_started":
+      column.step = event.step;
+      break;
+    case "step_finished":
+      column.step = undefined;
+      break;
+    case "pull_request_created":
+      column.pullRequestUrl = event.url;
+      break;
+    case "run_finished":
+    case "workflow_finished":
+      column.finishedAt = event.time;
+      column.exitCode = event.exitCode;
+      if (event.type === "workflow_finished") {
+        column.pullRequestUrl = event.pullRequestUrl ?? column.pullRequestUrl;
+      }
+      break;
+  }
+  return column;
+}
+
+function trimLog(log: string): string {
+  if (log.length <= MAX_LOG_LENGTH) return log;
+  const tail = log.slice(-MAX_LOG_LENGTH);
+  const lineStart = tail.indexOf("\n");
+  return lineStart === -1 ? tail : tail.slice(lineStart + 1);
+}
+
+function writeServerSentEvent(res: ServerResponse, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+const DASHBOARD_HTML = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>o-agents</title>
+<style>
+  body { margin: 0; font: 14px system-ui, sans-serif; background: #f6f8fa; color: #1f2328; }
+  header { padding: 8px 16px; font-weight: 600; }
+  #columns { display: flex; gap: 12px; padding: 0 16px 16px; height: calc(100vh - 52px); overflow-x: auto; }
+  .column { display: flex; flex-direction: column; flex: 0 0 560px; background: #fff; border: 1px solid #d0d7de; border-radius: 6px; }
+  .meta { padding: 8px 12px; border-bottom: 1px solid #d0d7de; line-height: 1.5; }
+  .title { font-weight: 600; }
+  .status { float: right; padding: 0 8px; border-radius: 10px; background: #ddf4ff; }
+  .status.ok { background: #dafbe1; }
+  .status.failed { background: #ffebe9; }
+  pre { flex: 1; margin: 0; padding: 8px 12px; overflow: auto; font-size: 12px; white-space: pre-wrap; word-break: break-all; }
+</style>
+</head>
+<body>
+<header>o-agents</header>
+<main id="columns"></main>
+<script>
+  const columns = new Map();
+  const container = document.getElementById("columns");
+
+  function render(column) {
+    let view = columns.get(column.id);
+    if (!view) {
+      const element = document.createElement("section");
+      element.className = "column";
+      element.innerHTML = '<div class="meta"><span class="status"></span><div class="title"></div>' +
+        '<div class="details"></div><div class="step"></div><div class="elapsed"></div><a class="pr" target="_blank"></a></div><pre></pre>';
+      container.append(element);
+      view = { element, data: column };
+      columns.set(column.id, view);
+    }
+    view.data = column;
+    const { data, element } = view;
+    element.querySelector(".title").textContent = data.id;
+    element.querySelector(".details").textContent =
+      [data.target, data.tool, data.workflow].filter(Boolean).join(" · ");
+    element.querySelector(".step").textContent = data.step ? "Step: " + data.step : "";
+    const status = element.querySelector(".status");
+    status.textContent = data.exitCode === undefined ? (data.startedAt ? "running" : "") : "exit " + data.exitCode;
+    status.className = "status" + (data.exitCode === undefined ? "" : data.exitCode === 0 ? " ok" : " failed");
+    const pr = element.querySelector(".pr");
+    pr.textContent = data.pullRequestUrl ?? "";
+    if (data.pullRequestUrl) pr.href = data.pullRequestUrl;
+    updateElapsed(view);
+    return view;
+  }
+
+  function appendLog(view, text) {
+    const pre = view.element.querySelector("pre");
+    const following = pre.scrollTop + pre.clientHeight >= pre.scrollHeight - 4;
+    pre.append(text);
+    if (pre.textContent.length > ${MAX_LOG_LENGTH}) {
+      pre.textContent = pre.textContent.slice(-${MAX_LOG_LENGTH});
+    }
+    if (following) pre.scrollTop = pre.scrollHeight;
+  }
+
+  function updateElapsed(view) {
+    const { startedAt, finishedAt } = view.data;
+    if (!startedAt) return;
+    const end = finishedAt ? Date.parse(finishedAt) : Date.now();
+    const seconds = Math.max(0, Math.round((end - Date.parse(startedAt)) / 1000));
+    view.element.querySelector(".elapsed").textContent =
+      "Elapsed: " + Math.floor(seconds / 60) + "m " + (seconds % 60) + "s";
+  }
+
+  const source = new EventSource("/events");
+  source.addEventListener("snapshot", (message) => {
+    columns.clear();
+    container.replaceChildren();
+    for (const column of JSON.parse(message.data)) appendLog(render(column), column.log);
+  });
+  source.addEventListener("column", (message) => render(JSON.parse(message.data)));
+  source.addEventListener("output", (message) => {
+    const { id, text } = JSON.parse(message.data);
+    appendLog(columns.get(id) ?? render({ id }), text);
+  });
+  setInterval(() => columns.forEach(updateElapsed), 1000);
+</script>
+</body>
+</html>
+`;
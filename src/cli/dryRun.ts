@@ -0,0 +1,123 @@
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { buildAgentCommand } from "../agent/agentCommand.ts";
+import {
+  createAgentRegistry,
+  getAgentDefinition,
+  getAgentFallbackChain,
+} from "../agent/agentRegistry.ts";
+import { loadPromptTemplates } from "../agent/promptTemplates.ts";
+import { buildSandboxCommand } from "../agent/sandbox.ts";
+import { getSandboxMounts } from "../agent/workflowRunner.ts";
+import { loadConfigFile } from "../config/oAgentsConfig.ts";
+import { buildWorktreeBranchName, buildWorktreePath, getCurrentBranch } from "../git/git.ts";
+import { type Forge, getForge } from "../forge/forge.ts";
+import type { ParsedArgs } from "../types.ts";
+import { logger } from "../utils/logger.ts";
+import { formatRunTimestamp } from "../utils/time.ts";
+import {
+  buildWorkflowRuns,
+  loadWorkflow,
+  resolveWorkflowParams,
+  resolveWorkflowSpecs,
+  validateWorkflowParams,
+} from "./workflowLoader.ts";
+
+const PROMPT_PLACEHOLDER = "<prompt>";
+
+/**
+ * Resolves everything a real run would resolve before launching agents and prints it.
+ * Only read-only `gh`/`git` queries are issued; no worktree, push, or agent call happens.
+ */
+export async function printDryRunPlan(options: {
+  args: ParsedArgs;
+  targets: string[];
+  cwd: string;
+  /** Defaults to the forge of `cwd`. */
+  forge?: Forge;
+}): Promise<void> {
+  const { args, targets, cwd } = options;
+  const config = loadConfigFile(cwd);
+  const registry = createAgentRegistry(config);
+  const promptTemplates = loadPromptTemplates(cwd);
+  const { mainSpec, compareSpecs } = resolveWorkflowSpecs(args);
+  const workflowRuns = buildWorkflowRuns(mainSpec, compareSpecs);
+  const branchTimestamp = formatRunTimestamp();
+  const initCommand = args.initCommand.trim();
+
+  // Validate every workflow up front so that param errors surface before any target lookup.
+  const resolvedRuns = await Promise.all(
+    workflowRuns.map(async (runPlan) => {
+      const workflow = await loadWorkflow(runPlan.spec.workflow);
+      const rawParams = await resolveWorkflowParams(runPlan.spec.params);
+      const params = validateWorkflowParams(rawParams, workflow.paramsSchema);
+      return { runPlan, workflowPath: workflow.workflowPath, params };
+    }),
+  );
+
+  const forge = options.forge ?? (await getForge(cwd));
+  logger.info("Dry run: no worktrees, pushes, or agent calls will be made.");
+  logger.info(`Forge: ${forge.kind}`);
+  if (config?.sandbox) {
+    const { kind, allowedHosts } = config.sandbox;
+    logger.info(
+      `Sandbox: ${kind} (network: ${allowedHosts ? allowedHosts.join(", ") || "none" : "unrestricted"})`,
+    );
+  }
+  if (promptTemplates.size > 0) {
+    logger.info(`Prompt overrides: ${Array.from(promptTemplates.keys()).join(", ")}`);
+  }
+  for (const target of targets) {
+    const { kind, number } = await forge.resolveTargetKind(target);
+    const baseBranch =
+      kind === "issue"
+        ? await getCurrentBranch(cwd)
+        : (await forge.fetchIssueOrPullRequestData(kind, number)).headBranch;
+    logger.info(`Target: ${kind} #${number} (base branch: ${baseBranch || "unknown"})`);
+
+    for (const [index, { runPlan, workflowPath, params }] of resolvedRuns.entries()) {
+      const runIndex = index + 1;
+      const definition = getAgentDefinition(registry, runPlan.spec.tool);
+      const worktreePath = buildWorktreePath(cwd, kind, number, runIndex);
+      const agentCommand = buildAgentCommand(runPlan.spec.tool, PROMPT_PLACEHOLDER, cwd);
+      // Sandboxed agents are launched through a command that mounts the run's worktree.
+      const commandArgs = agentCommand.sandbox
+        ? buildSandboxCommand(agentCommand.sandbox, agentCommand.commandArgs, {
+            cwd: worktreePath,
+            terminal: agentCommand.terminal,
+            mounts: getSandboxMounts(worktreePath),
+            // The socket directory is only created when the agent starts.
+            network: agentCommand.sandbox.allowedHosts
+              ? { socketDir: join(tmpdir(), "o-agents-sandbox-XXXXXX"), forwards: [] }
+              : undefined,
+          })
+        : agentCommand.commandArgs;
+      const aliases = definition?.aliases.length
+        ? ` (aliases: ${definition.aliases.join(", ")})`
+        : "";
+      const [, ...fallbacks] = getAgentFallbackChain(registry, runPlan.spec.tool);
+      logger.info(`  [${runPlan.kind}-${runIndex}] agent=${runPlan.spec.tool}${aliases}`);
+      if (fallbacks.length > 0) {
+        logger.info(`     fallbacks=${fallbacks.join(" -> ")}`);
+      }
+      logger.info(`     workflow=${workflowPath}`);
+      logger.info(`     params=${params === undefined ? "N/A" : JSON.stringify(params)}`);
+      logger.info(
+        `     branch=${buildWorktreeBranchName(kind, number, branchTimestamp, runIndex)}`,
+      );
+      logger.info(`     worktree=${worktreePath}`);
+      logger.info(`     command=${formatCommandLine(commandArgs)}`);
+      if (agentCommand.terminal) {
+        logger.info("     terminal=true");
+      }
+      logger.info(`     init=${initCommand || "N/A"}`);
+    }
+  }
+}
+
+function formatCommandLine(args: string[]): string {
+  return args
+    .map((arg) => (/^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replaceAll("'", `'\\''`)}'`))
+    .join(" ");
+}
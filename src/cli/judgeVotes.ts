@@ -0,0 +1,81 @@
+import type { AgentTool } from "../types.ts";
+import { getErrorMessage } from "../utils/error.ts";
+import { logger } from "../utils/logger.ts";
+
+export type JudgeVote = {
+  judge: AgentTool;
+  bestPrUrl: string;
+  reason: string;
+  /** Set when the judge failed; its vote is then an abstention. */
+  error?: string;
+};
+
+/**
+ * Runs every judge in parallel and collects their votes. A judge that fails abstains instead of
+ * discarding the votes of the others; only a panel in which every judge failed is an error.
+ */
+export async function collectJudgeVotes(
+  judges: AgentTool[],
+  runJudge: (judge: AgentTool) => Promise<{ bestPrUrl: string; reason: string }>,
+): Promise<JudgeVote[]> {
+  const settled = await Promise.allSettled(judges.map((judge) => runJudge(judge)));
+  if (settled.every((result) => result.status === "rejected")) {
+    throw settled[0]?.reason ?? new Error("No judges to compare the pull requests.");
+  }
+  return judges.map((judge, index) => {
+    const result = settled[index]!;
+    if (result.status === "fulfilled") {
+      logger.info(`Vote by ${judge}: ${result.value.bestPrUrl}`);
+      return { judge, ...result.value };
+    }
+    const error = getErrorMessage(result.reason);
+    logger.error(`Judge ${judge} failed and abstains: ${error}`);
+    return { judge, bestPrUrl: "N/A", reason: "Abstained: the judge failed.", error };
+  });
+}
+
+/**
+ * Picks the PR with the most votes. A pick that is not one of `candidateUrls` (e.g. "N/A")
+ * counts as an abstention. Ties go to the tied PR picked by the earliest judge in `votes`,
+ * which follows the order of `--judges`.
+ */
+export function tallyJudgeVotes(
+  votes: JudgeVote[],
+  candidateUrls: string[],
+): { bestPrUrl: string; reason: string } {
+  if (votes.length === 1 && votes[0]) {
+    return { bestPrUrl: votes[0].bestPrUrl, reason: votes[0].reason };
+  }
+  const candidates = new Set(candidateUrls.map(normalizePullRequestUrl));
+  const supporters = new Map<string, JudgeVote[]>();
+  for (const vote of votes) {
+    const url = normalizePullRequestUrl(vote.bestPrUrl);
+    if (!candidates.has(url)) continue;
+    supporters.set(url, [...(supporters.get(url) ?? []), vote]);
+  }
+  // Map iteration follows insertion order, i.e. the first judge to pick each PR.
+  let winner: [string, JudgeVote[]] | undefined;
+  let tied = false;
+  for (const entry of supporters) {
+    if (!winner || entry[1].length > winner[1].length) {
+      winner = entry;
+      tied = false;
+    } else if (entry[1].length === winner[1].length) {
+      tied = true;
+    }
+  }
+  if (!winner) {
+    return { bestPrUrl: "N/A", reason: "No judge selected an acceptable PR." };
+  }
+  const [bestPrUrl, winnerVotes] = winner;
+  const judges = winnerVotes.map((vote) => vote.judge).join(", ");
+  const tieNote = tied ? "; tie broken by judge order" : "";
+  return {
+    bestPrUrl,
+    reason: `Selected by ${judges} (${winnerVotes.length}/${votes.length} votes${tieNote}).\n${winnerVotes[0]?.reason ?? ""}`,
+  };
+}
+
+function normalizePullRequestUrl(url: string): string {
+  return url.trim().replace(/\/+$/, "");
+}
@@ -0,0 +1,62 @@
+import { type Forge, getForge } from "../forge/forge.ts";
+import { deleteRemoteBranch } from "../git/git.ts";
+import type { LoserReport } from "../report/runReport.ts";
+import type { LoserAction } from "../types.ts";
+import { getErrorMessage } from "../utils/error.ts";
+import { logger } from "../utils/logger.ts";
+
+export const LOST_LABEL = "o-agents:lost";
+
+export type ComparedPullRequest = { pullRequestUrl: string; branchName?: string };
+
+/**
+ * Closes, drafts, or labels every compared PR other than `bestPrUrl`, and deletes their remote
+ * branches if asked (only allowed with "close", since that closes the PR on most forges).
+ * Nothing is done when the pick is not one of the compared PRs, e.g. "N/A".
+ * Failures are logged and reported so one PR does not stop the rest.
+ */
+export async function handleLosingPullRequests(options: {
+  bestPrUrl: string;
+  /** Every compared PR, the winner included. */
+  pullRequests: ComparedPullRequest[];
+  action: LoserAction;
+  deleteBranches: boolean;
+  forge?: Forge;
+}): Promise<LoserReport[]> {
+  const { action } = options;
+  const bestPrUrl = options.bestPrUrl.trim();
+  if (!options.pullRequests.some(({ pullRequestUrl }) => pullRequestUrl === bestPrUrl)) {
+    logger.info("Losing PRs left open: no compared PR was selected.");
+    return [];
+  }
+  const losers = options.pullRequests.filter(({ pullRequestUrl }) => pullRequestUrl !== bestPrUrl);
+  const forge = options.forge ?? (await getForge());
+  const outcomes: LoserReport[] = [];
+  for (const { pullRequestUrl, branchName } of losers) {
+    try {
+      if (action === "close") {
+        await forge.closePullRequest({
+          pullRequestUrl,
+          comment: `Closed by o-agents: ${bestPrUrl} was selected instead.`,
+        });
+      } else if (action === "draft") {
+        await forge.markPullRequestAsDraft({ pullRequestUrl });
+      } else {
+        await forge.addPullRequestLabel({ pullRequestUrl, label: LOST_LABEL });
+      }
+      logger.info(`Applied "${action}" to losing PR ${pullRequestUrl}.`);
+      let branchDeleted: boolean | undefined;
+      if (options.deleteBranches && branchName) {
+        await deleteRemoteBranch(branchName);
+        logger.info(`Deleted remote branch ${branchName}.`);
+        branchDeleted = true;
+      }
+      outcomes.push({ pullRequestUrl, action, branchDeleted });
+    } catch (error) {
+      const message = getErrorMessage(error);
+      logger.error(`Failed to apply "${action}" to losing PR ${pullRequestUrl}: ${message}`);
+      outcomes.push({ pullRequestUrl, action, error: message });
+    }
+  }
+  return outcomes;
+}
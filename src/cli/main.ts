@@ -1,64 +1,99 @@
-import { existsSync, mkdirSync } from "node:fs";
-import { readFile } from "node:fs/promises";
-import { basename, dirname, join, resolve } from "node:path";
-import { fileURLToPath, pathToFileURL } from "node:url";
-import type { ZodTypeAny } from "zod";
+import { mkdirSync } from "node:fs";
+import { join } from "node:path";
 import { runNonInteractiveAgent, setAgentConcurrency } from "../agent/workflowRunner.ts";
-import { parseArgsWithConfig } from "./parseArgs.ts";
+import { parseArgsWithConfig, parseReportArgs, parseResumeArgs } from "./parseArgs.ts";
+import { printDryRunPlan } from "./dryRun.ts";
+import { startDashboard } from "./dashboard.ts";
 import {
-  fetchIssueOrPullRequestData,
-  getRepoInfo,
-  resolveTargetKind,
-  upsertComparisonComment,
-} from "../github/gh.ts";
+  buildWorkflowRuns,
+  loadWorkflow,
+  resolveWorkflowParams,
+  resolveWorkflowSpecs,
+  validateWorkflowParams,
+  type WorkflowRunPlan,
+} from "./workflowLoader.ts";
+import { getForge } from "../forge/forge.ts";
+import { publishReviewThreadResponses } from "../forge/reviewThreads.ts";
 import {
+  attachWorktree,
+  buildWorktreeBranchName,
+  buildWorktreePath,
   createWorktree,
   ensureCleanGit,
   ensureGitignoreHasOAgents,
   getCurrentBranch,
   getPullRequestUrlForBranch,
+  hasUncommittedChanges,
   O_AGENTS_LOGS_DIR,
   removeWorktree,
+  setGitHooksDisabled,
+  setPullRequestUrlForBranch,
 } from "../git/git.ts";
 import { logger } from "../utils/logger.ts";
 import { buildComparePullRequestsPrompt, comparePullRequestsSchema } from "../agent/prompt.ts";
-import type { AgentTool, IssueData, ParsedArgs, WorkKind, WorkflowSpec } from "../types.ts";
+import { loadPromptTemplates } from "../agent/promptTemplates.ts";
+import type {
+  AgentTool,
+  AgentUsage,
+  IssueData,
+  LoserAction,
+  ParsedArgs,
+  WorkKind,
+  WorktreeMetrics,
+} from "../types.ts";
+import { loadConfigFile } from "../config/oAgentsConfig.ts";
+import { dedupeTargets, type ResolvedTargetKind } from "./batchTargets.ts";
+import { collectWorktreeMetrics } from "./worktreeMetrics.ts";
+import { collectJudgeVotes, tallyJudgeVotes } from "./judgeVotes.ts";
+import { buildComparisonCommentBody, COMPARE_COMMENT_MARKER } from "./comparisonComment.ts";
+import { handleLosingPullRequests } from "./losingPullRequests.ts";
 import { getErrorMessage } from "../utils/error.ts";
 import { formatRunTimestamp } from "../utils/time.ts";
 import { runCommandWithOutput, setCommandConcurrency } from "../utils/run.ts";
 import { hasNodeRuntime } from "../utils/runtime.ts";
 import { buildAgentCommand } from "../agent/agentCommand.ts";
-
-type WorkflowFunction = (
-  context: {
-    tool: AgentTool;
-    issueData: IssueData;
-    baseBranch: string;
-    headBranch: string;
-    cwd: string;
-  },
-  params: unknown,
-) => Promise<number>;
-
-type WorkflowModule = {
-  run: WorkflowFunction;
-  paramsSchema?: ZodTypeAny;
-  workflowPath: string;
-};
-
-type WorkflowRunPlan = {
-  kind: "main" | "compare";
-  spec: WorkflowSpec;
-};
+import {
+  createRunManifest,
+  loadRunManifest,
+  runWithAgentCheckpoints,
+  type RunManifestStore,
+} from "../agent/runManifest.ts";
+import { type AgentCallRecord, runWithAgentCallLog } from "../agent/agentCalls.ts";
+import { addAgentUsage, formatAgentUsage } from "../agent/agentUsage.ts";
+import {
+  type ComparisonReport,
+  type RunReport,
+  type TargetReport,
+  writeRunReport,
+} from "../report/runReport.ts";
+import { writeHtmlReport } from "../report/htmlReport.ts";
+import { setAutoApprove, setDefaultApprover } from "../workflow/approval.ts";
+import { getTestExitCodeForBranch } from "../workflow/steps.ts";
+import { createCommentApprover } from "../workflow/commentApprover.ts";
 
 type WorkflowRunResult = {
   kind: "main" | "compare";
+  target?: string;
   tool: AgentTool;
   workflowPath: string;
   logPath: string;
   branchName?: string;
   pullRequestUrl?: string;
   worktreePath?: string;
+  startedAt: string;
+  durationMs: number;
+  exitCode: number;
+  error?: string;
+  agentCalls: AgentCallRecord[];
+  usage?: AgentUsage;
+};
+
+type TargetRunResult = {
+  target: string;
+  targetLabel?: string;
+  logPath?: string;
+  results: WorkflowRunResult[];
+  comparison?: ComparisonReport;
   exitCode: number;
   error?: string;
 };
@@ -70,97 +105,322 @@ export async function main(): Promise<void> {
   if (!hasNodeRuntime()) {
     throw new Error("Node.js is required to run agents via npx.");
   }
-  const args = parseArgsWithConfig(process.argv);
+  const resumeTimestamp = parseResumeArgs(process.argv);
   const cwd = process.cwd();
   const logsBaseDir = join(cwd, O_AGENTS_LOGS_DIR, "app");
-  const runTimestamp = formatRunTimestamp();
+  const reportTimestamp = parseReportArgs(process.argv);
+  if (reportTimestamp) {
+    await runReportCommand(join(logsBaseDir, reportTimestamp), cwd);
+    return;
+  }
+  const runTimestamp = resumeTimestamp ?? formatRunTimestamp();
   const logDir = join(logsBaseDir, runTimestamp);
+  const resumedManifest = resumeTimestamp ? loadRunManifest(logDir) : undefined;
+  const argv = resumedManifest?.data.argv ?? process.argv.slice(2);
+  const args = parseArgsWithConfig([...process.argv.slice(0, 2), ...argv]);
+  const config = loadConfigFile(cwd);
+  // Configured before anything is logged, so that argv in the run_started event is masked too.
+  // bwrap receives the sandbox's variables as arguments, which are logged with every spawn.
+  logger.configureRedaction({
+    ...config?.redaction,
+    env: [...(config?.redaction.env ?? []), ...(config?.sandbox?.env ?? [])],
+  });
+  if (args.dryRun) {
+    await runDryRun(args, cwd);
+    return;
+  }
+  const startedAt = new Date();
   mkdirSync(logDir, { recursive: true });
+  const dashboard =
+    args.uiPort === undefined ? undefined : await startDashboard({ port: args.uiPort });
+  if (dashboard) {
+    logger.info(`Dashboard: ${dashboard.url}`);
+  }
+  logger.eventsPath = join(logDir, "events.jsonl");
+  logger.event({ type: "run_started", runTimestamp, argv, resumed: Boolean(resumedManifest) });
+  const manifest = resumedManifest ?? createRunManifest(logDir, { runTimestamp, argv });
   ensureGitignoreHasOAgents(cwd);
   let overallExitCode = 0;
-  let logPath = "";
+  let runError: string | undefined;
+  let targetResults: TargetRunResult[] = [];
+  let agentVersions = new Map<AgentTool, string | undefined>();
 
   let results: WorkflowRunResult[] = [];
   const activeWorktrees = new Set<string>();
-  installSignalHandlers(() => cleanupWorktrees(results, Array.from(activeWorktrees)));
+  installSignalHandlers(async () => {
+    await cleanupWorktrees(results, Array.from(activeWorktrees));
+    logResumeHint(runTimestamp);
+  });
+  const isBatch = Boolean(args.targets || args.targetsQuery);
+  if (isBatch) {
+    logger.logPath = join(logDir, "run-batch.log");
+  }
   try {
     setAgentConcurrency(args.concurrency);
     setCommandConcurrency(args.commandConcurrency);
-    const { kind, number } = await resolveTargetKind(args.target);
-    const runLabel = `${kind}-${number}`;
-    logPath = join(logDir, `run-${runLabel}.log`);
-    logger.logPath = logPath;
+    setAutoApprove(args.autoApprove);
+    setGitHooksDisabled(Boolean(config?.sandbox));
+    if (config?.commentApproval) {
+      setDefaultApprover(createCommentApprover(config.commentApproval));
+    }
+    loadPromptTemplates(cwd);
+    if (resumedManifest) {
+      logger.info(`Resuming run ${runTimestamp} from ${manifest.path}`);
+    }
     await ensureCleanGit(cwd);
-
-    const rawIssueData = await fetchIssueOrPullRequestData(kind, number);
-    const repoInfo = await getRepoInfo();
-    const issueData = { ...rawIssueData, repo: repoInfo };
-
-    const baseBranch =
-      kind === "issue" ? await getCurrentBranch(cwd) : (rawIssueData.headRefName ?? "");
-    if (!baseBranch) {
-      throw new Error(`Failed to determine base branch for ${kind} ${number}.`);
+    const targetKinds = new Map<string, ResolvedTargetKind>();
+    const targets = manifest.data.targets ?? (await resolveTargets(args, targetKinds));
+    const branchTimestamp = manifest.data.branchTimestamp ?? formatRunTimestamp();
+    manifest.update({ targets, branchTimestamp });
+    if (isBatch) {
+      logger.info(`Batch targets (${targets.length}): ${targets.join(", ")}`);
     }
 
-    const { mainSpec, compareSpecs } = resolveWorkflowSpecs(args);
-    const workflowRuns = buildWorkflowRuns(mainSpec, compareSpecs);
-    const branchTimestamp = formatRunTimestamp();
-    const runPromises = workflowRuns.map((runPlan, index) => {
-      const runIndex = index + 1;
-      const workflowLogPath = createWorkflowLogPath(logDir, runLabel, runPlan.kind, runIndex);
-      const runPrefix = `[${runPlan.kind}-${runIndex}]`;
-      return logger.runWithContext(
-        { extraLogPaths: [workflowLogPath], mainPrefix: runPrefix },
-        async () =>
-          await executeWorkflowRun({
-            runPlan,
-            runIndex,
-            kind,
-            number,
-            baseBranch,
-            issueData,
-            branchTimestamp,
-            workflowLogPath,
-            initCommand: args.initCommand,
-            onWorktreeCreated: (worktreePath) => {
-              activeWorktrees.add(worktreePath);
-            },
-          }),
-      );
-    });
-
-    results = await Promise.all(runPromises);
-    for (const result of results) {
-      if (result.exitCode !== 0 && result.kind === "main") {
-        overallExitCode = 1;
-      }
-    }
+    // Agent and command pools are module-scoped, so running targets in parallel
+    // still honors --concurrency and --command-concurrency across all targets.
+    targetResults = await Promise.all(
+      targets.map((target) =>
+        executeTargetRun({
+          target,
+          resolvedKind: targetKinds.get(target),
+          args,
+          logDir,
+          branchTimestamp,
+          manifest,
+          isBatch,
+          onWorkflowRunsFinished: (targetRunResults) => {
+            results = [...results, ...targetRunResults];
+          },
+          onWorktreeCreated: (worktreePath) => {
+            activeWorktrees.add(worktreePath);
+          },
+        }),
+      ),
+    );
+    overallExitCode = targetResults.some((result) => result.exitCode !== 0) ? 1 : 0;
 
+    agentVersions = await resolveAgentVersions(results);
     if (results.length > 0) {
-      await comparePullRequestsIfNeeded({
-        issueData,
-        results,
-        mainTool: mainSpec.tool,
-      });
-      await printRunSummaryList(results);
-    } else {
-      logger.error("No workflow runs completed; nothing to compare or summarize.");
-      overallExitCode = 1;
+      printRunSummaryList(results, agentVersions);
+    }
+    if (isBatch) {
+      printBatchSummary(targetResults);
     }
   } catch (error) {
     const message = getErrorMessage(error);
     logger.error(`Error: ${message}`);
-    if (logPath) {
-      logger.error(`Log file: ${logPath}`);
+    if (logger.logPath) {
+      logger.error(`Log file: ${logger.logPath}`);
     }
     overallExitCode = 1;
+    runError = message;
   } finally {
     await cleanupWorktrees(results, Array.from(activeWorktrees));
+    logger.flushChunks();
   }
 
+  writeReport({
+    logDir,
+    reportPath: args.reportPath,
+    report: buildRunReport({
+      runTimestamp,
+      argv,
+      startedAt,
+      exitCode: overallExitCode,
+      error: runError,
+      targetResults,
+      agentVersions,
+    }),
+  });
+  logger.event({
+    type: "run_finished",
+    exitCode: overallExitCode,
+    durationMs: Date.now() - startedAt.getTime(),
+  });
+  if (overallExitCode !== 0) {
+    logResumeHint(runTimestamp);
+  }
+  await dashboard?.close();
   process.exit(overallExitCode);
 }
 
+async function runDryRun(args: ParsedArgs, cwd: string): Promise<void> {
+  let exitCode = 0;
+  try {
+    const targets = await resolveTargets(args);
+    await printDryRunPlan({ args, targets, cwd });
+  } catch (error) {
+    const message = getErrorMessage(error);
+    logger.error(`Error: ${message}`);
+    exitCode = 1;
+  }
+  process.exit(exitCode);
+}
+
+async function runReportCommand(logDir: string, cwd: string): Promise<void> {
+  let exitCode = 0;
+  try {
+    const path = await writeHtmlReport(logDir, cwd);
+    logger.info(`HTML report: ${path}`);
+  } catch (error) {
+    const message = getErrorMessage(error);
+    logger.error(`Error: ${message}`);
+    exitCode = 1;
+  }
+  process.exit(exitCode);
+}
+
+/** Stores the kinds resolved on the way in `targetKinds`, so that they are not resolved again. */
+async function resolveTargets(
+  args: ParsedArgs,
+  targetKinds = new Map<string, ResolvedTargetKind>(),
+): Promise<string[]> {
+  if (args.targetsQuery) {
+    const forge = await getForge();
+    const numbers = await forge.searchIssueNumbers(args.targetsQuery);
+    if (numbers.length === 0) {
+      throw new Error(`No issues matched --targets-query "${args.targetsQuery}".`);
+    }
+    return numbers.map(String);
+  }
+  const targets = args.targets ?? (args.target ? [args.target] : []);
+  return targets.length < 2 ? targets : await dedupeTargets(targets, await getForge(), targetKinds);
+}
+
+async function executeTargetRun(options: {
+  target: string;
+  /** Resolved while deduplicating the targets; resolved here otherwise. */
+  resolvedKind?: ResolvedTargetKind;
+  args: ParsedArgs;
+  logDir: string;
+  branchTimestamp: string;
+  manifest: RunManifestStore;
+  isBatch: boolean;
+  onWorkflowRunsFinished: (results: WorkflowRunResult[]) => void;
+  onWorktreeCreated: (worktreePath: string) => void;
+}): Promise<TargetRunResult> {
+  const { target, args, logDir, branchTimestamp, manifest, isBatch } = options;
+  let targetLabel: string | undefined;
+  let logPath: string | undefined;
+  try {
+    const recorded = manifest.getTarget(target);
+    const { kind, number } =
+      recorded ?? options.resolvedKind ?? (await (await getForge()).resolveTargetKind(target));
+    targetLabel = `${kind}-${number}`;
+    logPath = join(logDir, `run-${targetLabel}.log`);
+    const context = isBatch ? { logPath, mainPrefix: `[${targetLabel}]` } : {};
+    if (!isBatch) {
+      logger.logPath = logPath;
+    }
+    const label = targetLabel;
+    return await logger.runWithContext(context, async () => {
+      // Reuse the recorded issue data on resume so replayed prompts hash identically.
+      const issueData = recorded?.issueData ?? (await fetchIssueData(kind, number));
+      const baseBranch =
+        recorded?.baseBranch ??
+        (kind === "issue" ? await getCurrentBranch(process.cwd()) : (issueData.headBranch ?? ""));
+      if (!baseBranch) {
+        throw new Error(`Failed to determine base branch for ${kind} ${number}.`);
+      }
+      manifest.updateTarget(target, { kind, number, baseBranch, issueData });
+
+      const { mainSpec, compareSpecs } = resolveWorkflowSpecs(args);
+      const workflowRuns = buildWorkflowRuns(mainSpec, compareSpecs);
+      const runPromises = workflowRuns.map((runPlan, index) => {
+        const runIndex = index + 1;
+        const workflowLogPath = createWorkflowLogPath(logDir, label, runPlan.kind, runIndex);
+        const runPrefix = `[${runPlan.kind}-${runIndex}]`;
+        return logger.runWithContext(
+          { extraLogPaths: [workflowLogPath], mainPrefix: runPrefix },
+          async () =>
+            await executeWorkflowRun({
+              runPlan,
+              runIndex,
+              kind,
+              number,
+              baseBranch,
+              issueData,
+              branchTimestamp,
+              workflowLogPath,
+              initCommand: args.initCommand,
+              budgetUsd: args.budgetUsd,
+              manifest,
+              onWorktreeCreated: options.onWorktreeCreated,
+            }),
+        );
+      });
+
+      const results = (await Promise.all(runPromises)).map((result) => ({
+        ...result,
+        target: label,
+      }));
+      options.onWorkflowRunsFinished(results);
+      const failed = results.some((result) => result.exitCode !== 0 && result.kind === "main");
+
+      if (results.length === 0) {
+        logger.error("No workflow runs completed; nothing to compare or summarize.");
+        return { target, targetLabel: label, logPath, results, exitCode: 1 };
+      }
+      const comparison = await runWithAgentCheckpoints(
+        manifest.createCheckpointScope(`${label}/comparison`),
+        () =>
+          comparePullRequestsIfNeeded({
+            issueData,
+            baseBranch,
+            results,
+            judges: args.judges ?? [mainSpec.tool],
+            loserAction: args.loserAction,
+            deleteLoserBranches: args.deleteLoserBranches,
+          }),
+      );
+      await publishReviewThreadResponses({
+        selectedBranch: selectReviewThreadsBranch(results, comparison),
+        branches: results.flatMap((result) => (result.branchName ? [result.branchName] : [])),
+      });
+      return {
+        target,
+        targetLabel: label,
+        logPath,
+        results,
+        comparison,
+        exitCode: failed ? 1 : 0,
+      };
+    });
+  } catch (error) {
+    const message = getErrorMessage(error);
+    logger.error(`Error${targetLabel ? ` (${targetLabel})` : ` (target ${target})`}: ${message}`);
+    if (logPath) {
+      logger.error(`Log file: ${logPath}`);
+    }
+    return { target, targetLabel, logPath, results: [], exitCode: 1, error: message };
+  }
+}
+
+/**
+ * Picks the run whose replies are posted on the target's review threads: the winner of the
+ * comparison, otherwise the main run.
+ */
+function selectReviewThreadsBranch(
+  results: WorkflowRunResult[],
+  comparison: ComparisonReport,
+): string | undefined {
+  const winner = results.find(
+    (result) => result.pullRequestUrl && result.pullRequestUrl === comparison.bestPrUrl,
+  );
+  return (winner ?? results.find((result) => result.kind === "main"))?.branchName;
+}
+
+async function fetchIssueData(kind: WorkKind, number: number): Promise<IssueData> {
+  const forge = await getForge();
+  const rawIssueData = await forge.fetchIssueOrPullRequestData(kind, number);
+  const repoInfo = await forge.getRepoInfo();
+  return { ...rawIssueData, repo: repoInfo };
+}
+
+function logResumeHint(runTimestamp: string): void {
+  logger.error(`Resume this run with: o-agents resume ${runTimestamp}`);
+}
+
 function createWorkflowLogPath(
   logDir: string,
   runLabel: string,
@@ -170,16 +430,27 @@ function createWorkflowLogPath(
   return join(logDir, `workflow-${runLabel}-${runKind}-${runIndex}.log`);
 }
 
+/**
+ * Removes the worktrees of the run. Worktrees of failed or interrupted workflow runs are kept
+ * when they hold uncommitted changes, since `resume` replays the steps that made them as
+ * completed and re-attaches the worktree instead.
+ */
 async function cleanupWorktrees(
   results: WorkflowRunResult[],
   extraWorktreePaths: string[] = [],
 ): Promise<void> {
-  const paths = new Set([
-    ...results.flatMap((result) => (result.worktreePath ? [result.worktreePath] : [])),
-    ...extraWorktreePaths,
-  ]);
+  const exitCodes = new Map(
+    results.flatMap((result) =>
+      result.worktreePath ? [[result.worktreePath, result.exitCode] as const] : [],
+    ),
+  );
+  const paths = new Set([...exitCodes.keys(), ...extraWorktreePaths]);
   for (const path of paths) {
     try {
+      if (exitCodes.get(path) !== 0 && (await hasUncommittedChanges(path))) {
+        logger.error(`Kept worktree with uncommitted changes: ${path}`);
+        continue;
+      }
       await removeWorktree(path);
     } catch (error) {
       const message = getErrorMessage(error);
@@ -221,6 +492,8 @@ async function executeWorkflowRun(options: {
   branchTimestamp: string;
   workflowLogPath: string;
   initCommand: string;
+  budgetUsd?: number;
+  manifest: RunManifestStore;
   onWorktreeCreated?: (worktreePath: string) => void;
 }): Promise<WorkflowRunResult> {
   const {
@@ -233,29 +506,50 @@ async function executeWorkflowRun(options: {
     branchTimestamp,
     workflowLogPath,
     initCommand,
+    budgetUsd,
+    manifest,
     onWorktreeCreated,
   } = options;
   const cwd = process.cwd();
   const runLabel = `${runPlan.kind}-${runIndex}`;
+  const manifestKey = `${kind}-${number}/${runLabel}`;
   let worktreePath: string | undefined;
   let createdBranch: string | undefined;
   let exitCode = 0;
   let errorMessage: string | undefined;
   let workflowPath = "";
+  const agentCalls: AgentCallRecord[] = [];
+  const startedAt = new Date();
+  logger.event({
+    type: "workflow_started",
+    target: `${kind}-${number}`,
+    tool: runPlan.spec.tool,
+    workflow: runPlan.spec.workflow,
+  });
 
   try {
-    const plannedWorktreePath = join(
-      dirname(cwd),
-      `${basename(cwd)}-o-agents-${formatRunTimestamp()}-${runIndex}`,
-    );
-    const { branchName, worktreePath: createdWorktreePath } = await createWorktree(
-      `o-agents/${kind}-${number}-${branchTimestamp}-${runIndex}`,
-      baseBranch,
-      plannedWorktreePath,
-    );
+    const plannedWorktreePath = buildWorktreePath(cwd, kind, number, runIndex);
+    const recordedBranch = manifest.getRun(manifestKey)?.branchName;
+    const { branchName, worktreePath: createdWorktreePath } = recordedBranch
+      ? await attachWorktree(recordedBranch, plannedWorktreePath)
+      : await createWorktree(
+          buildWorktreeBranchName(kind, number, branchTimestamp, runIndex),
+          baseBranch,
+          plannedWorktreePath,
+        );
     worktreePath = createdWorktreePath;
     onWorktreeCreated?.(createdWorktreePath);
+    logger.event({
+      type: "worktree_created",
+      branchName,
+      worktreePath: createdWorktreePath,
+      baseBranch,
+    });
     createdBranch = branchName;
+    manifest.updateRun(manifestKey, { branchName, worktreePath: createdWorktreePath });
+    if (recordedBranch) {
+      await restorePullRequestUrl(branchName, manifest.getRun(manifestKey)?.pullRequestUrl);
+    }
     await runInitializationCommand(initCommand, createdWorktreePath);
 
     const workflow = await loadWorkflow(runPlan.spec.workflow);
@@ -263,15 +557,22 @@ async function executeWorkflowRun(options: {
     const rawParams = await resolveWorkflowParams(runPlan.spec.params);
     const params = validateWorkflowParams(rawParams, workflow.paramsSchema);
 
-    exitCode = await workflow.run(
-      {
-        tool: runPlan.spec.tool,
-        issueData,
-        baseBranch,
-        headBranch: branchName,
-        cwd: worktreePath,
-      },
-      params,
+    exitCode = await runWithAgentCallLog(
+      agentCalls,
+      () =>
+        runWithAgentCheckpoints(manifest.createCheckpointScope(manifestKey), () =>
+          workflow.run(
+            {
+              tool: runPlan.spec.tool,
+              issueData,
+              baseBranch,
+              headBranch: branchName,
+              cwd: createdWorktreePath,
+            },
+            params,
+          ),
+        ),
+      { budgetUsd },
     );
   } catch (error) {
     const message = getErrorMessage(error);
@@ -280,6 +581,9 @@ async function executeWorkflowRun(options: {
     errorMessage = message;
   }
   const pullRequestUrl = createdBranch ? getPullRequestUrlForBranch(createdBranch) : undefined;
+  manifest.updateRun(manifestKey, { pullRequestUrl, exitCode });
+  const durationMs = Date.now() - startedAt.getTime();
+  logger.event({ type: "workflow_finished", exitCode, durationMs, pullRequestUrl });
   return {
     kind: runPlan.kind,
     tool: runPlan.spec.tool,
@@ -288,11 +592,37 @@ async function executeWorkflowRun(options: {
     branchName: createdBranch,
     pullRequestUrl,
     worktreePath,
+    startedAt: startedAt.toISOString(),
+    durationMs,
     exitCode,
     error: errorMessage,
+    agentCalls,
+    usage: sumAgentCallUsage(agentCalls),
   };
 }
 
+function sumAgentCallUsage(calls: AgentCallRecord[]): AgentUsage | undefined {
+  return calls.reduce<AgentUsage | undefined>(
+    (total, call) => addAgentUsage(total, call.usage),
+    undefined,
+  );
+}
+
+/**
+ * A resumed run may replay the workflow step that opened the PR, so the existing
+ * PR must be known up front to keep `createPullRequest` from opening a duplicate.
+ */
+async function restorePullRequestUrl(
+  branchName: string,
+  recordedUrl: string | undefined,
+): Promise<void> {
+  const pullRequestUrl =
+    recordedUrl ?? (await (await getForge()).findOpenPullRequestUrl(branchName));
+  if (!pullRequestUrl) return;
+  setPullRequestUrlForBranch(branchName, pullRequestUrl);
+  logger.info(`Reusing existing PR for ${branchName}: ${pullRequestUrl}`);
+}
+
 async function runInitializationCommand(initCommand: string, cwd: string): Promise<void> {
   const trimmed = initCommand.trim();
   if (!trimmed) return;
@@ -391,52 +721,112 @@ function shouldSerializeInitCommand(command: string, args: string[]): boolean {
   return false;
 }
 
-const COMPARE_COMMENT_MARKER = "<!-- o-agents:compare-result -->";
+const PANEL_JUDGE_NOTE = `
+Note: You are one of several judges voting independently on the pull requests below.
+Do not modify, commit, or push anything; only return your pick and the reason for it.`.trim();
 
 async function comparePullRequestsIfNeeded(options: {
   issueData: IssueData;
+  baseBranch: string;
   results: WorkflowRunResult[];
-  mainTool: AgentTool;
-}): Promise<void> {
-  const { issueData, results, mainTool } = options;
-  const pullRequestEntries = results.flatMap((result) =>
+  judges: AgentTool[];
+  loserAction?: LoserAction;
+  deleteLoserBranches: boolean;
+}): Promise<ComparisonReport> {
+  const { issueData, baseBranch, results, judges, loserAction } = options;
+  const comparedRuns = results.flatMap((result) =>
     result.pullRequestUrl && result.worktreePath
-      ? [{ url: result.pullRequestUrl, worktreePath: result.worktreePath }]
+      ? [
+          {
+            url: result.pullRequestUrl,
+            worktreePath: result.worktreePath,
+            branchName: result.branchName,
+          },
+        ]
       : [],
   );
-  if (pullRequestEntries.length < 2) {
+  if (comparedRuns.length < 2) {
     logger.info("Comparison skipped: fewer than two PR references were created.");
-    return;
+    return { status: "skipped" };
   }
 
   try {
-    const comparison = await runNonInteractiveAgent({
-      tool: mainTool,
-      prompt: buildComparePullRequestsPrompt({
-        issueData,
-        pullRequestEntries,
+    const metricCommands = loadConfigFile()?.metrics ?? {};
+    const pullRequestEntries = await Promise.all(
+      comparedRuns.map(async ({ url, worktreePath, branchName }) => ({
+        url,
+        worktreePath,
+        metrics: await collectMetricsSafely({
+          worktreePath,
+          baseBranch,
+          commands: metricCommands,
+          testExitCode: branchName ? getTestExitCodeForBranch(branchName) : undefined,
+        }),
+      })),
+    );
+    const prompt = buildComparePullRequestsPrompt({ issueData, pullRequestEntries });
+    const votes = await collectJudgeVotes(judges, (judge) =>
+      runNonInteractiveAgent({
+        tool: judge,
+        // Judges run in parallel, so only a sole judge may integrate improvements into the winner.
+        prompt: judges.length > 1 ? `${PANEL_JUDGE_NOTE}\n\n${prompt}` : prompt,
+        cwd: process.cwd(),
+        schema: comparePullRequestsSchema,
       }),
-      cwd: process.cwd(),
-      schema: comparePullRequestsSchema,
-    });
+    );
+    const comparison = tallyJudgeVotes(
+      votes,
+      pullRequestEntries.map((entry) => entry.url),
+    );
     logger.info(`Best PR: ${comparison.bestPrUrl}`);
     logger.info(`Selection reason: ${comparison.reason}`);
+    logger.event({
+      type: "comparison_done",
+      bestPrUrl: comparison.bestPrUrl,
+      reason: comparison.reason,
+      candidates: pullRequestEntries.map((entry) => entry.url),
+    });
+    const outcome: ComparisonReport = {
+      status: "completed",
+      bestPrUrl: comparison.bestPrUrl,
+      reason: comparison.reason,
+      votes,
+      metrics: pullRequestEntries.flatMap(({ url, metrics }) =>
+        metrics ? [{ pullRequestUrl: url, ...metrics }] : [],
+      ),
+    };
+    if (loserAction) {
+      outcome.losers = await handleLosingPullRequests({
+        bestPrUrl: comparison.bestPrUrl,
+        pullRequests: comparedRuns.map((run) => ({
+          pullRequestUrl: run.url,
+          branchName: run.branchName,
+        })),
+        action: loserAction,
+        deleteBranches: options.deleteLoserBranches,
+      });
+    }
 
-    const repoName = issueData.repo?.nameWithOwner;
+    const repoName = issueData.repo?.fullName;
     const issueNumber = issueData.number;
     if (!repoName || !issueNumber) {
       logger.error("Comparison comment skipped: missing repository info or issue number.");
-      return;
+      return outcome;
     }
 
     const body = buildComparisonCommentBody({
       bestPrUrl: comparison.bestPrUrl,
       reason: comparison.reason,
+      votes,
       results,
+      metricsByUrl: new Map(pullRequestEntries.map(({ url, metrics }) => [url, metrics])),
+      metricNames: Object.keys(metricCommands),
     });
     try {
-      const result = await upsertComparisonComment({
+      const forge = await getForge();
+      const result = await forge.upsertComment({
         repo: repoName,
+        kind: issueData.kind ?? "issue",
         targetNumber: issueNumber,
         body,
         marker: COMPARE_COMMENT_MARKER,
@@ -444,6 +834,7 @@ async function comparePullRequestsIfNeeded(options: {
       const actionLabel = result.action === "updated" ? "Updated" : "Created";
       const location = result.htmlUrl ? ` at ${result.htmlUrl}` : ".";
       logger.info(`${actionLabel} comparison comment${location}`);
+      outcome.commentUrl = result.htmlUrl;
     } catch (error) {
       const message = getErrorMessage(error);
       logger.error(`Failed to post comparison comment: ${message}`);
@@ -451,138 +842,135 @@ async function comparePullRequestsIfNeeded(options: {
         logger.error("Verify gh CLI authentication (gh auth login) and token permissions.");
       }
     }
+    return outcome;
   } catch (error) {
     const message = getErrorMessage(error);
     logger.error(`Failed to compare pull requests: ${message}`);
+    return { status: "failed", error: message };
   }
 }
 
-function buildComparisonCommentBody(options: {
-  bestPrUrl?: string;
-  reason?: string;
-  results: WorkflowRunResult[];
-}): string {
-  const winner = (options.bestPrUrl ?? "").trim();
-  let winnerText = "No acceptable PR selected";
-  if (winner && winner !== "N/A") {
-    const agent = options.results.find(
-      (result) => (result.pullRequestUrl ?? "").trim() === winner,
-    )?.tool;
-    winnerText = agent ? `${winner} (agent: ${agent})` : winner;
+async function collectMetricsSafely(
+  options: Parameters<typeof collectWorktreeMetrics>[0],
+): Promise<WorktreeMetrics | undefined> {
+  try {
+    return await collectWorktreeMetrics(options);
+  } catch (error) {
+    logger.error(`Failed to collect metrics in ${options.worktreePath}: ${getErrorMessage(error)}`);
+    return undefined;
   }
-  const reasoning = (options.reason ?? "").trim() || "No reasoning provided.";
-  return `${COMPARE_COMMENT_MARKER}
-## O-Agents Comparison Result
-🏆 Winner: ${winnerText}
-🤔 Reasoning:
-${reasoning}`;
-}
-
-function resolveWorkflowSpecs(args: ParsedArgs): {
-  mainSpec: WorkflowSpec;
-  compareSpecs: WorkflowSpec[];
-} {
-  return {
-    mainSpec: args.main,
-    compareSpecs: args.compare ?? [],
-  };
-}
-
-function buildWorkflowRuns(
-  mainSpec: WorkflowSpec,
-  compareSpecs: WorkflowSpec[],
-): WorkflowRunPlan[] {
-  const compareRuns = compareSpecs.map(
-    (spec): WorkflowRunPlan => ({
-      kind: "compare",
-      spec,
-    }),
-  );
-  return [{ kind: "main", spec: mainSpec }, ...compareRuns];
 }
 
-async function loadWorkflow(workflowPath?: string): Promise<WorkflowModule> {
-  const defaultWorkflow = "o-agents/workflowNoTest.ts";
-  const requestedPath = workflowPath ?? defaultWorkflow;
-  let resolvedPath = resolve(requestedPath);
-  if (!existsSync(resolvedPath) && requestedPath === defaultWorkflow) {
-    const packageRoot = fileURLToPath(new URL("../..", import.meta.url));
-    const packagedWorkflow = resolve(packageRoot, defaultWorkflow);
-    if (existsSync(packagedWorkflow)) {
-      resolvedPath = packagedWorkflow;
+function printRunSummaryList(
+  results: WorkflowRunResult[],
+  agentVersions: Map<AgentTool, string | undefined>,
+): void {
+  logger.info("Run summary:");
+  for (const [index, result] of results.entries()) {
+    const version = agentVersions.get(result.tool);
+    logger.info(`  ${index + 1}. agent=${result.tool}`);
+    if (result.target) {
+      logger.info(`     target=${result.target}`);
+    }
+    logger.info(`     workflow=${result.workflowPath || "N/A"}`);
+    logger.info(`     log=${result.logPath}`);
+    logger.info(`     version=${version ?? "unknown"}`);
+    logger.info(`     branch=${result.branchName ?? "N/A"}`);
+    logger.info(`     pr=${result.pullRequestUrl ?? "N/A"}`);
+    logger.info(`     exit=${result.exitCode}`);
+    logger.info(`     ${formatAgentUsage(result.usage)}`);
+    const fallbacks = formatFallbackCalls(result.agentCalls);
+    if (fallbacks) {
+      logger.info(`     fallbacks=${fallbacks}`);
+    }
+    if (result.error) {
+      logger.info(`     error=${result.error}`);
     }
   }
-  if (!existsSync(resolvedPath)) {
-    throw new Error(`Workflow file not found at ${resolvedPath}`);
-  }
-  const workflowUrl = pathToFileURL(resolvedPath).href;
-  const module = await import(workflowUrl);
-  if (typeof module.default !== "function") {
-    throw new Error(`Workflow file must export a default function: ${workflowUrl}`);
-  }
-  if (module.paramsSchema && typeof module.paramsSchema.parse !== "function") {
-    throw new Error(`Workflow paramsSchema must be a Zod schema: ${workflowUrl}`);
+  if (results.length > 1) {
+    const total = results.reduce<AgentUsage | undefined>(
+      (sum, result) => addAgentUsage(sum, result.usage),
+      undefined,
+    );
+    logger.info(`Total: ${formatAgentUsage(total)}`);
   }
-  return {
-    run: module.default as WorkflowFunction,
-    paramsSchema: module.paramsSchema as ZodTypeAny | undefined,
-    workflowPath: resolvedPath,
-  };
 }
 
-async function resolveWorkflowParams(paramArg: string | undefined): Promise<unknown> {
-  if (!paramArg) return undefined;
-  const trimmed = paramArg.trim();
-  if (!trimmed) return undefined;
+function formatFallbackCalls(calls: AgentCallRecord[]): string | undefined {
+  const fallbacks = calls.flatMap((call) =>
+    call.tool && call.tool !== call.requestedTool ? [`${call.requestedTool}->${call.tool}`] : [],
+  );
+  return fallbacks.length > 0 ? fallbacks.join(", ") : undefined;
+}
 
-  const resolvedPath = resolve(trimmed);
-  if (existsSync(resolvedPath)) {
-    let contents = "";
-    try {
-      contents = await readFile(resolvedPath, "utf8");
-    } catch (error) {
-      const message = getErrorMessage(error);
-      throw new Error(`Failed to read params file at ${resolvedPath}: ${message}`);
-    }
-    try {
-      return JSON.parse(contents);
-    } catch (error) {
-      const message = getErrorMessage(error);
-      throw new Error(`Failed to parse JSON file at ${resolvedPath}: ${message}`);
+function printBatchSummary(targetResults: TargetRunResult[]): void {
+  const succeeded = targetResults.filter((result) => result.exitCode === 0).length;
+  logger.info(`Batch summary: ${succeeded}/${targetResults.length} targets succeeded`);
+  for (const result of targetResults) {
+    const pullRequestUrls = result.results.flatMap((run) =>
+      run.pullRequestUrl ? [run.pullRequestUrl] : [],
+    );
+    logger.info(`  ${result.targetLabel ?? result.target}: exit=${result.exitCode}`);
+    logger.info(`     prs=${pullRequestUrls.join(", ") || "N/A"}`);
+    logger.info(`     log=${result.logPath ?? "N/A"}`);
+    if (result.error) {
+      logger.info(`     error=${result.error}`);
     }
   }
+}
 
+function writeReport(options: { logDir: string; reportPath?: string; report: RunReport }): void {
   try {
-    return JSON.parse(trimmed);
+    const paths = writeRunReport(options.logDir, options.report, options.reportPath);
+    logger.info(`Run report: ${paths.join(", ")}`);
   } catch (error) {
     const message = getErrorMessage(error);
-    throw new Error(
-      `Failed to parse workflow params as JSON. Provide a valid JSON string or path to a JSON file. ${message}`,
-    );
+    logger.error(`Failed to write run report: ${message}`);
   }
 }
 
-function validateWorkflowParams(rawParams: unknown, paramsSchema?: ZodTypeAny): unknown {
-  if (!paramsSchema) return rawParams;
-  return paramsSchema.parse(rawParams ?? {});
+function buildRunReport(options: {
+  runTimestamp: string;
+  argv: string[];
+  startedAt: Date;
+  exitCode: number;
+  error?: string;
+  targetResults: TargetRunResult[];
+  agentVersions: Map<AgentTool, string | undefined>;
+}): RunReport {
+  const finishedAt = new Date();
+  return {
+    version: 1,
+    runTimestamp: options.runTimestamp,
+    argv: options.argv,
+    startedAt: options.startedAt.toISOString(),
+    finishedAt: finishedAt.toISOString(),
+    durationMs: finishedAt.getTime() - options.startedAt.getTime(),
+    exitCode: options.exitCode,
+    error: options.error,
+    targets: options.targetResults.map(
+      (targetResult): TargetReport => ({
+        target: targetResult.target,
+        targetLabel: targetResult.targetLabel,
+        logPath: targetResult.logPath,
+        exitCode: targetResult.exitCode,
+        error: targetResult.error,
+        comparison: targetResult.comparison,
+        runs: targetResult.results.map(({ target: _target, ...result }) => ({
+          ...result,
+          agentVersion: options.agentVersions.get(result.tool),
+        })),
+      }),
+    ),
+  };
 }
 
-async function printRunSummaryList(results: WorkflowRunResult[]): Promise<void> {
-  logger.info("Run summary:");
-  const versions = await Promise.all(results.map((result) => resolveAgentVersion(result.tool)));
-  for (const [index, result] of results.entries()) {
-    const version = versions[index];
-    logger.info(`  ${index + 1}. agent=${result.tool}`);
-    logger.info(`     workflow=${result.workflowPath || "N/A"}`);
-    logger.info(`     log=${result.logPath}`);
-    logger.info(`     version=${version ?? "unknown"}`);
-    logger.info(`     branch=${result.branchName ?? "N/A"}`);
-    logger.info(`     pr=${result.pullRequestUrl ?? "N/A"}`);
-    logger.info(`     exit=${result.exitCode}`);
-    if (result.error) {
-      logger.info(`     error=${result.error}`);
-    }
-  }
+async function resolveAgentVersions(
+  results: WorkflowRunResult[],
+): Promise<Map<AgentTool, string | undefined>> {
+  const tools = Array.from(new Set(results.map((result) => result.tool)));
+  const versions = await Promise.all(tools.map((tool) => resolveAgentVersion(tool)));
+  return new Map(tools.map((tool, index) => [tool, versions[index]]));
 }
 
 async function resolveAgentVersion(tool: AgentTool): Promise<string | undefined> {
@@ -1,10 +1,11 @@
 import { Command } from "commander";
 
-import type { ParsedArgs, WorkflowSpec } from "../types.ts";
+import type { LoserAction, ParsedArgs, WorkflowSpec } from "../types.ts";
 import { getConfigArgs, getConfigNames, loadConfigFile } from "../config/oAgentsConfig.ts";
 import {
   createAgentRegistry,
   getAgentChoices,
+  getAgentFallbackChain,
   isAgentNameOrAlias,
   resolveAgentNameOrAlias,
   type AgentRegistry,
@@ -12,6 +13,7 @@ import {
 
 const DEFAULT_MAIN_WORKFLOW = "o-agents/workflowNoTest.ts";
 const DEFAULT_INIT_COMMAND = "npx --yes @antfu/ni@latest";
+const LOSER_ACTIONS = ["close", "draft", "label"] as const satisfies readonly LoserAction[];
 
 const USAGE = `o-agents
 
@@ -20,6 +22,11 @@ Usage:
   o-agents <config-name> --target <issue/PR> --main <agent>  # override config
   o-agents --target <issue/PR> --main <agent> [workflow] [params]
   o-agents --target <issue/PR> --main <agent> [workflow] [params] --compare <agent> [workflow] [params]
+  o-agents --targets 12,15,19 --main <agent> [workflow] [params]
+  o-agents --targets-query "label:agent-ready state:open" --main <agent> [workflow] [params]
+  o-agents <config-name> --target <issue/PR> --ui [port]  # watch the runs in a browser
+  o-agents resume <runTimestamp>  # continue an interrupted run from its manifest
+  o-agents report <runTimestamp>  # render a finished run as a self-contained HTML file
 
 Config file (o-agents/config.toml):
   [config.simple]
@@ -42,6 +49,11 @@ export function parseArgs(
   program
     .name("o-agents")
     .option("--target <value>", "Target issue/PR number or URL")
+    .option("--targets <values>", "Comma-separated issue/PR numbers or URLs (batch mode)")
+    .option(
+      "--targets-query <query>",
+      "Run for every issue matching a GitHub search query (batch mode)",
+    )
     .option("--main <values...>", "Main workflow spec: <agent> [workflow] [params]")
     .option(
       "--concurrency <n>",
@@ -60,6 +72,21 @@ export function parseArgs(
       DEFAULT_INIT_COMMAND,
     )
     .option("--compare <values...>", "Comparison workflow spec(s): <agent> [workflow] [params]")
+    .option(
+      "--judges <agents>",
+      "Comma-separated agents that vote on the best PR (defaults to the main agent)",
+    )
+    .option("--losers <action>", "Handle PRs that lose a comparison: close, draft, or label")
+    .option("--delete-loser-branches", "Delete the remote branches of closed losing PRs")
+    .option("--dry-run", "Print the execution plan without creating worktrees or launching agents")
+    .option("--report <path>", "Also write the JSON run report to this path")
+    .option(
+      "--budget <usd>",
+      "Abort a workflow once the cost reported by its agents exceeds this many USD (built in for claude-code; other agents need a costUsd usage pattern)",
+      parseBudget,
+    )
+    .option("--ui [port]", "Serve a live dashboard of the workflow runs on localhost")
+    .option("--yes", "Accept results at workflow approval steps without asking (unattended runs)")
     .showHelpAfterError()
     .allowExcessArguments(false)
     .addHelpText("before", `${USAGE}\n`);
@@ -68,15 +95,38 @@ export function parseArgs(
 
   const options = program.opts<{
     target?: string;
+    targets?: string;
+    targetsQuery?: string;
     main?: string[];
     compare?: string[];
+    judges?: string;
+    losers?: string;
+    deleteLoserBranches?: boolean;
     concurrency: number;
     commandConcurrency?: number;
     init: string;
+    dryRun?: boolean;
+    report?: string;
+    budget?: number;
+    ui?: string | true;
+    yes?: boolean;
   }>();
   const target = normalizeTargetValue(options.target);
-  if (!target) {
-    throw new Error("Provide --target with an issue/PR number or URL.");
+  const targets = options.targets === undefined ? undefined : parseTargetList(options.targets);
+  const targetsQuery = normalizeTargetValue(options.targetsQuery);
+  const targetOptionCount = [target, targets, targetsQuery].filter(
+    (value) => value !== undefined,
+  ).length;
+  if (targetOptionCount === 0) {
+    throw new Error(
+      "Provide --target with an issue/PR number or URL. Use --targets or --targets-query for batch runs.",
+    );
+  }
+  if (targetOptionCount > 1) {
+    throw new Error("Use only one of --target, --targets, or --targets-query.");
+  }
+  if (targets?.length === 0) {
+    throw new Error("--targets must list at least one issue/PR number or URL.");
   }
   if (!options.main || options.main.length === 0) {
     throw new Error("Provide --main to run a workflow");
@@ -96,10 +146,19 @@ export function parseArgs(
   ) {
     throw new Error("--command-concurrency must be a positive integer.");
   }
+  if (options.budget !== undefined && (!Number.isFinite(options.budget) || options.budget <= 0)) {
+    throw new Error("--budget must be a positive number of USD.");
+  }
+  const uiPort = options.ui === undefined ? undefined : parseUiPort(options.ui);
   const mainSpec = parseWorkflowSpec(options.main, registry, {
     defaultWorkflow: DEFAULT_MAIN_WORKFLOW,
     defaultParams: undefined,
   });
+  const judges = options.judges === undefined ? undefined : parseJudges(options.judges, registry);
+  const loserAction = options.losers === undefined ? undefined : parseLoserAction(options.losers);
+  if (options.deleteLoserBranches && loserAction !== "close") {
+    throw new Error("--delete-loser-branches requires --losers close.");
+  }
   const compareSpecs = splitCompareValues(options.compare ?? [], registry);
   const compare = compareSpecs.map((spec) =>
     parseWorkflowSpec(spec, registry, {
@@ -108,20 +167,62 @@ export function parseArgs(
     }),
   );
 
+  if (options.budget !== undefined) {
+    assertAgentsReportCost(registry, [mainSpec.tool, ...compare.map((spec) => spec.tool)]);
+  }
+
   return {
     target,
+    targets,
+    targetsQuery,
     main: mainSpec,
     compare,
+    judges,
+    loserAction,
+    deleteLoserBranches: options.deleteLoserBranches ?? false,
     concurrency: options.concurrency,
     commandConcurrency: options.commandConcurrency,
     initCommand: options.init,
+    dryRun: options.dryRun ?? false,
+    reportPath: options.report,
+    budgetUsd: options.budget,
+    autoApprove: options.yes ?? false,
+    uiPort,
   };
 }
 
+/**
+ * `--budget` is enforced with the cost agents report, so it would silently never trigger
+ * for a run whose agents, including their fallbacks, do not report one.
+ */
+function assertAgentsReportCost(registry: AgentRegistry, tools: string[]): void {
+  const agentNames = new Set(tools.flatMap((tool) => getAgentFallbackChain(registry, tool)));
+  const withoutCost = [...agentNames].filter((name) => !registry.agents.get(name)?.reportsCost);
+  if (withoutCost.length > 0) {
+    throw new Error(
+      `--budget requires agents that report their cost, but ${withoutCost.join(", ")} do not. ` +
+        "Add a costUsd entry to their usagePatterns in o-agents/config.toml.",
+    );
+  }
+}
+
 function parseConcurrency(value: string): number {
   return Number(value);
 }
 
+function parseBudget(value: string): number {
+  return Number(value.trim().replace(/^\$/, ""));
+}
+
+function parseUiPort(value: string | true): number {
+  if (value === true) return 0;
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error("--ui port must be an integer between 0 and 65535.");
+  }
+  return port;
+}
+
 function parseWorkflowSpec(
   parts: string[],
   registry: AgentRegistry,
@@ -187,12 +288,80 @@ function splitCompareValues(values: string[], registry: AgentRegistry): string[]
   return specs;
 }
 
+function parseLoserAction(value: string): LoserAction {
+  const action = value.trim();
+  if (!isLoserAction(action)) {
+    throw new Error(`--losers must be one of: ${LOSER_ACTIONS.join(", ")}.`);
+  }
+  return action;
+}
+
+function isLoserAction(value: string): value is LoserAction {
+  return (LOSER_ACTIONS as readonly string[]).includes(value);
+}
+
+function parseJudges(value: string, registry: AgentRegistry): string[] {
+  const judges = parseTargetList(value).map((entry) => {
+    const tool = resolveAgentTool(entry, registry);
+    if (!tool) {
+      throw new Error(
+        `Unknown judge "${entry}". Expected one of: ${getAgentChoices(registry).join(", ")}.`,
+      );
+    }
+    return tool;
+  });
+  if (judges.length === 0) {
+    throw new Error("--judges must list at least one agent.");
+  }
+  return Array.from(new Set(judges));
+}
+
+function parseTargetList(value: string): string[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
 function normalizeTargetValue(value: string | undefined): string | undefined {
   if (!value) return undefined;
   const normalized = value.trim();
   return normalized || undefined;
 }
 
+/**
+ * Returns the run timestamp when argv is `o-agents resume <runTimestamp>`.
+ * The original argv is stored in the run manifest, so no other options are accepted.
+ */
+export function parseResumeArgs(argv: string[]): string | undefined {
+  return parseRunTimestampCommand(argv, "resume", "Provide the run timestamp to resume");
+}
+
+/** Returns the run timestamp when argv is `o-agents report <runTimestamp>`. */
+export function parseReportArgs(argv: string[]): string | undefined {
+  return parseRunTimestampCommand(argv, "report", "Provide the run timestamp to report on");
+}
+
+function parseRunTimestampCommand(
+  argv: string[],
+  name: string,
+  missingMessage: string,
+): string | undefined {
+  const [command, runTimestamp, ...rest] = argv.slice(2);
+  if (command !== name) return undefined;
+  if (!runTimestamp || runTimestamp.startsWith("-")) {
+    throw new Error(`${missingMessage}: o-agents ${name} <runTimestamp>`);
+  }
+  if (rest.length > 0) {
+    throw new Error(`Unexpected arguments after ${name}: ${rest.join(" ")}`);
+  }
+  // The timestamp names a directory under the logs directory and must not point outside of it.
+  if (/[/\\]/.test(runTimestamp) || runTimestamp.includes("..")) {
+    throw new Error(`Invalid run timestamp "${runTimestamp}".`);
+  }
+  return runTimestamp;
+}
+
 type ConfigInfo = {
   configName?: string;
   remainingArgv: string[];
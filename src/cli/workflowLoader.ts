@@ -0,0 +1,139 @@
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import type { ZodTypeAny } from "zod";
+
+import type { ParsedArgs, WorkflowSpec } from "../types.ts";
+import { getErrorMessage } from "../utils/error.ts";
+import type { WorkflowFunction } from "../workflow/workflowModule.ts";
+
+type LoadedWorkflow = {
+  run: WorkflowFunction;
+  paramsSchema?: ZodTypeAny;
+  workflowPath: string;
+};
+
+export type WorkflowRunPlan = {
+  kind: "main" | "compare";
+  spec: WorkflowSpec;
+};
+
+export function resolveWorkflowSpecs(args: ParsedArgs): {
+  mainSpec: WorkflowSpec;
+  compareSpecs: WorkflowSpec[];
+} {
+  return {
+    mainSpec: args.main,
+    compareSpecs: args.compare ?? [],
+  };
+}
+
+export function buildWorkflowRuns(
+  mainSpec: WorkflowSpec,
+  compareSpecs: WorkflowSpec[],
+): WorkflowRunPlan[] {
+  const compareRuns = compareSpecs.map(
+    (spec): WorkflowRunPlan => ({
+      kind: "compare",
+      spec,
+    }),
+  );
+  return [{ kind: "main", spec: mainSpec }, ...compareRuns];
+}
+
+export async function loadWorkflow(workflowPath?: string): Promise<LoadedWorkflow> {
+  const defaultWorkflow = "o-agents/workflowNoTest.ts";
+  const requestedPath = workflowPath ?? defaultWorkflow;
+  let resolvedPath = resolve(requestedPath);
+  if (!existsSync(resolvedPath) && requestedPath === defaultWorkflow) {
+    const packageRoot = fileURLToPath(new URL("../..", import.meta.url));
+    const packagedWorkflow = resolve(packageRoot, defaultWorkflow);
+    if (existsSync(packagedWorkflow)) {
+      resolvedPath = packagedWorkflow;
+    }
+  }
+  if (!existsSync(resolvedPath)) {
+    throw new Error(`Workflow file not found at ${resolvedPath}`);
+  }
+  const workflowUrl = pathToFileURL(resolvedPath).href;
+  const module: unknown = await import(workflowUrl);
+  return { ...validateWorkflowModule(module, workflowUrl), workflowPath: resolvedPath };
+}
+
+/**
+ * Checks the exports of a workflow file against the `WorkflowModule` contract. Schemas are
+ * duck-typed because a workflow may bring its own copy of zod.
+ */
+export function validateWorkflowModule(
+  module: unknown,
+  source: string,
+): Omit<LoadedWorkflow, "workflowPath"> {
+  const exports = (module ?? {}) as Record<string, unknown>;
+  const run = exports.default;
+  if (typeof run !== "function") {
+    throw new Error(`Workflow file must export a default function: ${source}`);
+  }
+  if (run.length > 2) {
+    throw new Error(
+      `Workflow default export must take (context, params), not ${run.length} arguments: ${source}`,
+    );
+  }
+  const attachedSchema = (run as { paramsSchema?: unknown }).paramsSchema;
+  if (exports.paramsSchema !== undefined && attachedSchema !== undefined) {
+    throw new Error(
+      `Workflow must export paramsSchema or pass it to defineWorkflow, not both: ${source}`,
+    );
+  }
+  const paramsSchema = exports.paramsSchema ?? attachedSchema;
+  if (paramsSchema !== undefined && !isZodSchema(paramsSchema)) {
+    throw new Error(`Workflow paramsSchema must be a Zod schema: ${source}`);
+  }
+  return { run: run as WorkflowFunction, paramsSchema };
+}
+
+function isZodSchema(value: unknown): value is ZodTypeAny {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { parse?: unknown }).parse === "function" &&
+    typeof (value as { safeParse?: unknown }).safeParse === "function"
+  );
+}
+
+export async function resolveWorkflowParams(paramArg: string | undefined): Promise<unknown> {
+  if (!paramArg) return undefined;
+  const trimmed = paramArg.trim();
+  if (!trimmed) return undefined;
+
+  const resolvedPath = resolve(trimmed);
+  if (existsSync(resolvedPath)) {
+    let contents = "";
+    try {
+      contents = await readFile(resolvedPath, "utf8");
+    } catch (error) {
+      const message = getErrorMessage(error);
+      throw new Error(`Failed to read params file at ${resolvedPath}: ${message}`);
+    }
+    try {
+      return JSON.parse(contents);
+    } catch (error) {
+      const message = getErrorMessage(error);
+      throw new Error(`Failed to parse JSON file at ${resolvedPath}: ${message}`);
+    }
+  }
+
+  try {
+    return JSON.parse(trimmed);
+  } catch (error) {
+    const message = getErrorMessage(error);
+    throw new Error(
+      `Failed to parse workflow params as JSON. Provide a valid JSON string or path to a JSON file. ${message}`,
+    );
+  }
+}
+
+export function validateWorkflowParams(rawParams: unknown, paramsSchema?: ZodTypeAny): unknown {
+  if (!paramsSchema) return rawParams;
+  return paramsSchema.parse(rawParams ?? {});
+}
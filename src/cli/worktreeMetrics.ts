@@ -0,0 +1,28 @@
+import { getDiffStats } from "../git/git.ts";
+import type { WorktreeMetrics } from "../types.ts";
+import { runCommandWithOutput } from "../utils/run.ts";
+
+/**
+ * Collects objective signals from a worktree so that the comparison does not rest on
+ * the judging agent's reading of the diffs alone.
+ */
+export async function collectWorktreeMetrics(options: {
+  worktreePath: string;
+  baseBranch: string;
+  commands: Record<string, string>;
+  /** Exit code of the run's own last test run, if its workflow ran tests. */
+  testExitCode?: number;
+}): Promise<WorktreeMetrics> {
+  const { worktreePath, baseBranch } = options;
+  const diffStats = await getDiffStats(worktreePath, baseBranch);
+  const commands: Record<string, number> = {};
+  // Run one at a time: test, lint, and typecheck commands often share build outputs.
+  for (const [name, command] of Object.entries(options.commands)) {
+    const result = await runCommandWithOutput("sh", ["-c", command], {
+      cwd: worktreePath,
+      throwOnError: false,
+    });
+    commands[name] = result.exitCode;
+  }
+  return { ...diffStats, testExitCode: options.testExitCode, commands };
+}
@@ -2,29 +2,88 @@ import { existsSync, readFileSync } from "node:fs";
 import { resolve } from "node:path";
 import { z } from "zod";
 
+import { isValidUsagePattern } from "../agent/agentUsage.ts";
+import type { SandboxOptions } from "../agent/sandbox.ts";
+import type { ForgeKind } from "../types.ts";
+import type { RedactionOptions } from "../utils/redact.ts";
+import type { CommentApprovalOptions } from "../workflow/commentApprover.ts";
+
 const DEFAULT_CONFIG_FILE = "o-agents/config.toml";
 
 const configEntrySchema = z.object({
   args: z.array(z.string()),
 });
 
+const patternSchema = z.string().refine(isValidUsagePattern);
+
 const agentEntrySchema = z.object({
   cmd: z.array(z.string()).min(1),
   aliases: z.array(z.string()).optional(),
   terminal: z.boolean().optional(),
   versionCmd: z.array(z.string()).optional(),
+  /** Regular expressions whose first capture group holds the figure in the agent output. */
+  usagePatterns: z
+    .object({
+      inputTokens: patternSchema.optional(),
+      outputTokens: patternSchema.optional(),
+      totalTokens: patternSchema.optional(),
+      costUsd: patternSchema.optional(),
+    })
+    .strict()
+    .optional(),
 });
 
 const configSchema = z.object({
+  approval: z.enum(["terminal", "comment"]).optional(),
+  approvalOptions: z
+    .object({
+      allowedUsers: z.array(z.string().trim().min(1)).optional(),
+      timeoutMinutes: z.number().positive().optional(),
+      pollIntervalSeconds: z.number().positive().optional(),
+    })
+    .strict()
+    .optional(),
   config: z.record(z.string(), configEntrySchema).optional(),
   agents: z.record(z.string(), agentEntrySchema).optional(),
+  fallbacks: z.record(z.string(), z.array(z.string())).optional(),
+  forge: z.enum(["github", "gitlab"]).optional(),
+  metrics: z.record(z.string(), z.string().trim().min(1)).optional(),
+  redaction: z
+    .object({
+      env: z.array(z.string().min(1)).optional(),
+      patterns: z.array(patternSchema).optional(),
+    })
+    .strict()
+    .optional(),
+  sandbox: z.enum(["bwrap", "docker", "podman"]).optional(),
+  sandboxOptions: z
+    .object({
+      image: z.string().min(1).optional(),
+      allowedHosts: z.array(z.string().min(1)).optional(),
+      mounts: z.array(z.string().min(1)).optional(),
+      env: z.array(z.string().min(1)).optional(),
+    })
+    .strict()
+    .optional(),
 });
 
 type ConfigEntry = z.infer<typeof configEntrySchema>;
 export type AgentConfigEntry = z.infer<typeof agentEntrySchema>;
 export type OAgentsConfig = {
+  /** Set when approval steps wait for replies to an issue comment instead of the terminal. */
+  commentApproval?: CommentApprovalOptions;
   config: Record<string, ConfigEntry>;
   agents: Record<string, AgentConfigEntry>;
+  /** Agents to try, in order, when the keyed agent fails. */
+  fallbacks: Record<string, string[]>;
+  /** Overrides the forge inferred from the `origin` remote URL. */
+  forge?: ForgeKind;
+  /** Shell commands run in each worktree before comparing PRs; their exit codes are reported. */
+  metrics: Record<string, string>;
+  /** Extra secrets masked in console output and logs. */
+  redaction: RedactionOptions;
+  /** Runs every agent inside this sandbox instead of directly on the host. */
+  sandbox?: SandboxOptions;
 };
 
 /**
@@ -65,8 +124,27 @@ export function getConfigNames(config: OAgentsConfig): string[] {
 
 function normalizeConfig(config: z.infer<typeof configSchema>): OAgentsConfig {
   return {
+    commentApproval:
+      config.approval === "comment"
+        ? {
+            allowedUsers: config.approvalOptions?.allowedUsers ?? [],
+            timeoutMs: (config.approvalOptions?.timeoutMinutes ?? 60) * 60_000,
+            pollIntervalMs: (config.approvalOptions?.pollIntervalSeconds ?? 30) * 1000,
+          }
+        : undefined,
     config: config.config ?? {},
     agents: config.agents ?? {},
+    fallbacks: config.fallbacks ?? {},
+    forge: config.forge,
+    metrics: config.metrics ?? {},
+    redaction: config.redaction ?? {},
+    sandbox: config.sandbox && {
+      kind: config.sandbox,
+      image: config.sandboxOptions?.image,
+      allowedHosts: config.sandboxOptions?.allowedHosts,
+      mounts: config.sandboxOptions?.mounts ?? [],
+      env: config.sandboxOptions?.env ?? [],
+    },
   };
 }
 
@@ -76,17 +154,32 @@ function validateConfig(config: OAgentsConfig, configPath: string): void {
       if (isDisallowedConfigArg(arg)) {
         throw new Error(
           `Invalid config entry '${name}': '${arg}' is not allowed. ` +
-            "Provide --target on the CLI.",
+            "Provide --target, --targets, or --targets-query on the CLI.",
         );
       }
     }
   }
 
   validateAgentAliases(config.agents, configPath);
+
+  // Without allowed users anyone able to comment could approve, or no one could.
+  if (config.commentApproval && config.commentApproval.allowedUsers.length === 0) {
+    throw new Error(
+      `Invalid config file: approvalOptions.allowedUsers is required when approval is "comment" in ${configPath}`,
+    );
+  }
+
+  if (config.sandbox && config.sandbox.kind !== "bwrap" && !config.sandbox.image) {
+    throw new Error(
+      `Invalid config file: sandboxOptions.image is required when sandbox is "${config.sandbox.kind}" in ${configPath}`,
+    );
+  }
 }
 
 function isDisallowedConfigArg(arg: string): boolean {
-  return arg === "--target" || arg.startsWith("--target=");
+  return ["--target", "--targets", "--targets-query"].some(
+    (option) => arg === option || arg.startsWith(`${option}=`),
+  );
 }
 
 function validateAgentAliases(agents: Record<string, AgentConfigEntry>, configPath: string): void {
@@ -121,6 +214,19 @@ function validateAgentAliases(agents: Record<string, AgentConfigEntry>, configPa
 function formatConfigValidationError(error: z.ZodError, configPath: string): string {
   for (const issue of error.issues) {
     const section = issue.path[0];
+    if (section === "approval") {
+      return `Invalid config file: 'approval' must be "terminal" or "comment" in ${configPath}`;
+    }
+    if (section === "approvalOptions") {
+      if (issue.path.length === 1) {
+        return `Invalid config file: 'approvalOptions' must be a table with allowedUsers, timeoutMinutes, or pollIntervalSeconds in ${configPath}`;
+      }
+      const field = String(issue.path[1]);
+      if (field === "allowedUsers") {
+        return `Invalid config file: approvalOptions.allowedUsers must be an array of non-empty strings in ${configPath}`;
+      }
+      return `Invalid config file: approvalOptions.${field} must be a positive number in ${configPath}`;
+    }
     if (section === "config") {
       if (issue.path.length === 1) {
         return `Invalid config file: 'config' must be a table in ${configPath}`;
@@ -164,6 +270,53 @@ function formatConfigValidationError(error: z.ZodError, configPath: string): str
       if (field === "terminal") {
         return `Invalid agent entry '${agentName}': terminal must be a boolean`;
       }
+      if (field === "usagePatterns") {
+        if (issue.path.length > 3) {
+          return `Invalid agent entry '${agentName}': usagePatterns.${String(issue.path[3])} must be a valid regular expression`;
+        }
+        return `Invalid agent entry '${agentName}': usagePatterns must be a table with inputTokens, outputTokens, totalTokens, or costUsd`;
+      }
+    }
+    if (section === "forge") {
+      return `Invalid config file: 'forge' must be "github" or "gitlab" in ${configPath}`;
+    }
+    if (section === "metrics") {
+      if (issue.path.length === 1) {
+        return `Invalid config file: 'metrics' must be a table in ${configPath}`;
+      }
+      return `Invalid metrics entry '${String(issue.path[1])}': must be a non-empty command string`;
+    }
+    if (section === "redaction") {
+      if (issue.path[1] === "patterns" && issue.path.length > 2) {
+        return `Invalid config file: redaction.patterns[${String(issue.path[2])}] must be a valid regular expression in ${configPath}`;
+      }
+      if (issue.path.length > 1) {
+        return `Invalid config file: redaction.${String(issue.path[1])} must be an array of strings in ${configPath}`;
+      }
+      return `Invalid config file: 'redaction' must be a table with env or patterns in ${configPath}`;
+    }
+    if (section === "sandbox") {
+      return `Invalid config file: 'sandbox' must be "bwrap", "docker", or "podman" in ${configPath}`;
+    }
+    if (section === "sandboxOptions") {
+      if (issue.path.length === 1) {
+        return `Invalid config file: 'sandboxOptions' must be a table with image, allowedHosts, mounts, or env in ${configPath}`;
+      }
+      const field = String(issue.path[1]);
+      if (field === "image") {
+        return `Invalid config file: sandboxOptions.image must be a non-empty string in ${configPath}`;
+      }
+      return `Invalid config file: sandboxOptions.${field} must be an array of non-empty strings in ${configPath}`;
+    }
+    if (section === "fallbacks") {
+      if (issue.path.length === 1) {
+        return `Invalid config file: 'fallbacks' must be a table in ${configPath}`;
+      }
+      const agentName = String(issue.path[1]);
+      if (issue.path.length > 2) {
+        return `Invalid fallbacks entry '${agentName}': all fallback agents must be strings`;
+      }
+      return `Invalid fallbacks entry '${agentName}': must be an array of agent names`;
     }
   }
   return `Invalid config file: ${error.message}`;
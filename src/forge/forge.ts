@@ -0,0 +1,138 @@
+import { loadConfigFile } from "../config/oAgentsConfig.ts";
+import { githubForge } from "../github/gh.ts";
+import { gitlabForge } from "../gitlab/glab.ts";
+import type { ForgeKind, IssueData, RepoInfo, WorkKind } from "../types.ts";
+import { getErrorMessage } from "../utils/error.ts";
+import { logger } from "../utils/logger.ts";
+import { runCommandWithOutput } from "../utils/run.ts";
+
+export type ForgeComment = {
+  /** Increases with every comment posted on the forge. */
+  id: number;
+  author?: string;
+  body: string;
+};
+
+/**
+ * Operations o-agents needs from the service hosting the repository.
+ * "Pull request" is used throughout for both GitHub PRs and GitLab merge requests.
+ */
+export type Forge = {
+  kind: ForgeKind;
+  getRepoInfo: () => Promise<RepoInfo>;
+  resolveTargetKind: (target: string) => Promise<{ kind: WorkKind; number: number }>;
+  fetchIssueOrPullRequestData: (kind: WorkKind, number: number) => Promise<IssueData>;
+  searchIssueNumbers: (query: string) => Promise<number[]>;
+  findOpenPullRequestUrl: (headBranch: string) => Promise<string | undefined>;
+  /** Returns the URL of the created pull request when the forge reports one. */
+  createPullRequest: (options: {
+    baseBranch: string;
+    headBranch: string;
+    title: string;
+    bodyPath: string;
+    cwd: string;
+  }) => Promise<string | undefined>;
+  replyToReviewThread: (options: {
+    pullRequestNumber: number;
+    threadId: string;
+    body: string;
+  }) => Promise<void>;
+  resolveReviewThread: (options: { pullRequestNumber: number; threadId: string }) => Promise<void>;
+  closePullRequest: (options: { pullRequestUrl: string; comment: string }) => Promise<void>;
+  markPullRequestAsDraft: (options: { pullRequestUrl: string }) => Promise<void>;
+  /** Creates the label first where the forge does not do so on its own. */
+  addPullRequestLabel: (options: { pullRequestUrl: string; label: string }) => Promise<void>;
+  /** Lists the discussion comments of an issue or pull request, oldest first. */
+  listComments: (options: {
+    repo: string;
+    kind: WorkKind;
+    targetNumber: number;
+  }) => Promise<ForgeComment[]>;
+  upsertComment: (options: {
+    repo: string;
+    kind: WorkKind;
+    targetNumber: number;
+    body: string;
+    marker: string;
+  }) => Promise<{ action: "created" | "updated"; htmlUrl?: string }>;
+};
+
+const forgeCache = new Map<string, Promise<Forge>>();
+
+/**
+ * Returns the forge for the repository at `cwd`: the `forge` set in o-agents/config.toml,
+ * otherwise the one inferred from the `origin` remote URL.
+ */
+export function getForge(cwd: string = process.cwd()): Promise<Forge> {
+  let forge = forgeCache.get(cwd);
+  if (!forge) {
+    forge = resolveForge(cwd);
+    forgeCache.set(cwd, forge);
+  }
+  return forge;
+}
+
+/**
+ * Posts each response on its review thread and, if `resolve` is set, resolves the threads
+ * the agent reports as addressed. Failures are logged so one bad thread does not stop the rest.
+ */
+export async function respondToReviewThreads(options: {
+  pullRequestNumber: number;
+  responses: { threadId: string; addressed: boolean; response: string }[];
+  resolve: boolean;
+  cwd?: string;
+}): Promise<void> {
+  const forge = await getForge(options.cwd);
+  for (const { threadId, addressed, response } of options.responses) {
+    try {
+      await forge.replyToReviewThread({
+        pullRequestNumber: options.pullRequestNumber,
+        threadId,
+        body: response,
+      });
+      if (addressed && options.resolve) {
+        await forge.resolveReviewThread({
+          pullRequestNumber: options.pullRequestNumber,
+          threadId,
+        });
+      }
+    } catch (error) {
+      logger.error(`Failed to respond to review thread ${threadId}: ${getErrorMessage(error)}`);
+    }
+  }
+}
+
+async function resolveForge(cwd: string): Promise<Forge> {
+  const configured = loadConfigFile(cwd)?.forge;
+  const kind = configured ?? detectForgeKind(await getOriginUrl(cwd));
+  return kind === "gitlab" ? gitlabForge : githubForge;
+}
+
+/**
+ * Infers the forge from a remote URL. Self-managed GitLab hosts without "gitlab"
+ * in their name cannot be told apart from GitHub Enterprise and need `forge = "gitlab"`.
+ */
+export function detectForgeKind(remoteUrl: string | undefined): ForgeKind {
+  const host = remoteUrl ? extractRemoteHost(remoteUrl) : undefined;
+  return host?.includes("gitlab") ? "gitlab" : "github";
+}
+
+function extractRemoteHost(remoteUrl: string): string | undefined {
+  const trimmed = remoteUrl.trim();
+  // scp-like syntax: git@host:owner/repo.git
+  const scpMatch = trimmed.match(/^(?:[^@/\s]+@)?([^:/\s]+):(?!\/)/);
+  if (scpMatch?.[1]) return scpMatch[1].toLowerCase();
+  try {
+    return new URL(trimmed).hostname.toLowerCase() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function getOriginUrl(cwd: string): Promise<string | undefined> {
+  const result = await runCommandWithOutput("git", ["remote", "get-url", "origin"], {
+    cwd,
+    throwOnError: false,
+  });
+  return result.exitCode === 0 ? result.stdout.trim() : undefined;
+}
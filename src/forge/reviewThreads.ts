@@ -0,0 +1,94 @@
+import { hasCommitsAhead } from "../git/git.ts";
+import type { IssueData, ReviewThread } from "../types.ts";
+import { getErrorMessage } from "../utils/error.ts";
+import { logger } from "../utils/logger.ts";
+import { respondToReviewThreads } from "./forge.ts";
+
+export type ReviewThreadResponse = { threadId: string; addressed: boolean; response: string };
+
+type PendingReviewThreadResponses = {
+  pullRequestNumber: number;
+  /** The branch of the reviewed PR, which the run's fix is stacked on. */
+  reviewedBranch: string;
+  responses: ReviewThreadResponse[];
+  resolve: boolean;
+};
+
+// Keyed by the head branch of the run that produced the responses.
+const pendingResponsesByBranch = new Map<string, PendingReviewThreadResponses>();
+
+/** Returns the unresolved review threads of a PR target, or none for other targets. */
+export function getOpenReviewThreads(issueData: IssueData): ReviewThread[] {
+  if (issueData.kind !== "pr" || !issueData.number) return [];
+  return (issueData.reviewThreads ?? []).filter((thread) => !thread.isResolved);
+}
+
+/**
+ * Keeps only responses to the given threads, which guards against ids the agent made up,
+ * and links each reply to the PR holding the changes.
+ */
+export function buildReviewThreadReplies(options: {
+  reviewThreads: ReviewThread[];
+  responses: ReviewThreadResponse[];
+  pullRequestUrl: string | undefined;
+}): ReviewThreadResponse[] {
+  const { pullRequestUrl } = options;
+  const knownThreadIds = new Set(options.reviewThreads.map((thread) => thread.id));
+  return options.responses
+    .filter((response) => knownThreadIds.has(response.threadId))
+    .map((response) => ({
+      ...response,
+      response: pullRequestUrl
+        ? `${response.response}\n\nChanges: ${pullRequestUrl}`
+        : response.response,
+    }));
+}
+
+/**
+ * Holds a run's replies to the review threads until the runs on the target are compared,
+ * so that parallel runs do not all reply on the same human threads.
+ */
+export function deferReviewThreadResponses(
+  headBranch: string,
+  pending: PendingReviewThreadResponses,
+): void {
+  pendingResponsesByBranch.set(headBranch, pending);
+}
+
+/**
+ * Posts the deferred replies of `selectedBranch` only and discards those of the other `branches`,
+ * then resolves the addressed threads if requested. Threads stay open when `selectedBranch` has
+ * no commits on top of the reviewed branch, since nothing was changed for them then.
+ */
+export async function publishReviewThreadResponses(options: {
+  selectedBranch: string | undefined;
+  branches: string[];
+}): Promise<void> {
+  const { selectedBranch } = options;
+  const pending = selectedBranch ? pendingResponsesByBranch.get(selectedBranch) : undefined;
+  for (const branch of options.branches) {
+    pendingResponsesByBranch.delete(branch);
+  }
+  if (!selectedBranch || !pending) return;
+
+  let resolve = false;
+  if (pending.resolve) {
+    try {
+      resolve = await hasCommitsAhead(selectedBranch, pending.reviewedBranch);
+    } catch (error) {
+      logger.error(
+        `Failed to compare ${selectedBranch} with ${pending.reviewedBranch}: ${getErrorMessage(error)}`,
+      );
+    }
+    if (!resolve) {
+      logger.info(
+        `Left review threads unresolved: ${selectedBranch} has no changes on top of ${pending.reviewedBranch}.`,
+      );
+    }
+  }
+  await respondToReviewThreads({
+    pullRequestNumber: pending.pullRequestNumber,
+    responses: pending.responses,
+    resolve,
+  });
+}
@@ -1,16 +1,28 @@
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
 import { rm } from "node:fs/promises";
-import { join } from "node:path";
+import { basename, dirname, join } from "node:path";
 
 export const O_AGENTS_LOGS_DIR = ".o-agents-logs";
 
 import simpleGit, { type SimpleGit } from "simple-git";
 
 import { logger } from "../utils/logger.ts";
-import { runCommandWithOutput } from "../utils/run.ts";
+import { getForge } from "../forge/forge.ts";
 import { getErrorMessage } from "../utils/error.ts";
+import { formatRunTimestamp } from "../utils/time.ts";
+import type { WorkKind } from "../types.ts";
 
 const pullRequestUrlByBranch = new Map<string, string>();
+let hooksDisabled = false;
+
+/**
+ * Makes git commands of o-agents ignore hooks and fsmonitor. Sandboxed agents can still edit
+ * hooks tracked in the worktree, e.g. through `core.hooksPath=.husky`, which the host would
+ * otherwise run outside the sandbox when it commits their changes.
+ */
+export function setGitHooksDisabled(disabled: boolean): void {
+  hooksDisabled = disabled;
+}
 
 export async function ensureCleanGit(cwd: string): Promise<void> {
   const git = getGit(cwd);
@@ -25,6 +37,27 @@ export async function getCurrentBranch(cwd: string): Promise<string> {
   return branch.current;
 }
 
+export function buildWorktreeBranchName(
+  kind: WorkKind,
+  number: number,
+  branchTimestamp: string,
+  runIndex: number,
+): string {
+  return `o-agents/${kind}-${number}-${branchTimestamp}-${runIndex}`;
+}
+
+export function buildWorktreePath(
+  cwd: string,
+  kind: WorkKind,
+  number: number,
+  runIndex: number,
+): string {
+  return join(
+    dirname(cwd),
+    `${basename(cwd)}-o-agents-${kind}-${number}-${formatRunTimestamp()}-${runIndex}`,
+  );
+}
+
 export async function createWorktree(
   branchName: string,
   baseBranch: string,
@@ -53,6 +86,85 @@ export async function createWorktree(
   return { branchName: finalBranch, baseRef, worktreePath };
 }
 
+export async function attachWorktree(
+  branchName: string,
+  worktreePath: string,
+): Promise<{ branchName: string; worktreePath: string }> {
+  const git = getGit(process.cwd());
+  if (!(await gitRefExists(git, `refs/heads/${branchName}`))) {
+    throw new Error(`Cannot attach worktree: branch ${branchName} does not exist.`);
+  }
+  // A worktree kept for its uncommitted changes is reused so that the resumed run continues from them.
+  const existingPath = await findWorktreeForBranch(git, branchName);
+  if (existingPath && existsSync(existingPath)) {
+    return { branchName, worktreePath: existingPath };
+  }
+  await withWorktreeLock(async () => {
+    if (existingPath) await git.raw(["worktree", "prune"]);
+    await git.raw(["worktree", "add", worktreePath, branchName]);
+  });
+  return { branchName, worktreePath };
+}
+
+export async function getHeadCommit(cwd: string): Promise<string> {
+  return (await getGit(cwd).revparse(["HEAD"])).trim();
+}
+
+export async function hasUncommittedChanges(worktreePath: string): Promise<boolean> {
+  return hasChanges(getGit(worktreePath));
+}
+
+/**
+ * Summarizes what `HEAD` of `cwd` changed since it diverged from `baseBranch`,
+ * preferring the fetched `origin/<baseBranch>` as `createWorktree` does.
+ */
+export async function getDiffStats(
+  cwd: string,
+  baseBranch: string,
+): Promise<{ filesChanged: number; linesAdded: number; linesRemoved: number }> {
+  const git = getGit(cwd);
+  const remoteRef = `refs/remotes/origin/${baseBranch}`;
+  const baseRef = (await gitRefExists(git, remoteRef)) ? `origin/${baseBranch}` : baseBranch;
+  const summary = await git.diffSummary([`${baseRef}...HEAD`]);
+  return {
+    filesChanged: summary.changed,
+    linesAdded: summary.insertions,
+    linesRemoved: summary.deletions,
+  };
+}
+
+/** Returns the patch of what `headBranch` changed since it diverged from `baseBranch`. */
+export async function getBranchDiff(
+  cwd: string,
+  baseBranch: string,
+  headBranch: string,
+): Promise<string> {
+  const git = getGit(cwd);
+  const remoteRef = `refs/remotes/origin/${baseBranch}`;
+  const baseRef = (await gitRefExists(git, remoteRef)) ? `origin/${baseBranch}` : baseBranch;
+  return git.diff([`${baseRef}...${headBranch}`]);
+}
+
+/**
+ * Whether `branch` has commits that `targetBranch` lacks, checked against a freshly fetched
+ * `origin/<targetBranch>` when `origin` exists.
+ */
+export async function hasCommitsAhead(branch: string, targetBranch: string): Promise<boolean> {
+  const git = getGit(process.cwd());
+  let targetRef = targetBranch;
+  if (await gitRemoteExists(git, "origin")) {
+    await git.fetch("origin", targetBranch);
+    targetRef = `origin/${targetBranch}`;
+  }
+  const count = await git.raw(["rev-list", "--count", `${targetRef}..${branch}`]);
+  return Number(count.trim()) > 0;
+}
+
+export async function deleteRemoteBranch(branchName: string): Promise<void> {
+  const git = getGit(process.cwd());
+  await git.raw(["push", "origin", "--delete", branchName]);
+}
+
 export async function removeWorktree(worktreePath: string): Promise<void> {
   const git = getGit(process.cwd());
   try {
@@ -75,11 +187,24 @@ export async function removeWorktree(worktreePath: string): Promise<void> {
   }
 }
 
+/**
+ * Commits the changes in `cwd`, if any, and pushes them to the branch of the same name. With
+ * `pushTo`, `HEAD` is pushed to that branch of origin instead, also when the agent committed
+ * everything itself, e.g. to update the branch of an existing pull request.
+ */
 export async function ensureCommitAndPushChanges(
   message: string,
-  options: { cwd: string },
+  options: { cwd: string; pushTo?: string },
 ): Promise<void> {
   const git = getGit(options.cwd);
+  if (options.pushTo) {
+    if (await hasChanges(git)) {
+      await git.add(["-A"]);
+      await git.commit(message);
+    }
+    await pushToOriginIfExists(git, message, `HEAD:${options.pushTo}`);
+    return;
+  }
   const committed = await commitAndPushIfChanges(git, message);
   if (!committed) {
     logger.info("No changes to commit.");
@@ -92,33 +217,29 @@ export async function createPullRequest(
   body: string,
   options: { cwd: string },
 ): Promise<void> {
+  const existingUrl = pullRequestUrlByBranch.get(headBranch);
+  if (existingUrl) {
+    logger.info(`Skipped PR creation: ${existingUrl} already exists for ${headBranch}.`);
+    return;
+  }
   const tempDir = join(process.cwd(), O_AGENTS_LOGS_DIR, "app", "temp");
   mkdirSync(tempDir, { recursive: true });
   const bodyPath = join(tempDir, `pr-body-${Date.now()}.md`);
   writeFileSync(bodyPath, body, "utf8");
   const title = await getFirstCommitTitle(options.cwd, baseBranch, headBranch);
 
-  const { stdout, stderr } = await runCommandWithOutput(
-    "gh",
-    [
-      "pr",
-      "create",
-      "--base",
-      baseBranch,
-      "--head",
-      headBranch,
-      "--title",
-      title,
-      "--body-file",
-      bodyPath,
-    ],
-    { stream: true, throwOnError: true, cwd: options.cwd },
-  );
-
+  const forge = await getForge();
+  const pullRequestUrl = await forge.createPullRequest({
+    baseBranch,
+    headBranch,
+    title,
+    bodyPath,
+    cwd: options.cwd,
+  });
   void rm(bodyPath, { force: true });
-  const pullRequestUrl = extractPullRequestUrl(stdout, stderr);
   if (pullRequestUrl) {
     pullRequestUrlByBranch.set(headBranch, pullRequestUrl);
+    logger.event({ type: "pull_request_created", url: pullRequestUrl, baseBranch, headBranch });
   }
 }
 
@@ -140,30 +261,19 @@ export async function getFirstCommitTitle(
   return title;
 }
 
-export function extractPullRequestUrl(stdout: string, stderr: string): string | undefined {
-  const output = stdout.trim() ? stdout : stderr;
-  if (!output) {
-    return undefined;
-  }
-  const urls = output.match(/https?:\/\/[^\s]+/g) ?? [];
-  if (urls.length === 0) {
-    return undefined;
-  }
-  const cleaned = urls.map((url) => url.replace(/[),.]+$/, ""));
-  const prPattern = /https?:\/\/github\.com\/[^/\s]+\/[^/\s]+\/pull\/\d+/;
-  const prUrls = cleaned.filter((url) => prPattern.test(url));
-  if (prUrls.length > 0) {
-    return prUrls[prUrls.length - 1];
-  }
-  return cleaned[cleaned.length - 1];
-}
-
 export function getPullRequestUrlForBranch(branchName: string): string | undefined {
   return pullRequestUrlByBranch.get(branchName);
 }
 
+export function setPullRequestUrlForBranch(branchName: string, pullRequestUrl: string): void {
+  pullRequestUrlByBranch.set(branchName, pullRequestUrl);
+}
+
 function getGit(cwd: string): SimpleGit {
-  return simpleGit({ baseDir: cwd });
+  return simpleGit({
+    baseDir: cwd,
+    config: hooksDisabled ? ["core.hooksPath=/dev/null", "core.fsmonitor=false"] : [],
+  });
 }
 
 async function gitRemoteExists(git: SimpleGit, name: string): Promise<boolean> {
@@ -180,6 +290,19 @@ async function gitRefExists(git: SimpleGit, ref: string): Promise<boolean> {
   }
 }
 
+async function findWorktreeForBranch(
+  git: SimpleGit,
+  branchName: string,
+): Promise<string | undefined> {
+  const output = await git.raw(["worktree", "list", "--porcelain"]);
+  for (const entry of output.split("\n\n")) {
+    const lines = entry.split("\n");
+    const path = lines.find((line) => line.startsWith("worktree "))?.slice("worktree ".length);
+    if (path && lines.includes(`branch refs/heads/${branchName}`)) return path;
+  }
+  return undefined;
+}
+
 async function hasChanges(git: SimpleGit): Promise<boolean> {
   const status = await git.status();
   return status.files.length > 0;
@@ -201,16 +324,26 @@ async function commitAndPushIfChanges(
     await git.commit(message);
   }
 
-  await pushToOriginIfExists(git);
+  await pushToOriginIfExists(git, message);
   return true;
 }
 
-async function pushToOriginIfExists(git: SimpleGit): Promise<void> {
-  if (await gitRemoteExists(git, "origin")) {
-    await git.push("origin", "HEAD");
-  } else {
+async function pushToOriginIfExists(
+  git: SimpleGit,
+  message: string,
+  refspec = "HEAD",
+): Promise<void> {
+  if (!(await gitRemoteExists(git, "origin"))) {
     logger.info("Skipped push: git remote 'origin' not found.");
+    return;
   }
+  await git.push("origin", refspec);
+  logger.event({
+    type: "commit_pushed",
+    cwd: await git.revparse(["--show-toplevel"]),
+    commit: (await git.revparse(["HEAD"])).trim(),
+    message,
+  });
 }
 
 let worktreeQueue: Promise<void> = Promise.resolve();
@@ -1,35 +1,273 @@
-import type { IssueData, RepoInfo, WorkKind } from "../types.ts";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+
+import type { Forge, ForgeComment } from "../forge/forge.ts";
+import type { IssueData, RepoInfo, ReviewThread, WorkKind } from "../types.ts";
+import { logger } from "../utils/logger.ts";
 import { runCommandWithOutput } from "../utils/run.ts";
 
+const TARGETS_QUERY_LIMIT = 100;
+const DEFAULT_CHECK_LOG_MAX_LINES = 200;
+
 type GitHubIssueComment = {
   id: number;
   body?: string;
   html_url?: string;
+  user?: { login?: string };
+};
+
+type GitHubReviewComment = {
+  id: number;
+  path: string;
+  line?: number | null;
+  original_line?: number | null;
+  body: string;
+};
+
+export type ReviewComment = {
+  path: string;
+  line: number;
+  body: string;
+};
+
+/** `id` is the thread's root comment; undefined when the comment could not be posted inline. */
+export type PostedReviewComment = ReviewComment & { id?: number };
+
+export type CheckRun = {
+  name: string;
+  workflow?: string;
+  state: string;
+  /** gh's normalized outcome of the check. */
+  bucket: "pass" | "fail" | "pending" | "skipping" | "cancel";
+  link?: string;
+};
+
+export type FailedCheck = CheckRun & {
+  /** Tail of the failed steps' log; undefined for checks not run by GitHub Actions. */
+  log?: string;
+};
+
+type GitHubIssueView = {
+  title: string;
+  body: string;
+  url: string;
+  comments: { author?: { login?: string }; body?: string }[];
+  headRefName?: string;
 };
 
-export async function getRepoInfo(): Promise<RepoInfo> {
+export const githubForge: Forge = {
+  kind: "github",
+  getRepoInfo,
+  resolveTargetKind,
+  fetchIssueOrPullRequestData,
+  searchIssueNumbers,
+  findOpenPullRequestUrl,
+  createPullRequest,
+  replyToReviewThread,
+  resolveReviewThread,
+  closePullRequest,
+  markPullRequestAsDraft,
+  addPullRequestLabel,
+  listComments,
+  upsertComment,
+};
+
+const REVIEW_THREADS_QUERY = `
+query($owner: String!, $name: String!, $number: Int!) {
+  repository(owner: $owner, name: $name) {
+    pullRequest(number: $number) {
+      reviewThreads(first: 100) {
+        nodes {
+          id
+          isResolved
+          path
+          line
+          comments(first: 50) {
+            nodes { author { login } body diffHunk }
+          }
+        }
+      }
+    }
+  }
+}`;
+
+type GitHubReviewThreadsResponse = {
+  data: {
+    repository: {
+      pullRequest: {
+        reviewThreads: {
+          nodes: {
+            id: string;
+            isResolved: boolean;
+            path: string;
+            line: number | null;
+            comments: {
+              nodes: { author?: { login?: string } | null; body?: string; diffHunk?: string }[];
+            };
+          }[];
+        };
+      };
+    };
+  };
+};
+
+async function getRepoInfo(): Promise<RepoInfo> {
   const repoResult = await runCommandWithOutput(
     "gh",
     ["repo", "view", "--json", "nameWithOwner,defaultBranchRef"],
     { throwOnError: true, cwd: process.cwd() },
   );
-  return JSON.parse(repoResult.stdout) as RepoInfo;
+  const repo = parseGhApiJson<{ nameWithOwner: string; defaultBranchRef?: { name?: string } }>(
+    repoResult.stdout,
+    "repo view",
+  );
+  return {
+    forge: "github",
+    fullName: repo.nameWithOwner,
+    defaultBranch: repo.defaultBranchRef?.name,
+  };
+}
+
+async function searchIssueNumbers(query: string): Promise<number[]> {
+  const result = await runCommandWithOutput(
+    "gh",
+    [
+      "issue",
+      "list",
+      "--search",
+      query,
+      "--limit",
+      String(TARGETS_QUERY_LIMIT),
+      "--json",
+      "number",
+    ],
+    { throwOnError: true, cwd: process.cwd() },
+  );
+  const issues = parseGhApiJson<{ number: number }[]>(result.stdout, "issue search");
+  return issues.map((issue) => issue.number).sort((a, b) => a - b);
+}
+
+async function findOpenPullRequestUrl(headBranch: string): Promise<string | undefined> {
+  const result = await runCommandWithOutput(
+    "gh",
+    ["pr", "list", "--head", headBranch, "--state", "open", "--json", "url"],
+    { throwOnError: false, cwd: process.cwd() },
+  );
+  if (result.exitCode !== 0 || !result.stdout.trim()) return undefined;
+  const pullRequests = parseGhApiJson<{ url?: string }[]>(result.stdout, "pull request list");
+  return pullRequests[0]?.url;
+}
+
+async function createPullRequest(options: {
+  baseBranch: string;
+  headBranch: string;
+  title: string;
+  bodyPath: string;
+  cwd: string;
+}): Promise<string | undefined> {
+  const { stdout, stderr } = await runCommandWithOutput(
+    "gh",
+    [
+      "pr",
+      "create",
+      "--base",
+      options.baseBranch,
+      "--head",
+      options.headBranch,
+      "--title",
+      options.title,
+      "--body-file",
+      options.bodyPath,
+    ],
+    { stream: true, throwOnError: true, cwd: options.cwd },
+  );
+  return extractPullRequestUrl(stdout, stderr);
+}
+
+export function extractPullRequestUrl(stdout: string, stderr: string): string | undefined {
+  const output = stdout.trim() ? stdout : stderr;
+  if (!output) {
+    return undefined;
+  }
+  const urls = output.match(/https?:\/\/[^\s]+/g) ?? [];
+  if (urls.length === 0) {
+    return undefined;
+  }
+  const cleaned = urls.map((url) => url.replace(/[),.]+$/, ""));
+  const prPattern = /https?:\/\/github\.com\/[^/\s]+\/[^/\s]+\/pull\/\d+/;
+  const prUrls = cleaned.filter((url) => prPattern.test(url));
+  if (prUrls.length > 0) {
+    return prUrls[prUrls.length - 1];
+  }
+  return cleaned[cleaned.length - 1];
+}
+
+async function closePullRequest(options: {
+  pullRequestUrl: string;
+  comment: string;
+}): Promise<void> {
+  await runCommandWithOutput(
+    "gh",
+    ["pr", "close", options.pullRequestUrl, "--comment", options.comment],
+    { throwOnError: true, cwd: process.cwd() },
+  );
+}
+
+async function markPullRequestAsDraft(options: { pullRequestUrl: string }): Promise<void> {
+  await runCommandWithOutput("gh", ["pr", "ready", options.pullRequestUrl, "--undo"], {
+    throwOnError: true,
+    cwd: process.cwd(),
+  });
+}
+
+async function addPullRequestLabel(options: {
+  pullRequestUrl: string;
+  label: string;
+}): Promise<void> {
+  const { repo } = parsePullRequestUrl(options.pullRequestUrl);
+  // `gh pr edit --add-label` fails for labels missing from the repository; --force keeps existing ones.
+  await runCommandWithOutput("gh", ["label", "create", options.label, "--repo", repo, "--force"], {
+    throwOnError: true,
+    cwd: process.cwd(),
+  });
+  await runCommandWithOutput(
+    "gh",
+    ["pr", "edit", options.pullRequestUrl, "--add-label", options.label],
+    { throwOnError: true, cwd: process.cwd() },
+  );
 }
 
-export async function upsertComparisonComment(options: {
+// GitHub serves PR conversation comments from the issues API, so `kind` does not matter here.
+async function listComments(options: {
   repo: string;
+  kind: WorkKind;
   targetNumber: number;
-  body: string;
-  marker: string;
-}): Promise<{ action: "created" | "updated"; htmlUrl?: string }> {
-  const { repo, targetNumber, body, marker } = options;
+}): Promise<ForgeComment[]> {
   const listResult = await runCommandWithOutput(
     "gh",
-    ["api", `repos/${repo}/issues/${targetNumber}/comments`, "--paginate"],
+    ["api", `repos/${options.repo}/issues/${options.targetNumber}/comments`, "--paginate"],
     { throwOnError: true, cwd: process.cwd() },
   );
   const comments = parseGhApiJson<GitHubIssueComment[]>(listResult.stdout, "issue comments");
-  const existing = comments.find((comment) => (comment.body ?? "").includes(marker));
+  return comments.map((comment) => ({
+    id: comment.id,
+    author: comment.user?.login,
+    body: comment.body ?? "",
+  }));
+}
+
+async function upsertComment(options: {
+  repo: string;
+  kind: WorkKind;
+  targetNumber: number;
+  body: string;
+  marker: string;
+}): Promise<{ action: "created" | "updated"; htmlUrl?: string }> {
+  const { repo, targetNumber, body, marker } = options;
+  const comments = await listComments(options);
+  const existing = comments.find((comment) => comment.body.includes(marker));
 
   if (existing) {
     const updateResult = await runCommandWithOutput(
@@ -57,6 +295,189 @@ export async function upsertComparisonComment(options: {
   return { action: "created", htmlUrl: created.html_url };
 }
 
+/**
+ * Submits `comments` as one pull request review with inline comments on the changed lines.
+ * GitHub rejects the whole review if any line is outside the diff, so the comments are then
+ * folded into the review body instead of being dropped.
+ */
+export async function postPullRequestReview(options: {
+  pullRequestUrl: string;
+  comments: ReviewComment[];
+  body?: string;
+}): Promise<PostedReviewComment[]> {
+  const { repo, number } = parsePullRequestUrl(options.pullRequestUrl);
+  const reviewsPath = `repos/${repo}/pulls/${number}/reviews`;
+  const inlineReview = {
+    event: "COMMENT",
+    body: options.body ?? "",
+    comments: options.comments.map((comment) => ({ ...comment, side: "RIGHT" })),
+  };
+  const inlineResult = await ghApiWithInput(reviewsPath, inlineReview);
+  if (inlineResult.exitCode === 0) {
+    const review = parseGhApiJson<{ id: number }>(inlineResult.stdout, "created review");
+    const commentsResult = await runCommandWithOutput(
+      "gh",
+      ["api", `${reviewsPath}/${review.id}/comments`, "--paginate"],
+      { throwOnError: true, cwd: process.cwd() },
+    );
+    const posted = parseGhApiJson<GitHubReviewComment[]>(commentsResult.stdout, "review comments");
+    return matchPostedReviewComments(options.comments, posted);
+  }
+
+  const fallbackBody = [
+    options.body ?? "",
+    ...options.comments.map((comment) => `- \`${comment.path}:${comment.line}\`: ${comment.body}`),
+  ]
+    .filter(Boolean)
+    .join("\n");
+  const fallbackResult = await ghApiWithInput(reviewsPath, {
+    event: "COMMENT",
+    body: fallbackBody,
+  });
+  if (fallbackResult.exitCode !== 0) {
+    throw new Error(`Failed to post pull request review: ${fallbackResult.stderr.trim()}`);
+  }
+  return options.comments.map((comment) => ({ ...comment }));
+}
+
+export async function replyToReviewComment(options: {
+  pullRequestUrl: string;
+  commentId: number;
+  body: string;
+}): Promise<void> {
+  const { repo, number } = parsePullRequestUrl(options.pullRequestUrl);
+  await runCommandWithOutput(
+    "gh",
+    [
+      "api",
+      `repos/${repo}/pulls/${number}/comments/${options.commentId}/replies`,
+      "-f",
+      `body=${options.body}`,
+    ],
+    { throwOnError: true, cwd: process.cwd() },
+  );
+}
+
+export function parsePullRequestUrl(pullRequestUrl: string): { repo: string; number: number } {
+  const match = pullRequestUrl.match(/^https?:\/\/[^/]+\/([^/\s]+\/[^/\s]+)\/pull\/(\d+)/);
+  if (!match?.[1] || !match[2]) {
+    throw new Error(`Not a GitHub pull request URL: ${pullRequestUrl}`);
+  }
+  return { repo: match[1], number: Number(match[2]) };
+}
+
+function matchPostedReviewComments(
+  comments: ReviewComment[],
+  posted: GitHubReviewComment[],
+): PostedReviewComment[] {
+  const remaining = [...posted];
+  return comments.map((comment) => {
+    const index = remaining.findIndex(
+      (candidate) =>
+        candidate.path === comment.path &&
+        candidate.body === comment.body &&
+        (candidate.line ?? candidate.original_line) === comment.line,
+    );
+    const [match] = index >= 0 ? remaining.splice(index, 1) : [];
+    return { ...comment, id: match?.id };
+  });
+}
+
+// Nested arrays cannot be expressed with -f/-F fields, so the payload goes through --input.
+async function ghApiWithInput(
+  path: string,
+  payload: unknown,
+): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+  const tempDir = await mkdtemp(join(tmpdir(), "o-agents-gh-"));
+  const inputPath = join(tempDir, "input.json");
+  try {
+    await writeFile(inputPath, JSON.stringify(payload), "utf8");
+    return await runCommandWithOutput(
+      "gh",
+      ["api", "--method", "POST", path, "--input", inputPath],
+      { throwOnError: false, cwd: process.cwd() },
+    );
+  } finally {
+    await rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+export async function getPullRequestChecks(pullRequestUrl: string): Promise<CheckRun[]> {
+  // `gh pr checks` exits non-zero while checks fail or are pending, so the exit code is not an error.
+  const result = await runCommandWithOutput(
+    "gh",
+    ["pr", "checks", pullRequestUrl, "--json", "name,workflow,state,bucket,link"],
+    { throwOnError: false, cwd: process.cwd() },
+  );
+  if (!result.stdout.trim()) {
+    if (result.stderr.includes("no checks reported")) return [];
+    throw new Error(`Failed to fetch checks for ${pullRequestUrl}: ${result.stderr.trim()}`);
+  }
+  return parseGhApiJson<CheckRun[]>(result.stdout, "pull request checks");
+}
+
+/**
+ * Polls until at least one check is registered and none is pending, then returns the checks.
+ * The first poll is delayed so that checks triggered by a just-pushed commit are registered.
+ * Throws when no check appears before the timeout, so a PR without CI is never taken as passing.
+ */
+export async function waitForPullRequestChecks(
+  pullRequestUrl: string,
+  options: { pollIntervalMs: number; timeoutMs: number },
+): Promise<CheckRun[]> {
+  const deadline = Date.now() + options.timeoutMs;
+  for (;;) {
+    await sleep(options.pollIntervalMs);
+    const checks = await getPullRequestChecks(pullRequestUrl);
+    const pending = checks.filter((check) => check.bucket === "pending");
+    if (checks.length > 0 && pending.length === 0) return checks;
+    if (Date.now() >= deadline) {
+      throw new Error(
+        checks.length === 0
+          ? `No checks were reported on ${pullRequestUrl} before the timeout.`
+          : `Timed out waiting for checks on ${pullRequestUrl} (${pending.length} still pending).`,
+      );
+    }
+    logger.info(
+      checks.length === 0
+        ? `Waiting for checks to be reported on ${pullRequestUrl}...`
+        : `Waiting for ${pending.length} pending checks on ${pullRequestUrl}...`,
+    );
+  }
+}
+
+export async function fetchFailedChecks(
+  pullRequestUrl: string,
+  checks: CheckRun[],
+  maxLogLines: number = DEFAULT_CHECK_LOG_MAX_LINES,
+): Promise<FailedCheck[]> {
+  const { repo } = parsePullRequestUrl(pullRequestUrl);
+  const failed = checks.filter((check) => check.bucket === "fail");
+  return Promise.all(
+    failed.map(async (check) => ({
+      ...check,
+      log: await fetchFailedJobLog(repo, check.link, maxLogLines),
+    })),
+  );
+}
+
+async function fetchFailedJobLog(
+  repo: string,
+  link: string | undefined,
+  maxLines: number,
+): Promise<string | undefined> {
+  const match = link?.match(/\/actions\/runs\/(\d+)\/job\/(\d+)/);
+  if (!match?.[1] || !match[2]) return undefined;
+  const result = await runCommandWithOutput(
+    "gh",
+    ["run", "view", match[1], "--job", match[2], "--log-failed", "--repo", repo],
+    { throwOnError: false, cwd: process.cwd() },
+  );
+  if (result.exitCode !== 0) return undefined;
+  // The root cause is usually printed right before the step fails, so keep the tail.
+  return result.stdout.trimEnd().split("\n").slice(-maxLines).join("\n");
+}
+
 async function getIssueData(issueNumber: number): Promise<IssueData> {
   return getIssueOrPullRequestData("issue", issueNumber);
 }
@@ -65,7 +486,7 @@ async function getPullRequestData(prNumber: number): Promise<IssueData> {
   return getIssueOrPullRequestData("pr", prNumber);
 }
 
-export async function fetchIssueOrPullRequestData(
+async function fetchIssueOrPullRequestData(
   kind: "issue" | "pr",
   number: number,
 ): Promise<IssueData> {
@@ -73,9 +494,7 @@ export async function fetchIssueOrPullRequestData(
   return { ...data, kind, number };
 }
 
-export async function resolveTargetKind(
-  target: string,
-): Promise<{ kind: WorkKind; number: number }> {
+async function resolveTargetKind(target: string): Promise<{ kind: WorkKind; number: number }> {
   const trimmed = target.trim();
   if (!trimmed) {
     throw new Error("Target cannot be empty.");
@@ -127,7 +546,84 @@ async function getIssueOrPullRequestData(kind: "issue" | "pr", number: number):
     [kind, "view", String(number), "--json", fields.join(",")],
     { throwOnError: true, cwd: process.cwd() },
   );
-  return JSON.parse(result.stdout) as IssueData;
+  const view = parseGhApiJson<GitHubIssueView>(result.stdout, `${kind} view`);
+  return {
+    title: view.title,
+    body: view.body,
+    url: view.url,
+    comments: view.comments.map((comment) => ({
+      author: comment.author?.login,
+      body: comment.body,
+    })),
+    headBranch: view.headRefName,
+    reviewThreads: kind === "pr" ? await getReviewThreads(number) : undefined,
+  };
+}
+
+// `gh pr view` does not expose inline review threads, so they come from GraphQL.
+async function getReviewThreads(number: number): Promise<ReviewThread[]> {
+  const { fullName } = await getRepoInfo();
+  const [owner, name] = fullName.split("/");
+  const result = await runCommandWithOutput(
+    "gh",
+    [
+      "api",
+      "graphql",
+      "-f",
+      `query=${REVIEW_THREADS_QUERY}`,
+      "-f",
+      `owner=${owner}`,
+      "-f",
+      `name=${name}`,
+      "-F",
+      `number=${number}`,
+    ],
+    { throwOnError: true, cwd: process.cwd() },
+  );
+  const response = parseGhApiJson<GitHubReviewThreadsResponse>(result.stdout, "review threads");
+  return response.data.repository.pullRequest.reviewThreads.nodes.map((thread) => ({
+    id: thread.id,
+    path: thread.path,
+    line: thread.line ?? undefined,
+    diffHunk: thread.comments.nodes[0]?.diffHunk,
+    isResolved: thread.isResolved,
+    comments: thread.comments.nodes.map((comment) => ({
+      author: comment.author?.login,
+      body: comment.body,
+    })),
+  }));
+}
+
+async function replyToReviewThread(options: {
+  pullRequestNumber: number;
+  threadId: string;
+  body: string;
+}): Promise<void> {
+  await runGraphqlMutation(
+    "mutation($threadId: ID!, $body: String!) { addPullRequestReviewThreadReply(input: {pullRequestReviewThreadId: $threadId, body: $body}) { comment { id } } }",
+    { threadId: options.threadId, body: options.body },
+  );
+}
+
+async function resolveReviewThread(options: {
+  pullRequestNumber: number;
+  threadId: string;
+}): Promise<void> {
+  await runGraphqlMutation(
+    "mutation($threadId: ID!) { resolveReviewThread(input: {threadId: $threadId}) { thread { id } } }",
+    { threadId: options.threadId },
+  );
+}
+
+async function runGraphqlMutation(query: string, variables: Record<string, string>): Promise<void> {
+  const variableArgs = Object.entries(variables).flatMap(([key, value]) => [
+    "-f",
+    `${key}=${value}`,
+  ]);
+  await runCommandWithOutput("gh", ["api", "graphql", "-f", `query=${query}`, ...variableArgs], {
+    throwOnError: true,
+    cwd: process.cwd(),
+  });
 }
 
 function matchTargetUrl(target: string): { kind: WorkKind; number: string } | undefined {
@@ -0,0 +1,372 @@
+import type { Forge, ForgeComment } from "../forge/forge.ts";
+import type { IssueData, RepoInfo, ReviewThread, WorkKind } from "../types.ts";
+import { runCommandWithOutput } from "../utils/run.ts";
+
+const TARGETS_QUERY_LIMIT = 100;
+// `glab api` expands `:id` to the URL-encoded path of the project behind the current git remote.
+const CURRENT_PROJECT = "projects/:id";
+
+type GitLabNote = {
+  id: number;
+  body?: string;
+  system?: boolean;
+  author?: { username?: string };
+};
+
+type GitLabDiscussion = {
+  id: string;
+  notes: (GitLabNote & {
+    resolvable?: boolean;
+    resolved?: boolean;
+    position?: {
+      new_path?: string;
+      old_path?: string;
+      new_line?: number | null;
+    };
+  })[];
+};
+
+type GitLabIssueOrMergeRequest = {
+  iid: number;
+  title: string;
+  description?: string | null;
+  web_url: string;
+  source_branch?: string;
+};
+
+export const gitlabForge: Forge = {
+  kind: "gitlab",
+  getRepoInfo,
+  resolveTargetKind,
+  fetchIssueOrPullRequestData,
+  searchIssueNumbers,
+  findOpenPullRequestUrl,
+  createPullRequest,
+  replyToReviewThread,
+  resolveReviewThread,
+  closePullRequest,
+  markPullRequestAsDraft,
+  addPullRequestLabel,
+  listComments,
+  upsertComment,
+};
+
+async function getRepoInfo(): Promise<RepoInfo> {
+  const project = await glabApi<{ path_with_namespace: string; default_branch?: string }>(
+    [CURRENT_PROJECT],
+    "project",
+  );
+  return {
+    forge: "gitlab",
+    fullName: project.path_with_namespace,
+    defaultBranch: project.default_branch,
+  };
+}
+
+async function resolveTargetKind(target: string): Promise<{ kind: WorkKind; number: number }> {
+  const trimmed = target.trim();
+  if (!trimmed) {
+    throw new Error("Target cannot be empty.");
+  }
+
+  const urlMatch = matchTargetUrl(trimmed);
+  if (urlMatch) {
+    const number = Number(urlMatch.number);
+    if (!Number.isFinite(number) || number <= 0) {
+      throw new Error(`Invalid GitLab URL target: ${target}`);
+    }
+    return { kind: urlMatch.kind, number };
+  }
+
+  // GitLab references merge requests as !N and issues as #N.
+  const mergeRequestMatch = trimmed.match(/^!(\d+)$/);
+  if (mergeRequestMatch?.[1]) {
+    return { kind: "pr", number: Number(mergeRequestMatch[1]) };
+  }
+  const numberMatch = trimmed.match(/^#?(\d+)$/);
+  if (!numberMatch?.[1]) {
+    throw new Error(
+      `Invalid target "${target}". Provide an issue/MR number, !<MR number>, or GitLab URL.`,
+    );
+  }
+
+  const number = Number(numberMatch[1]);
+  for (const kind of ["issue", "pr"] as const) {
+    const result = await runCommandWithOutput("glab", ["api", getTargetPath(kind, number)], {
+      throwOnError: false,
+      cwd: process.cwd(),
+    });
+    if (result.exitCode === 0 && result.stdout.trim()) {
+      return { kind, number };
+    }
+  }
+  throw new Error(`No issue or MR found for #${number}.`);
+}
+
+async function fetchIssueOrPullRequestData(kind: WorkKind, number: number): Promise<IssueData> {
+  const targetPath = getTargetPath(kind, number);
+  const target = await glabApi<GitLabIssueOrMergeRequest>([targetPath], kind);
+  const notes = await glabApi<GitLabNote[]>(
+    ["--paginate", `${targetPath}/notes?sort=asc&order_by=created_at&per_page=100`],
+    `${kind} notes`,
+  );
+  return {
+    title: target.title,
+    body: target.description ?? "",
+    url: target.web_url,
+    // System notes record events such as label changes, not discussion.
+    comments: notes
+      .filter((note) => !note.system)
+      .map((note) => ({ author: note.author?.username, body: note.body })),
+    headBranch: target.source_branch,
+    reviewThreads: kind === "pr" ? await getReviewThreads(number) : undefined,
+    kind,
+    number,
+  };
+}
+
+// Inline review threads are the resolvable discussions anchored to a diff position.
+async function getReviewThreads(number: number): Promise<ReviewThread[]> {
+  const discussions = await glabApi<GitLabDiscussion[]>(
+    ["--paginate", `${getTargetPath("pr", number)}/discussions?per_page=100`],
+    "merge request discussions",
+  );
+  return discussions.flatMap((discussion) => {
+    const [first] = discussion.notes;
+    const path = first?.position?.new_path ?? first?.position?.old_path;
+    if (!first?.resolvable || !path) return [];
+    return [
+      {
+        id: discussion.id,
+        path,
+        line: first.position?.new_line ?? undefined,
+        isResolved: Boolean(first.resolved),
+        comments: discussion.notes.map((note) => ({
+          author: note.author?.username,
+          body: note.body,
+        })),
+      },
+    ];
+  });
+}
+
+async function replyToReviewThread(options: {
+  pullRequestNumber: number;
+  threadId: string;
+  body: string;
+}): Promise<void> {
+  await glabApi<GitLabNote>(
+    [
+      "--method",
+      "POST",
+      `${getTargetPath("pr", options.pullRequestNumber)}/discussions/${options.threadId}/notes`,
+      "-f",
+      `body=${options.body}`,
+    ],
+    "discussion reply",
+  );
+}
+
+async function resolveReviewThread(options: {
+  pullRequestNumber: number;
+  threadId: string;
+}): Promise<void> {
+  await glabApi<GitLabDiscussion>(
+    [
+      "--method",
+      "PUT",
+      `${getTargetPath("pr", options.pullRequestNumber)}/discussions/${options.threadId}?resolved=true`,
+    ],
+    "resolved discussion",
+  );
+}
+
+async function closePullRequest(options: {
+  pullRequestUrl: string;
+  comment: string;
+}): Promise<void> {
+  const targetPath = getMergeRequestPath(options.pullRequestUrl);
+  await glabApi<GitLabNote>(
+    ["--method", "POST", `${targetPath}/notes`, "-f", `body=${options.comment}`],
+    "created note",
+  );
+  await glabApi<GitLabIssueOrMergeRequest>(
+    ["--method", "PUT", targetPath, "-f", "state_event=close"],
+    "closed merge request",
+  );
+}
+
+// GitLab has no draft toggle in the API; a "Draft:" title prefix marks the merge request as draft.
+async function markPullRequestAsDraft(options: { pullRequestUrl: string }): Promise<void> {
+  const targetPath = getMergeRequestPath(options.pullRequestUrl);
+  const mergeRequest = await glabApi<GitLabIssueOrMergeRequest>([targetPath], "merge request");
+  if (/^\s*(?:\[draft\]|\(draft\)|draft:)/i.test(mergeRequest.title)) return;
+  await glabApi<GitLabIssueOrMergeRequest>(
+    ["--method", "PUT", targetPath, "-f", `title=Draft: ${mergeRequest.title}`],
+    "draft merge request",
+  );
+}
+
+// GitLab creates missing labels on the fly.
+async function addPullRequestLabel(options: {
+  pullRequestUrl: string;
+  label: string;
+}): Promise<void> {
+  await glabApi<GitLabIssueOrMergeRequest>(
+    [
+      "--method",
+      "PUT",
+      getMergeRequestPath(options.pullRequestUrl),
+      "-f",
+      `add_labels=${options.label}`,
+    ],
+    "labeled merge request",
+  );
+}
+
+/**
+ * `query` is an issues API query string (e.g. `labels=agent-ready&state=opened`);
+ * plain text is treated as a full-text search over open issues.
+ */
+async function searchIssueNumbers(query: string): Promise<number[]> {
+  const params = new URLSearchParams(
+    query.includes("=") ? query : { search: query, state: "opened" },
+  );
+  params.set("per_page", String(TARGETS_QUERY_LIMIT));
+  const issues = await glabApi<{ iid: number }[]>(
+    [`${CURRENT_PROJECT}/issues?${params.toString()}`],
+    "issue search",
+  );
+  return issues.map((issue) => issue.iid).sort((a, b) => a - b);
+}
+
+async function findOpenPullRequestUrl(headBranch: string): Promise<string | undefined> {
+  const params = new URLSearchParams({ source_branch: headBranch, state: "opened" });
+  const result = await runCommandWithOutput(
+    "glab",
+    ["api", `${CURRENT_PROJECT}/merge_requests?${params.toString()}`],
+    { throwOnError: false, cwd: process.cwd() },
+  );
+  if (result.exitCode !== 0 || !result.stdout.trim()) return undefined;
+  const mergeRequests = parseGlabApiJson<{ web_url?: string }[]>(
+    result.stdout,
+    "merge request list",
+  );
+  return mergeRequests[0]?.web_url;
+}
+
+async function createPullRequest(options: {
+  baseBranch: string;
+  headBranch: string;
+  title: string;
+  bodyPath: string;
+  cwd: string;
+}): Promise<string | undefined> {
+  const result = await runCommandWithOutput(
+    "glab",
+    [
+      "api",
+      "--method",
+      "POST",
+      `${CURRENT_PROJECT}/merge_requests`,
+      "-f",
+      `source_branch=${options.headBranch}`,
+      "-f",
+      `target_branch=${options.baseBranch}`,
+      "-f",
+      `title=${options.title}`,
+      "-F",
+      `description=@${options.bodyPath}`,
+    ],
+    { throwOnError: true, cwd: options.cwd },
+  );
+  const created = parseGlabApiJson<{ web_url?: string }>(result.stdout, "created merge request");
+  return created.web_url;
+}
+
+async function listComments(options: {
+  repo: string;
+  kind: WorkKind;
+  targetNumber: number;
+}): Promise<ForgeComment[]> {
+  const notes = await glabApi<GitLabNote[]>(
+    ["--paginate", `${getNotesPath(options)}?sort=asc&order_by=created_at&per_page=100`],
+    `${options.kind} notes`,
+  );
+  // System notes record events such as label changes, not discussion.
+  return notes.flatMap((note) =>
+    note.system ? [] : [{ id: note.id, author: note.author?.username, body: note.body ?? "" }],
+  );
+}
+
+async function upsertComment(options: {
+  repo: string;
+  kind: WorkKind;
+  targetNumber: number;
+  body: string;
+  marker: string;
+}): Promise<{ action: "created" | "updated"; htmlUrl?: string }> {
+  const { body, marker } = options;
+  const notesPath = getNotesPath(options);
+  const notes = await listComments(options);
+  const existing = notes.find((note) => note.body.includes(marker));
+
+  if (existing) {
+    await glabApi<GitLabNote>(
+      ["--method", "PUT", `${notesPath}/${existing.id}`, "-f", `body=${body}`],
+      "updated note",
+    );
+    return { action: "updated" };
+  }
+  await glabApi<GitLabNote>(["--method", "POST", notesPath, "-f", `body=${body}`], "created note");
+  return { action: "created" };
+}
+
+function getNotesPath(options: { repo: string; kind: WorkKind; targetNumber: number }): string {
+  const collection = options.kind === "pr" ? "merge_requests" : "issues";
+  return `projects/${encodeURIComponent(options.repo)}/${collection}/${options.targetNumber}/notes`;
+}
+
+function getTargetPath(kind: WorkKind, number: number): string {
+  return `${CURRENT_PROJECT}/${kind === "pr" ? "merge_requests" : "issues"}/${number}`;
+}
+
+function getMergeRequestPath(pullRequestUrl: string): string {
+  const match = matchTargetUrl(pullRequestUrl);
+  if (match?.kind !== "pr") {
+    throw new Error(`Not a GitLab merge request URL: ${pullRequestUrl}`);
+  }
+  return getTargetPath("pr", Number(match.number));
+}
+
+function matchTargetUrl(target: string): { kind: WorkKind; number: string } | undefined {
+  const mergeRequestMatch = target.match(/\/-\/merge_requests\/(\d+)/);
+  if (mergeRequestMatch?.[1]) {
+    return { kind: "pr", number: mergeRequestMatch[1] };
+  }
+  const issueMatch = target.match(/\/-\/(?:issues|work_items)\/(\d+)/);
+  if (issueMatch?.[1]) {
+    return { kind: "issue", number: issueMatch[1] };
+  }
+  return undefined;
+}
+
+async function glabApi<T>(args: string[], context: string): Promise<T> {
+  const result = await runCommandWithOutput("glab", ["api", ...args], {
+    throwOnError: true,
+    cwd: process.cwd(),
+  });
+  return parseGlabApiJson<T>(result.stdout, context);
+}
+
+function parseGlabApiJson<T>(output: string, context: string): T {
+  if (!output.trim()) {
+    throw new Error(`Empty response from glab api for ${context}.`);
+  }
+  try {
+    return JSON.parse(output) as T;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to parse glab api ${context} response: ${message}`);
+  }
+}
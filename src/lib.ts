@@ -1,16 +1,78 @@
-export type { AgentTool, IssueData } from "./types.ts";
+export type { AgentTool, AgentUsage, IssueData, ReviewThread, RunEvent } from "./types.ts";
 export { Logger, logger } from "./utils/logger.ts";
-export { createPullRequest, ensureCommitAndPushChanges } from "./git/git.ts";
 export {
+  createPullRequest,
+  ensureCommitAndPushChanges,
+  getHeadCommit,
+  getPullRequestUrlForBranch,
+} from "./git/git.ts";
+export {
+  fetchFailedChecks,
+  getPullRequestChecks,
+  postPullRequestReview,
+  replyToReviewComment,
+  waitForPullRequestChecks,
+} from "./github/gh.ts";
+export type { CheckRun, FailedCheck, PostedReviewComment, ReviewComment } from "./github/gh.ts";
+export {
+  buildCiFixPrompt,
   buildImplementationPrompt,
   buildPlanPrompt,
   buildRefactoringPrompt,
   buildReviewPrompt,
   buildReviewResolutionPrompt,
+  buildReviewThreadsPrompt,
   buildTestFixPrompt,
+  prependRejectionFeedback,
   RESULT_DELIVERY_INSTRUCTION,
+  reviewCommentSchema,
+  reviewResponseSchema,
+  reviewThreadResponseSchema,
 } from "./agent/prompt.ts";
+export { respondToReviewThreads } from "./forge/forge.ts";
+export {
+  buildReviewThreadReplies,
+  deferReviewThreadResponses,
+  getOpenReviewThreads,
+} from "./forge/reviewThreads.ts";
+export type { ReviewThreadResponse } from "./forge/reviewThreads.ts";
 export { buildPullRequestBody } from "./github/pullRequest.ts";
 export { runCommandWithOutput, setCommandConcurrency } from "./utils/run.ts";
 export { runNonInteractiveAgent, runNonInteractiveAgents } from "./agent/workflowRunner.ts";
+export type { AgentAttemptOptions } from "./agent/workflowRunner.ts";
 export { applyTemporaryAgentInstructions } from "./agent/instructionOverride.ts";
+export { runReportSchema } from "./report/runReport.ts";
+export type {
+  AgentCallReport,
+  ComparisonReport,
+  RunReport,
+  TargetReport,
+  WorkflowRunReport,
+} from "./report/runReport.ts";
+export { defineWorkflow } from "./workflow/defineWorkflow.ts";
+export type {
+  StepContext,
+  StepOptions,
+  WorkflowState,
+  WorkflowStep,
+} from "./workflow/defineWorkflow.ts";
+export type {
+  DefinedWorkflow,
+  WorkflowContext,
+  WorkflowFunction,
+  WorkflowModule,
+} from "./workflow/workflowModule.ts";
+export {
+  approveStep,
+  createPullRequestStep,
+  implementStep,
+  planStep,
+  refactorStep,
+  reviewLoopStep,
+  testFixLoopStep,
+} from "./workflow/steps.ts";
+export type { ReviewerComments } from "./workflow/steps.ts";
+export { terminalApprover } from "./workflow/approval.ts";
+export { createCommentApprover } from "./workflow/commentApprover.ts";
+export type { CommentApprovalOptions } from "./workflow/commentApprover.ts";
+export type { ApprovalDecision, ApprovalRequest, Approver } from "./workflow/approval.ts";
@@ -0,0 +1,310 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+import { formatAgentUsage } from "../agent/agentUsage.ts";
+import { getBranchDiff } from "../git/git.ts";
+import type { RecordedRunEvent } from "../types.ts";
+import { getErrorMessage } from "../utils/error.ts";
+import { stripAnsi } from "../utils/redact.ts";
+import {
+  type ComparisonReport,
+  readRunReport,
+  type RunReport,
+  type TargetReport,
+  type WorkflowRunReport,
+} from "./runReport.ts";
+
+const HTML_REPORT_FILENAME = "report.html";
+const EVENTS_FILENAME = "events.jsonl";
+
+export type HtmlReportInput = {
+  report: RunReport;
+  events: RecordedRunEvent[];
+  /** Contents of each workflow log, keyed by its `logPath`. */
+  logs: Map<string, string>;
+  /** Each branch's changes against its base, keyed by branch name; absent when unknown. */
+  diffs: Map<string, string>;
+};
+
+/**
+ * Renders the finished run in `logDir` into a self-contained `report.html` next to its
+ * `run-report.json` and returns its path. Diffs are taken from the branches in `cwd`.
+ */
+export async function writeHtmlReport(logDir: string, cwd: string): Promise<string> {
+  const report = readRunReport(logDir);
+  const events = readRunEvents(join(logDir, EVENTS_FILENAME));
+  const runs = report.targets.flatMap((target) => target.runs);
+  const logs = new Map(
+    runs.flatMap((run) =>
+      existsSync(run.logPath) ? [[run.logPath, readFileSync(run.logPath, "utf8")] as const] : [],
+    ),
+  );
+  const diffs = new Map<string, string>();
+  for (const { branchName } of runs) {
+    if (!branchName) continue;
+    const worktreeEvent = events.find(
+      (event) => event.type === "worktree_created" && event.branchName === branchName,
+    );
+    if (worktreeEvent?.type !== "worktree_created") continue;
+    try {
+      diffs.set(branchName, await getBranchDiff(cwd, worktreeEvent.baseBranch, branchName));
+    } catch (error) {
+      diffs.set(branchName, `Diff unavailable: ${getErrorMessage(error)}`);
+    }
+  }
+
+  const path = join(logDir, HTML_REPORT_FILENAME);
+  writeFileSync(path, renderHtmlReport({ report, events, logs, diffs }), "utf8");
+  return path;
+}
+
+/** Skips lines that cannot be parsed, e.g. one cut short when the run was killed. */
+export function readRunEvents(path: string): RecordedRunEvent[] {
+  if (!existsSync(path)) return [];
+  return readFileSync(path, "utf8")
+    .split("\n")
+    .flatMap((line) => {
+      if (!line.trim()) return [];
+      try {
+        return [JSON.parse(line) as RecordedRunEvent];
+      } catch {
+        return [];
+      }
+    });
+}
+
+export function renderHtmlReport(input: HtmlReportInput): string {
+  const { report } = input;
+  const summary = renderDefinitionList([
+    ["Command", `<code>${escapeHtml(["o-agents", ...report.argv].join(" "))}</code>`],
+    ["Started", escapeHtml(report.startedAt)],
+    ["Duration", formatDuration(report.durationMs)],
+    ["Exit code", renderExitCode(report.exitCode)],
+    ["Error", report.error ? escapeHtml(report.error) : undefined],
+  ]);
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>o-agents run ${escapeHtml(report.runTimestamp)}</title>
+<style>${REPORT_CSS}</style>
+</head>
+<body>
+<h1>o-agents run ${escapeHtml(report.runTimestamp)}</h1>
+${summary}
+${report.targets.map((target) => renderTarget(target, input)).join("\n")}
+</body>
+</html>
+`;
+}
+
+function renderTarget(target: TargetReport, input: HtmlReportInput): string {
+  const label = target.targetLabel ?? target.target;
+  const rows = target.runs.map((run, index) =>
+    renderTableRow([
+      `<a href="#${escapeHtml(getRunAnchor(label, run, index))}">${escapeHtml(`${run.kind}-${index + 1}`)}</a>`,
+      escapeHtml(run.tool),
+      escapeHtml(run.branchName ?? "N/A"),
+      renderLink(run.pullRequestUrl),
+      formatDuration(run.durationMs),
+      renderExitCode(run.exitCode),
+      escapeHtml(formatAgentUsage(run.usage)),
+    ]),
+  );
+  return `<section>
+<h2>${escapeHtml(label)} ${renderExitCode(target.exitCode)}</h2>
+${target.error ? `<p class="error">${escapeHtml(target.error)}</p>` : ""}
+${target.comparison ? renderComparison(target.comparison) : ""}
+<table>
+<tr><th>Run</th><th>Agent</th><th>Branch</th><th>PR</th><th>Duration</th><th>Exit</th><th>Usage</th></tr>
+${rows.join("\n")}
+</table>
+${target.runs.map((run, index) => renderRun(label, run, index, input)).join("\n")}
+</section>`;
+}
+
+function renderComparison(comparison: ComparisonReport): string {
+  const votes = (comparison.votes ?? []).map(
+    (vote) =>
+      `<li><strong>${escapeHtml(vote.judge)}</strong> picked ${renderLink(vote.bestPrUrl)}: ${escapeHtml(vote.reason)}${vote.error ? ` (failed: ${escapeHtml(vote.error)})` : ""}</li>`,
+  );
+  const losers = (comparison.losers ?? []).map(
+    (loser) =>
+      `<li>${renderLink(loser.pullRequestUrl)}: ${escapeHtml(loser.action)}${loser.error ? ` (failed: ${escapeHtml(loser.error)})` : ""}</li>`,
+  );
+  return `<h3>Comparison</h3>
+${renderDefinitionList([
+  ["Status", escapeHtml(comparison.status)],
+  ["Winner", comparison.bestPrUrl ? renderLink(comparison.bestPrUrl) : undefined],
+  [
+    "Reason",
+    comparison.reason ? `<p class="text">${escapeHtml(comparison.reason)}</p>` : undefined,
+  ],
+  ["Votes", votes.length > 0 ? `<ul>${votes.join("")}</ul>` : undefined],
+  ["Losing PRs", losers.length > 0 ? `<ul>${losers.join("")}</ul>` : undefined],
+  ["Comment", comparison.commentUrl ? renderLink(comparison.commentUrl) : undefined],
+  ["Error", comparison.error ? escapeHtml(comparison.error) : undefined],
+])}`;
+}
+
+function renderRun(
+  label: string,
+  run: WorkflowRunReport,
+  index: number,
+  input: HtmlReportInput,
+): string {
+  const runLabel = `${run.kind}-${index + 1}`;
+  const events = input.events.filter(
+    (event) =>
+      event.mainPrefix === `[${label}] [${runLabel}]` || event.mainPrefix === `[${runLabel}]`,
+  );
+  const startedAt = Date.parse(run.startedAt);
+  const timeline = events.flatMap((event) => {
+    const description = describeEvent(event);
+    if (!description) return [];
+    const offset = formatDuration(Date.parse(event.time) - startedAt);
+    return [renderTableRow([`+${offset}`, description])];
+  });
+  const diff = run.branchName ? input.diffs.get(run.branchName) : undefined;
+  const log = input.logs.get(run.logPath);
+  return `<section class="run" id="${escapeHtml(getRunAnchor(label, run, index))}">
+<h3>${escapeHtml(`${runLabel} · ${run.tool}`)} ${renderExitCode(run.exitCode)}</h3>
+${renderDefinitionList([
+  ["Workflow", escapeHtml(run.workflowPath)],
+  ["Agent version", run.agentVersion ? escapeHtml(run.agentVersion) : undefined],
+  ["Branch", run.branchName ? escapeHtml(run.branchName) : undefined],
+  ["PR", run.pullRequestUrl ? renderLink(run.pullRequestUrl) : undefined],
+  ["Duration", formatDuration(run.durationMs)],
+  ["Usage", escapeHtml(formatAgentUsage(run.usage))],
+  ["Error", run.error ? escapeHtml(run.error) : undefined],
+])}
+<h4>Timeline</h4>
+${timeline.length > 0 ? `<table>${timeline.join("\n")}</table>` : "<p>No events were recorded.</p>"}
+${diff === undefined ? "" : renderCollapsible("Diff against the base branch", renderDiff(diff))}
+${log === undefined ? "" : renderCollapsible("Workflow output", `<pre>${escapeHtml(stripAnsi(log))}</pre>`)}
+</section>`;
+}
+
+function describeEvent(event: RecordedRunEvent): string | undefined {
+  switch (event.type) {
+    case "workflow_started":
+      return `Started workflow <code>${escapeHtml(event.workflow)}</code> with ${escapeHtml(event.tool)}`;
+    case "worktree_created":
+      return `Created branch <code>${escapeHtml(event.branchName)}</code> from <code>${escapeHtml(event.baseBranch)}</code>`;
+    case "step_started":
+      return `Started step <strong>${escapeHtml(event.step)}</strong>`;
+    case "step_finished":
+      return `Finished step <strong>${escapeHtml(event.step)}</strong> in ${formatDuration(event.durationMs)} ${renderExitCode(event.exitCode)}`;
+    case "command_spawned":
+      return `Ran <code>${escapeHtml([event.command, ...event.args].join(" "))}</code>`;
+    case "command_exited":
+      // Successful commands are already listed when they were spawned.
+      if (event.exitCode === 0) return undefined;
+      return event.exitCode === null
+        ? `Command was terminated after ${formatDuration(event.durationMs)}`
+        : `Command failed after ${formatDuration(event.durationMs)} ${renderExitCode(event.exitCode)}`;
+    case "agent_prompt_sent":
+      return renderCollapsible(
+        `Prompted ${escapeHtml(event.tool)}`,
+        `<pre>${escapeHtml(event.prompt)}</pre>`,
+      );
+    case "agent_result_received":
+      return renderCollapsible(
+        `${escapeHtml(event.tool)} answered after ${formatDuration(event.durationMs)}`,
+        `<pre>${escapeHtml(formatResult(event.result))}</pre>`,
+      );
+    case "commit_pushed":
+      return `Pushed <code>${escapeHtml(event.commit.slice(0, 12))}</code> ${escapeHtml(event.message)}`;
+    case "pull_request_created":
+      return `Opened ${renderLink(event.url)}`;
+    case "workflow_finished":
+      return `Finished workflow ${renderExitCode(event.exitCode)}`;
+    default:
+      return undefined;
+  }
+}
+
+function renderDiff(diff: string): string {
+  if (!diff.trim()) return "<p>No changes.</p>";
+  const lines = diff.split("\n").map((line) => {
+    const className =
+      line.startsWith("+") && !line.startsWith("+++")
+        ? "added"
+        : line.startsWith("-") && !line.startsWith("---")
+          ? "removed"
+          : line.startsWith("@@")
+            ? "hunk"
+            : undefined;
+    return className ? `<span class="${className}">${escapeHtml(line)}</span>` : escapeHtml(line);
+  });
+  return `<pre class="diff">${lines.join("\n")}</pre>`;
+}
+
+function renderCollapsible(summary: string, content: string): string {
+  return `<details><summary>${summary}</summary>${content}</details>`;
+}
+
+function renderDefinitionList(entries: [string, string | undefined][]): string {
+  const items = entries.flatMap(([term, value]) =>
+    value === undefined ? [] : [`<dt>${escapeHtml(term)}</dt><dd>${value}</dd>`],
+  );
+  return `<dl>${items.join("")}</dl>`;
+}
+
+function renderTableRow(cells: string[]): string {
+  return `<tr>${cells.map((cell) => `<td>${cell}</td>`).join("")}</tr>`;
+}
+
+function renderExitCode(exitCode: number): string {
+  const className = exitCode === 0 ? "ok" : "failed";
+  return `<span class="badge ${className}">exit ${exitCode}</span>`;
+}
+
+function renderLink(url: string | undefined): string {
+  if (!url) return "N/A";
+  if (!/^https?:\/\//.test(url)) return escapeHtml(url);
+  return `<a href="${escapeHtml(url)}">${escapeHtml(url)}</a>`;
+}
+
+function getRunAnchor(label: string, run: WorkflowRunReport, index: number): string {
+  return `${label}-${run.kind}-${index + 1}`;
+}
+
+function formatResult(result: unknown): string {
+  return typeof result === "string" ? result : JSON.stringify(result, null, 2);
+}
+
+function formatDuration(durationMs: number): string {
+  const seconds = Math.max(0, Math.round(durationMs / 1000));
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${String(seconds % 60).padStart(2, "0")}s` : `${seconds}s`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;");
+}
+
+const REPORT_CSS = `
+  body { max-width: 1100px; margin: 24px auto; padding: 0 16px; font: 14px system-ui, sans-serif; color: #1f2328; }
+  section { margin-top: 24px; }
+  section.run { padding: 8px 16px; border: 1px solid #d0d7de; border-radius: 6px; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; }
+  dt { font-weight: 600; }
+  dd { margin: 0; }
+  table { border-collapse: collapse; width: 100%; }
+  td, th { padding: 4px 8px; border-bottom: 1px solid #d0d7de; text-align: left; vertical-align: top; }
+  pre { max-height: 600px; overflow: auto; padding: 8px; background: #f6f8fa; font-size: 12px; white-space: pre-wrap; word-break: break-all; }
+  details { margin: 8px 0; }
+  summary { cursor: pointer; }
+  .text { margin: 0; white-space: pre-wrap; }
+  .badge { padding: 0 8px; border-radius: 10px; font-size: 12px; font-weight: normal; }
+  .ok { background: #dafbe1; }
+  .failed, .error { background: #ffebe9; }
+  .diff .added { color: #116329; }
+  .diff .removed { color: #82071e; }
+  .diff .hunk { color: #0550ae; }
+`;
@@ -0,0 +1,142 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { z } from "zod";
+
+const RUN_REPORT_FILENAME = "run-report.json";
+
+const agentUsageReportSchema = z.object({
+  inputTokens: z.number().optional(),
+  outputTokens: z.number().optional(),
+  totalTokens: z.number().optional(),
+  costUsd: z.number().optional(),
+});
+
+const agentCallReportSchema = z.object({
+  requestedTool: z.string(),
+  /** The agent that produced the result; differs from `requestedTool` when a fallback answered. */
+  tool: z.string().optional(),
+  status: z.enum(["succeeded", "replayed", "failed"]),
+  startedAt: z.string(),
+  durationMs: z.number(),
+  usage: agentUsageReportSchema.optional(),
+  error: z.string().optional(),
+});
+
+const workflowRunReportSchema = z.object({
+  kind: z.enum(["main", "compare"]),
+  tool: z.string(),
+  agentVersion: z.string().optional(),
+  workflowPath: z.string(),
+  logPath: z.string(),
+  branchName: z.string().optional(),
+  pullRequestUrl: z.string().optional(),
+  worktreePath: z.string().optional(),
+  startedAt: z.string(),
+  durationMs: z.number(),
+  exitCode: z.number().int(),
+  error: z.string().optional(),
+  /** Sum of the usage its agents reported; absent when none of them reports usage. */
+  usage: agentUsageReportSchema.optional(),
+  agentCalls: z.array(agentCallReportSchema),
+});
+
+const pullRequestMetricsReportSchema = z.object({
+  pullRequestUrl: z.string(),
+  filesChanged: z.number().int(),
+  linesAdded: z.number().int(),
+  linesRemoved: z.number().int(),
+  /** Exit code of the workflow's own last test run, if it ran tests. */
+  testExitCode: z.number().int().optional(),
+  /** Exit code of each command configured in `[metrics]`, keyed by name. */
+  commands: z.record(z.string(), z.number().int()),
+});
+
+const loserReportSchema = z.object({
+  pullRequestUrl: z.string(),
+  action: z.enum(["close", "draft", "label"]),
+  branchDeleted: z.boolean().optional(),
+  error: z.string().optional(),
+});
+
+const comparisonReportSchema = z.object({
+  status: z.enum(["skipped", "completed", "failed"]),
+  bestPrUrl: z.string().optional(),
+  reason: z.string().optional(),
+  /** Each judge's pick, in `--judges` order. */
+  votes: z
+    .array(
+      z.object({
+        judge: z.string(),
+        bestPrUrl: z.string(),
+        reason: z.string(),
+        /** Set when the judge failed and abstained. */
+        error: z.string().optional(),
+      }),
+    )
+    .optional(),
+  metrics: z.array(pullRequestMetricsReportSchema).optional(),
+  /** What `--losers` did to each PR that was not selected. */
+  losers: z.array(loserReportSchema).optional(),
+  commentUrl: z.string().optional(),
+  error: z.string().optional(),
+});
+
+const targetReportSchema = z.object({
+  target: z.string(),
+  targetLabel: z.string().optional(),
+  logPath: z.string().optional(),
+  exitCode: z.number().int(),
+  error: z.string().optional(),
+  runs: z.array(workflowRunReportSchema),
+  comparison: comparisonReportSchema.optional(),
+});
+
+/** Schema of `run-report.json`, exported so that dashboards can validate what they ingest. */
+export const runReportSchema = z.object({
+  version: z.literal(1),
+  runTimestamp: z.string(),
+  argv: z.array(z.string()),
+  startedAt: z.string(),
+  finishedAt: z.string(),
+  durationMs: z.number(),
+  exitCode: z.number().int(),
+  error: z.string().optional(),
+  targets: z.array(targetReportSchema),
+});
+
+export type RunReport = z.infer<typeof runReportSchema>;
+export type TargetReport = z.infer<typeof targetReportSchema>;
+export type WorkflowRunReport = z.infer<typeof workflowRunReportSchema>;
+export type ComparisonReport = z.infer<typeof comparisonReportSchema>;
+export type AgentCallReport = z.infer<typeof agentCallReportSchema>;
+export type LoserReport = z.infer<typeof loserReportSchema>;
+
+/**
+ * Writes the report into the run's log directory and, if given, to `extraPath` as well.
+ * Returns the paths written.
+ */
+export function writeRunReport(
+  logDir: string,
+  report: RunReport,
+  extraPath: string | undefined,
+): string[] {
+  const contents = `${JSON.stringify(report, null, 2)}\n`;
+  const paths = [getRunReportPath(logDir), ...(extraPath ? [extraPath] : [])];
+  for (const path of paths) {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, contents, "utf8");
+  }
+  return paths;
+}
+
+export function readRunReport(logDir: string): RunReport {
+  const path = getRunReportPath(logDir);
+  if (!existsSync(path)) {
+    throw new Error(`No run report found at ${path}. Reports are written when a run finishes.`);
+  }
+  return runReportSchema.parse(JSON.parse(readFileSync(path, "utf8")));
+}
+
+export function getRunReportPath(logDir: string): string {
+  return join(logDir, RUN_REPORT_FILENAME);
+}
@@ -6,32 +6,110 @@ export type WorkflowSpec = {
   params?: string;
 };
 
+export type ForgeKind = "github" | "gitlab";
+
+export type SandboxKind = "bwrap" | "docker" | "podman";
+
+/** An issue or pull/merge request, in the same shape for every forge. */
 export type IssueData = {
   title: string;
   body: string;
   url: string;
   comments: {
-    author?: { login?: string };
+    /** Username of the comment author. */
+    author?: string;
     body?: string;
   }[];
-  headRefName?: string;
+  /** Source branch; only set for pull/merge requests. */
+  headBranch?: string;
+  /** Inline review threads; only set for pull/merge requests. */
+  reviewThreads?: ReviewThread[];
   number?: number;
   kind?: WorkKind;
   repo?: RepoInfo;
 };
 
+export type ReviewThread = {
+  /** Forge-specific thread id used to reply to or resolve the thread. */
+  id: string;
+  path: string;
+  /** Line in the current diff; undefined when the thread is outdated. */
+  line?: number;
+  diffHunk?: string;
+  isResolved: boolean;
+  comments: {
+    author?: string;
+    body?: string;
+  }[];
+};
+
 export type RepoInfo = {
-  nameWithOwner: string;
-  defaultBranchRef?: { name?: string };
+  forge: ForgeKind;
+  /** `owner/repo` on GitHub, `group/subgroup/project` on GitLab. */
+  fullName: string;
+  defaultBranch?: string;
 };
 
+/**
+ * An entry of a run's `events.jsonl`. Each line also carries `time` and the `mainPrefix`
+ * (e.g. `[main-1]`) and `prefix` (e.g. `[3]`) of the log context it was emitted in.
+ */
+export type RunEvent =
+  | { type: "run_started"; runTimestamp: string; argv: string[]; resumed: boolean }
+  | { type: "run_finished"; exitCode: number; durationMs: number }
+  | { type: "workflow_started"; target: string; tool: AgentTool; workflow: string }
+  | { type: "workflow_finished"; exitCode: number; durationMs: number; pullRequestUrl?: string }
+  | { type: "worktree_created"; branchName: string; worktreePath: string; baseBranch: string }
+  | { type: "step_started"; step: string }
+  | { type: "step_finished"; step: string; exitCode: number; durationMs: number }
+  | { type: "command_spawned"; commandId: string; command: string; args: string[] }
+  | { type: "command_exited"; commandId: string; exitCode: number | null; durationMs: number }
+  | { type: "agent_prompt_sent"; tool: AgentTool; prompt: string }
+  | { type: "agent_result_received"; tool: AgentTool; durationMs: number; result: unknown }
+  | { type: "commit_pushed"; cwd: string; commit: string; message: string }
+  | { type: "pull_request_created"; url: string; baseBranch: string; headBranch: string }
+  | { type: "comparison_done"; bestPrUrl: string; reason: string; candidates: string[] };
+
+/** A `RunEvent` as read back from `events.jsonl`. */
+export type RecordedRunEvent = RunEvent & { time: string; mainPrefix?: string; prefix?: string };
+
+/** Objective signals collected from a worktree before its PR is compared with others. */
+export type WorktreeMetrics = {
+  filesChanged: number;
+  linesAdded: number;
+  linesRemoved: number;
+  /** Exit code of the last test run of the workflow itself; undefined if it ran no tests. */
+  testExitCode?: number;
+  /** Exit code of each command configured in `[metrics]`, keyed by name; 0 means it passed. */
+  commands: Record<string, number>;
+};
+
+export type LoserAction = "close" | "draft" | "label";
+
 export type ParsedArgs = {
-  target: string;
+  target?: string;
+  targets?: string[];
+  targetsQuery?: string;
   main: WorkflowSpec;
   compare?: WorkflowSpec[];
+  /** Agents that vote on the best PR after a comparison run; the main agent when absent. */
+  judges?: AgentTool[];
+  /** What to do with the PRs that lose a comparison; they are left alone when absent. */
+  loserAction?: LoserAction;
+  /** Deletes the remote branches of closed losing PRs. */
+  deleteLoserBranches: boolean;
   concurrency: number;
   commandConcurrency?: number;
   initCommand: string;
+  dryRun: boolean;
+  /** Extra path to write the machine-readable run report to. */
+  reportPath?: string;
+  /** Aborts a workflow run once the cost reported by its agents exceeds this many USD. */
+  budgetUsd?: number;
+  /** Accepts every result of `approveStep` without asking the operator. */
+  autoApprove: boolean;
+  /** Port of the live dashboard; 0 picks a free one. No dashboard is served when absent. */
+  uiPort?: number;
 };
 
 export type RunOptions = {
@@ -47,8 +125,22 @@ export type RunOptions = {
 export type AgentRunOptions = RunOptions & {
   agentGracePeriodMs: number;
   inactivityTimeoutMs?: number;
+  timeoutMs?: number;
+  /** Parses token/cost figures from the agent's output once the process has exited. */
+  usageExtractor?: AgentUsageExtractor;
+  onUsage?: (usage: AgentUsage) => void;
 };
 
+/** Token and cost figures an agent reports; each is absent when the agent does not print it. */
+export type AgentUsage = {
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+  costUsd?: number;
+};
+
+export type AgentUsageExtractor = (output: string) => AgentUsage | undefined;
+
 export type TerminationPlan = {
   mode: "mock" | "real";
   platform: NodeJS.Platform;
@@ -1,6 +1,9 @@
 import { appendFileSync } from "node:fs";
 import { AsyncLocalStorage } from "node:async_hooks";
 
+import type { RecordedRunEvent, RunEvent } from "../types.ts";
+import { createSecretRedactor, type RedactionOptions, splitTrailingToken } from "./redact.ts";
+
 export type LogContext = {
   extraLogPaths?: string[];
   mainPrefix?: string;
@@ -8,48 +11,64 @@ export type LogContext = {
   logPath?: string;
 };
 
+/** What `subscribe` listeners receive; output and events are already redacted. */
+export type LogRecord =
+  | {
+      kind: "output";
+      /** Prefixed with `context.prefix` but not `context.mainPrefix`. */
+      text: string;
+      isError: boolean;
+      context: LogContext;
+    }
+  | { kind: "event"; event: RecordedRunEvent; context: LogContext };
+
+// Shared by writes outside any context, so that their held-back tokens are found again.
+const ROOT_CONTEXT: LogContext = {};
+
 export class Logger {
   logPath?: string;
+  /** Where `event` appends JSON lines; events are dropped while unset. */
+  eventsPath?: string;
   private extraLogPaths = new Set<string>();
   private context = new AsyncLocalStorage<LogContext>();
+  private redact = createSecretRedactor();
+  /** Trailing tokens of streamed chunks, held back until the next chunk shows where they end. */
+  private pendingChunks = new Map<LogContext, { stdout: string; stderr: string }>();
+  private listeners = new Set<(record: LogRecord) => void>();
 
   constructor(logPath?: string) {
     this.logPath = logPath;
   }
 
+  /** Masks `options` secrets in addition to the built-in ones from now on. */
+  configureRedaction(options: RedactionOptions): void {
+    this.redact = createSecretRedactor(options);
+  }
+
   info(message: string, options: { console?: boolean } = {}): void {
-    const rawLine = normalizeLine(message);
+    const rawLine = normalizeLine(this.redact(message));
     const context = this.getContext();
     const baseLine = applyPrefixToText(rawLine, context.prefix);
     const mainLine = applyPrefixToText(rawLine, mergePrefixes(context.mainPrefix, context.prefix));
     if (options.console !== false) {
       process.stdout.write(mainLine);
+      this.notify({ kind: "output", text: baseLine, isError: false, context });
     }
     this.appendToFile({ mainLine, baseLine, rawLine, context });
   }
 
   error(message: string): void {
-    const rawLine = normalizeLine(message);
+    const rawLine = normalizeLine(this.redact(message));
     const context = this.getContext();
     const baseLine = applyPrefixToText(rawLine, context.prefix);
     const mainLine = applyPrefixToText(rawLine, mergePrefixes(context.mainPrefix, context.prefix));
     process.stderr.write(mainLine);
     this.appendToFile({ mainLine, baseLine, rawLine, context });
+    this.notify({ kind: "output", text: baseLine, isError: true, context });
   }
 
   writeChunk(chunk: string, streamToConsole: boolean, isError: boolean): void {
-    if (!chunk) return;
-    const context = this.getContext();
-    const baseText = applyPrefixToText(chunk, context.prefix);
-    const mainText = applyPrefixToText(chunk, mergePrefixes(context.mainPrefix, context.prefix));
-    if (streamToConsole) {
-      if (isError) {
-        process.stderr.write(mainText);
-      } else {
-        process.stdout.write(mainText);
-      }
-    }
-    this.appendToFile({ mainLine: mainText, baseLine: baseText, rawLine: chunk, context });
+    this.writeChunkWithContext(chunk, streamToConsole, isError, this.getContext());
   }
 
   writeChunkWithContext(
@@ -59,16 +78,56 @@ export class Logger {
     context: LogContext,
   ): void {
     if (!chunk) return;
-    const baseText = applyPrefixToText(chunk, context.prefix);
-    const mainText = applyPrefixToText(chunk, mergePrefixes(context.mainPrefix, context.prefix));
-    if (streamToConsole) {
-      if (isError) {
-        process.stderr.write(mainText);
-      } else {
-        process.stdout.write(mainText);
-      }
+    const pending = this.pendingChunks.get(context) ?? { stdout: "", stderr: "" };
+    const stream = isError ? "stderr" : "stdout";
+    const [ready, token] = splitTrailingToken(pending[stream] + chunk);
+    pending[stream] = token;
+    if (pending.stdout || pending.stderr) {
+      this.pendingChunks.set(context, pending);
+    } else {
+      this.pendingChunks.delete(context);
+    }
+    this.writeRedactedChunk(ready, streamToConsole, isError, context);
+  }
+
+  /** Writes the tokens held back from chunks that did not end with whitespace. */
+  flushChunks(streamToConsole = true): void {
+    for (const [context, pending] of this.pendingChunks) {
+      this.writeRedactedChunk(pending.stdout, streamToConsole, false, context);
+      this.writeRedactedChunk(pending.stderr, streamToConsole, true, context);
+    }
+    this.pendingChunks.clear();
+  }
+
+  /**
+   * Appends `event` to the events log, tagged with the context it belongs to. Pass the context
+   * captured when the work started for events emitted from callbacks that lost it.
+   */
+  event(event: RunEvent, context: LogContext = this.getContext()): void {
+    if (!this.eventsPath && this.listeners.size === 0) return;
+    // Redacting the values rather than the serialized line also catches secrets that JSON
+    // escapes, e.g. ones containing quotes or ANSI sequences.
+    const record = redactValues(
+      {
+        time: new Date().toISOString(),
+        ...event,
+        mainPrefix: context.mainPrefix,
+        prefix: context.prefix,
+      },
+      this.redact,
+    );
+    if (this.eventsPath) {
+      appendFileSync(this.eventsPath, `${JSON.stringify(record)}\n`);
     }
-    this.appendToFile({ mainLine: mainText, baseLine: baseText, rawLine: chunk, context });
+    this.notify({ kind: "event", event: record, context });
+  }
+
+  /** Calls `listener` with the console output and every event until it is unsubscribed. */
+  subscribe(listener: (record: LogRecord) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
   }
 
   getContextSnapshot(): LogContext {
@@ -76,7 +135,8 @@ export class Logger {
   }
 
   logPrompt(label: string, prompt: string, limit = 4000): void {
-    const { text, truncated } = formatPromptForLog(prompt, limit);
+    // Redact before truncating, so that a secret cut at the limit is still recognized.
+    const { text, truncated } = formatPromptForLog(this.redact(prompt), limit);
     const lengthLabel = truncated ? "truncated" : "full";
     this.info(`${label} (${prompt.length} chars, ${lengthLabel}):\n${text}`);
     if (truncated) {
@@ -91,6 +151,33 @@ export class Logger {
     return this.context.run(mergedContext, fn);
   }
 
+  private writeRedactedChunk(
+    chunk: string,
+    streamToConsole: boolean,
+    isError: boolean,
+    context: LogContext,
+  ): void {
+    if (!chunk) return;
+    const rawText = this.redact(chunk);
+    const baseText = applyPrefixToText(rawText, context.prefix);
+    const mainText = applyPrefixToText(rawText, mergePrefixes(context.mainPrefix, context.prefix));
+    if (streamToConsole) {
+      if (isError) {
+        process.stderr.write(mainText);
+      } else {
+        process.stdout.write(mainText);
+      }
+      this.notify({ kind: "output", text: baseText, isError, context });
+    }
+    this.appendToFile({ mainLine: mainText, baseLine: baseText, rawLine: rawText, context });
+  }
+
+  private notify(record: LogRecord): void {
+    for (const listener of this.listeners) {
+      listener(record);
+    }
+  }
+
   private appendToFile({
     mainLine,
     baseLine,
@@ -117,7 +204,7 @@ export class Logger {
   }
 
   private getContext(): LogContext {
-    return this.context.getStore() ?? {};
+    return this.context.getStore() ?? ROOT_CONTEXT;
   }
 }
 
@@ -127,6 +214,17 @@ function normalizeLine(message: string): string {
   return message.endsWith("\n") ? message : `${message}\n`;
 }
 
+function redactValues<T>(value: T, redact: (text: string) => string): T {
+  if (typeof value === "string") return redact(value) as T;
+  if (Array.isArray(value)) return value.map((item) => redactValues(item, redact)) as T;
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, redactValues(item, redact)]),
+    ) as T;
+  }
+  return value;
+}
+
 function formatPromptForLog(prompt: string, limit: number): { text: string; truncated: boolean } {
   const safeLimit = Math.max(0, limit);
   if (prompt.length <= safeLimit) {
@@ -0,0 +1,120 @@
+export type RedactionOptions = {
+  /** Environment variables whose values are masked, in addition to the secret-looking ones. */
+  env?: string[];
+  /** Extra regular expressions; every match is masked. */
+  patterns?: string[];
+};
+
+export const REDACTED = "[REDACTED]";
+
+const SECRET_PATTERNS = [
+  /gh[pousr]_[A-Za-z0-9]{36,}/g,
+  /github_pat_[A-Za-z0-9_]{22,}/g,
+  /glpat-[A-Za-z0-9_-]{20,}/g,
+  /sk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/g,
+  /AIza[0-9A-Za-z_-]{35}/g,
+  /AKIA[0-9A-Z]{16}/g,
+  /xox[abposr]-[A-Za-z0-9-]{10,}/g,
+];
+const SECRET_ENV_NAME_PATTERN = /TOKEN|SECRET|PASSWORD|API_KEY|ACCESS_KEY/i;
+// Shorter values (e.g. `1` or `true`) would mask unrelated output.
+const MIN_SECRET_VALUE_LENGTH = 8;
+const ANSI_PATTERN =
+  // eslint-disable-next-line no-control-regex
+  /\u001b\[[0-9;?]*[ -/]*[@-~]|\u001b\][^\u0007\u001b]*(?:\u0007|\u001b\\)/g;
+
+/**
+ * Builds a function that masks secrets: the values of `options.env` and of environment variables
+ * named like secrets, the built-in token formats, and `options.patterns`. Matching ignores ANSI
+ * escape sequences, so colored or highlighted secrets are masked too.
+ */
+export function createSecretRedactor(
+  options: RedactionOptions = {},
+  env: NodeJS.ProcessEnv = process.env,
+): (text: string) => string {
+  const configuredNames = new Set(options.env ?? []);
+  const values = Object.entries(env)
+    .filter(([name]) => configuredNames.has(name) || SECRET_ENV_NAME_PATTERN.test(name))
+    .map(([, value]) => value?.trim() ?? "")
+    .filter((value) => value.length >= MIN_SECRET_VALUE_LENGTH)
+    // Longer values first so that a value containing another one is masked as a whole.
+    .sort((a, b) => b.length - a.length);
+  const patterns = [
+    ...SECRET_PATTERNS,
+    ...(options.patterns ?? []).map((pattern) => new RegExp(pattern, "g")),
+  ];
+
+  return (text) => {
+    if (!text) return text;
+    const { stripped, offsets } = stripAnsiWithOffsets(text);
+    const ranges: [number, number][] = [];
+    for (const value of values) {
+      for (let index = stripped.indexOf(value); index !== -1; ) {
+        ranges.push([index, index + value.length]);
+        index = stripped.indexOf(value, index + value.length);
+      }
+    }
+    for (const pattern of patterns) {
+      for (const match of stripped.matchAll(pattern)) {
+        if (match[0]) ranges.push([match.index, match.index + match[0].length]);
+      }
+    }
+    if (ranges.length === 0) return text;
+
+    let redacted = "";
+    let cursor = 0;
+    for (const [start, end] of mergeRanges(ranges)) {
+      const originalStart = offsets[start] ?? text.length;
+      const originalEnd = (offsets[end - 1] ?? text.length - 1) + 1;
+      redacted += text.slice(cursor, originalStart) + REDACTED;
+      cursor = originalEnd;
+    }
+    return redacted + text.slice(cursor);
+  };
+}
+
+/**
+ * Splits streamed text before its trailing token (the last run without whitespace), which may be
+ * the first half of a secret completed by the next chunk. Overlong runs are not held back.
+ */
+export function splitTrailingToken(text: string, maxTokenLength = 4096): [string, string] {
+  const match = /\S+$/.exec(text);
+  if (!match || match[0].length > maxTokenLength) return [text, ""];
+  return [text.slice(0, match.index), match[0]];
+}
+
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, "");
+}
+
+function stripAnsiWithOffsets(text: string): { stripped: string; offsets: number[] } {
+  let stripped = "";
+  const offsets: number[] = [];
+  let cursor = 0;
+  const copyUntil = (end: number) => {
+    for (; cursor < end; cursor++) {
+      stripped += text[cursor];
+      offsets.push(cursor);
+    }
+  };
+  for (const match of text.matchAll(ANSI_PATTERN)) {
+    copyUntil(match.index);
+    cursor = match.index + match[0].length;
+  }
+  copyUntil(text.length);
+  return { stripped, offsets };
+}
+
+function mergeRanges(ranges: [number, number][]): [number, number][] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  for (const [start, end] of sorted) {
+    const last = merged.at(-1);
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+}
@@ -14,6 +14,8 @@ const DEFAULT_OUTPUT_INACTIVITY_TIMEOUT_MS = 10 * 60 * 1000;
 // Keep a module-scoped AsyncResource so terminal I/O stays active under logger contexts.
 const terminalResource = new AsyncResource("terminal-runner");
 
+type SpawnedProcess = { exit: Promise<{ code: number | null }> };
+
 let nextCommandId = 0;
 let commandPromisePool: PromisePool | undefined;
 const npxIgnoreExistingCache = new Set<string>();
@@ -94,6 +96,7 @@ export async function runAgentUntilResult(
   let child!: ReturnType<typeof spawnProcessWithLogging>["child"];
   let exit!: ReturnType<typeof spawnProcessWithLogging>["exit"];
   let processGroupId: ReturnType<typeof spawnProcessWithLogging>["processGroupId"];
+  let output!: ReturnType<typeof spawnProcessWithLogging>["output"];
   let inactivityError: Error | undefined;
   let watchdogTimer: NodeJS.Timeout | undefined;
   let watchdogReject: ((error: Error) => void) | undefined;
@@ -118,23 +121,12 @@ export async function runAgentUntilResult(
       watchdogTimer = undefined;
     }
   };
-  const formatInactivityLabel = () => {
-    if (inactivityTimeoutMs >= 60_000 && inactivityTimeoutMs % 60_000 === 0) {
-      const minutes = inactivityTimeoutMs / 60_000;
-      return `${minutes} minute${minutes === 1 ? "" : "s"}`;
-    }
-    if (inactivityTimeoutMs >= 1000 && inactivityTimeoutMs % 1000 === 0) {
-      const seconds = inactivityTimeoutMs / 1000;
-      return `${seconds} second${seconds === 1 ? "" : "s"}`;
-    }
-    return `${inactivityTimeoutMs}ms`;
-  };
   const resetWatchdog = () => {
     if (!watchdogReject) return;
     clearWatchdog();
     watchdogTimer = setTimeout(() => {
       if (inactivityError) return;
-      const message = `No output received from agent for ${formatInactivityLabel()}; terminating process tree.`;
+      const message = `No output received from agent for ${formatDurationLabel(inactivityTimeoutMs)}; terminating process tree.`;
       inactivityError = new Error(message);
       logger.error(message);
       const reject = watchdogReject;
@@ -144,7 +136,7 @@ export async function runAgentUntilResult(
       void requestTermination(0);
     }, inactivityTimeoutMs);
   };
-  ({ child, exit, processGroupId } = spawnProcessWithLogging(
+  ({ child, exit, processGroupId, output } = spawnProcessWithLogging(
     logger,
     command,
     args,
@@ -161,6 +153,19 @@ export async function runAgentUntilResult(
           resetWatchdog();
         })
       : undefined;
+  const timeoutMs = options.timeoutMs ?? 0;
+  let timeoutTimer: NodeJS.Timeout | undefined;
+  const timeoutPromise =
+    timeoutMs > 0
+      ? new Promise<AgentResult<unknown>>((_, reject) => {
+          timeoutTimer = setTimeout(() => {
+            const message = `Agent did not post a result within ${formatDurationLabel(timeoutMs)}; terminating process tree.`;
+            logger.error(message);
+            reject(new Error(message));
+            void requestTermination(0);
+          }, timeoutMs);
+        })
+      : undefined;
 
   try {
     result = await Promise.race([
@@ -169,30 +174,80 @@ export async function runAgentUntilResult(
         throw new Error(`Agent exited before posting a result (exit ${code ?? "unknown"}).`);
       }),
       ...(watchdogPromise ? [watchdogPromise] : []),
+      ...(timeoutPromise ? [timeoutPromise] : []),
     ]);
     logger.info(`Received agent result: ${JSON.stringify(result)}`);
   } catch (error) {
     failure = error;
   } finally {
     clearWatchdog();
+    clearTimeout(timeoutTimer);
   }
 
   await requestTermination(options.agentGracePeriodMs);
+  // Failed attempts consume tokens too, so usage is reported either way.
+  const usage = options.usageExtractor?.(output.combined);
+  if (usage) options.onUsage?.(usage);
 
   if (failure) throw failure;
   return result!;
 }
 
-function runWithLoggingContext<T>(logger: Logger, command: string, args: string[], fn: () => T): T {
+function formatDurationLabel(durationMs: number): string {
+  if (durationMs >= 60_000 && durationMs % 60_000 === 0) {
+    const minutes = durationMs / 60_000;
+    return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+  }
+  if (durationMs >= 1000 && durationMs % 1000 === 0) {
+    const seconds = durationMs / 1000;
+    return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  }
+  return `${durationMs}ms`;
+}
+
+function runWithLoggingContext<T extends SpawnedProcess>(
+  logger: Logger,
+  command: string,
+  args: string[],
+  fn: () => T,
+): T {
   const commandId = nextCommandLabel();
   const commandLabel = `$ ${[command, ...args].join(" ")}`;
 
   return logger.runWithContext({ prefix: commandId }, () => {
     logger.info(commandLabel);
-    return fn();
+    return recordCommandEvents(logger, commandId, command, args, fn());
   });
 }
 
+/** Emits the spawn and exit events of a command; the exit one in the context of the spawn. */
+function recordCommandEvents<T extends SpawnedProcess>(
+  logger: Logger,
+  commandId: string,
+  command: string,
+  args: string[],
+  spawned: T,
+): T {
+  const context = logger.getContextSnapshot();
+  const startedAt = Date.now();
+  logger.event({ type: "command_spawned", commandId, command, args: args.map(summarizeArg) });
+  void spawned.exit.then(({ code }) =>
+    logger.event(
+      { type: "command_exited", commandId, exitCode: code, durationMs: Date.now() - startedAt },
+      context,
+    ),
+  );
+  return spawned;
+}
+
+// Agent prompts are passed as arguments; the agent_prompt_sent event carries them in full.
+function summarizeArg(arg: string): string {
+  const limit = 500;
+  return arg.length <= limit
+    ? arg
+    : `${arg.slice(0, limit)}... [truncated ${arg.length - limit} chars]`;
+}
+
 function spawnProcessWithLogging(
   logger: Logger,
   command: string,
@@ -460,7 +515,7 @@ function closeTerminalSafely(terminal: Bun.Terminal): void {
   terminal.close();
 }
 
-function runWithTerminalLoggingContext<T>(
+function runWithTerminalLoggingContext<T extends SpawnedProcess>(
   logger: Logger,
   command: string,
   args: string[],
@@ -470,7 +525,7 @@ function runWithTerminalLoggingContext<T>(
   const commandLabel = `$ ${[command, ...args].join(" ")}`;
   const context = logger.getContextSnapshot();
   logger.info(`${commandId} ${commandLabel}`);
-  return fn(commandId, context);
+  return recordCommandEvents(logger, commandId, command, args, fn(commandId, context));
 }
 
 function createPrefixedChunkWriter(
@@ -0,0 +1,59 @@
+import { chmodSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { delimiter, join } from "node:path";
+
+import { createTestSubDir } from "./testDir.ts";
+
+export type FakeCliResponse = {
+  /** Matched against the arguments joined with spaces; the first matching response is used. */
+  match: string;
+  stdout?: string;
+  stderr?: string;
+  exitCode?: number;
+};
+
+/**
+ * Puts an executable named `name` first on `PATH` that records its arguments and answers with
+ * the first matching response, so that code shelling out to `gh` or `glab` can be tested offline.
+ */
+export function installFakeCli(
+  name: string,
+  responses: FakeCliResponse[],
+): { calls: () => string[][]; restore: () => void } {
+  const dir = createTestSubDir(`fake-${name}`);
+  const callsPath = join(dir, "calls.jsonl");
+  const responsesPath = join(dir, "responses.json");
+  writeFileSync(callsPath, "");
+  writeFileSync(responsesPath, JSON.stringify(responses));
+  const executablePath = join(dir, name);
+  writeFileSync(
+    executablePath,
+    `#!${process.execPath}
+const { appendFileSync, readFileSync } = require("node:fs");
+const args = process.argv.slice(2);
+appendFileSync(${JSON.stringify(callsPath)}, JSON.stringify(args) + "\\n");
+const responses = JSON.parse(readFileSync(${JSON.stringify(responsesPath)}, "utf8"));
+const response = responses.find((candidate) => args.join(" ").includes(candidate.match));
+if (!response) {
+  process.stderr.write("No fake response for: " + args.join(" ") + "\\n");
+  process.exit(1);
+}
+process.stdout.write(response.stdout ?? "");
+process.stderr.write(response.stderr ?? "");
+process.exit(response.exitCode ?? 0);
+`,
+  );
+  chmodSync(executablePath, 0o755);
+  const originalPath = process.env.PATH;
+  process.env.PATH = `${dir}${delimiter}${originalPath ?? ""}`;
+  return {
+    calls: () =>
+      readFileSync(callsPath, "utf8")
+        .split("\n")
+        .filter(Boolean)
+        .map((line) => JSON.parse(line) as string[]),
+    restore: () => {
+      process.env.PATH = originalPath;
+      rmSync(dir, { recursive: true, force: true });
+    },
+  };
+}
@@ -0,0 +1,23 @@
+import type { WorkflowContext } from "../workflow/workflowModule.ts";
+
+/** Builds the context of a run on issue #1 of the GitHub repository `o/r` for workflow tests. */
+export function createTestWorkflowContext(
+  overrides: Partial<WorkflowContext> = {},
+): WorkflowContext {
+  return {
+    tool: "codex-cli",
+    issueData: {
+      title: "Title",
+      body: "Body",
+      url: "https://github.com/o/r/issues/1",
+      comments: [],
+      kind: "issue",
+      number: 1,
+      repo: { forge: "github", fullName: "o/r" },
+    },
+    baseBranch: "main",
+    headBranch: "o-agents/issue-1",
+    cwd: process.cwd(),
+    ...overrides,
+  };
+}
@@ -0,0 +1,135 @@
+import { spawn } from "node:child_process";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { createInterface } from "node:readline/promises";
+
+import { O_AGENTS_LOGS_DIR } from "../git/git.ts";
+import { logger } from "../utils/logger.ts";
+import type { StepContext } from "./defineWorkflow.ts";
+
+export type ApprovalDecision =
+  | { action: "accept" }
+  /** Accepts `content` in place of the result. */
+  | { action: "edit"; content: string }
+  /** Produces the result again, taking `feedback` into account. */
+  | { action: "reject"; feedback: string }
+  /** Ends the workflow with a non-zero exit code. */
+  | { action: "abort" };
+
+export type ApprovalRequest<P> = {
+  /** What is being approved, e.g. `plan`. */
+  label: string;
+  content: string;
+  /** Rounds asked so far for this result, starting at 1. */
+  round: number;
+  context: StepContext<P>;
+};
+
+/** Decides on a step's result, e.g. by asking the operator in the terminal. */
+export type Approver = <P>(request: ApprovalRequest<P>) => Promise<ApprovalDecision>;
+
+let autoApprove = false;
+
+/** Accepts every result without asking; set by `--yes` for unattended runs. */
+export function setAutoApprove(value: boolean): void {
+  autoApprove = value;
+}
+
+export function isAutoApproveEnabled(): boolean {
+  return autoApprove;
+}
+
+let defaultApprover: Approver | undefined;
+
+/** Replaces the terminal as the approver of steps that do not pass their own. */
+export function setDefaultApprover(approver: Approver | undefined): void {
+  defaultApprover = approver;
+}
+
+export function getDefaultApprover(): Approver {
+  return defaultApprover ?? terminalApprover;
+}
+
+/**
+ * Prints the result and asks the operator on stdin to accept it, edit it in `$VISUAL` or
+ * `$EDITOR`, reject it with feedback, or abort. Questions from parallel workflow runs are asked
+ * one at a time.
+ */
+export const terminalApprover: Approver = (request) =>
+  withTerminalLock(async () => {
+    if (!process.stdin.isTTY) {
+      throw new Error(
+        `Approving the ${request.label} requires an interactive terminal; pass --yes for unattended runs.`,
+      );
+    }
+    logger.info(`Review the ${request.label} (round ${request.round}):\n${request.content}`);
+    const decision = await askForDecision(request.label);
+    // The editor needs the terminal, so it only starts once the question is closed.
+    if (decision === "edit") {
+      return { action: "edit", content: await editInEditor(request.label, request.content) };
+    }
+    return decision;
+  });
+
+async function askForDecision(label: string): Promise<ApprovalDecision | "edit"> {
+  const readline = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    for (;;) {
+      const answer = await readline.question(
+        `Accept the ${label}? [a]ccept, [e]dit, [r]eject with feedback, a[b]ort: `,
+      );
+      switch (answer.trim().toLowerCase()) {
+        case "a":
+        case "accept":
+          return { action: "accept" };
+        case "e":
+        case "edit":
+          return "edit";
+        case "r":
+        case "reject": {
+          const feedback = (await readline.question("Feedback: ")).trim();
+          if (feedback) return { action: "reject", feedback };
+          break;
+        }
+        case "b":
+        case "abort":
+          return { action: "abort" };
+      }
+    }
+  } finally {
+    readline.close();
+  }
+}
+
+async function editInEditor(label: string, content: string): Promise<string> {
+  const editor = process.env.VISUAL || process.env.EDITOR || "vi";
+  const tempDir = join(process.cwd(), O_AGENTS_LOGS_DIR, "app", "temp");
+  mkdirSync(tempDir, { recursive: true });
+  const path = join(tempDir, `${label}-${Date.now()}.md`);
+  writeFileSync(path, content, "utf8");
+  try {
+    // Through the shell, since editors are often configured with flags, e.g. `code --wait`.
+    const exitCode = await new Promise<number | null>((resolve, reject) => {
+      spawn("sh", ["-c", `${editor} "$1"`, "sh", path], { stdio: "inherit" })
+        .on("error", reject)
+        .on("exit", resolve);
+    });
+    if (exitCode !== 0) {
+      throw new Error(`Editor "${editor}" exited with code ${exitCode}.`);
+    }
+    return readFileSync(path, "utf8");
+  } finally {
+    rmSync(path, { force: true });
+  }
+}
+
+let terminalQueue: Promise<void> = Promise.resolve();
+
+function withTerminalLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = terminalQueue.then(fn, fn);
+  terminalQueue = run.then(
+    () => undefined,
+    () => undefined,
+  );
+  return run;
+}
@@ -0,0 +1,116 @@
+import { setTimeout as sleep } from "node:timers/promises";
+
+import { type Forge, type ForgeComment, getForge } from "../forge/forge.ts";
+import { getErrorMessage } from "../utils/error.ts";
+import { logger } from "../utils/logger.ts";
+import type { ApprovalDecision, Approver } from "./approval.ts";
+
+export type CommentApprovalOptions = {
+  /** Forge usernames whose replies are obeyed; matched case-insensitively. */
+  allowedUsers: string[];
+  /** How long to wait for a reply before aborting the workflow. */
+  timeoutMs: number;
+  pollIntervalMs: number;
+};
+
+/**
+ * Posts the result as a comment on the target issue or PR and waits for an allowed user to reply
+ * with `/approve <branch>` or `/revise <branch> <feedback>`. Each branch keeps a single comment
+ * that is updated every round, and replies must name the branch, so that parallel runs on the
+ * same target neither overwrite each other's results nor act on each other's replies.
+ * The workflow is aborted when no reply arrives in time.
+ */
+export function createCommentApprover(
+  options: CommentApprovalOptions & { forge?: Forge },
+): Approver {
+  const allowedUsers = new Set(options.allowedUsers.map((user) => user.toLowerCase()));
+  return async ({ label, content, round, context }) => {
+    const { issueData, headBranch } = context;
+    const repo = issueData.repo?.fullName;
+    const targetNumber = issueData.number;
+    if (!repo || !targetNumber) {
+      throw new Error(
+        `Approving the ${label} by comment requires the repository and number of the target.`,
+      );
+    }
+    const target = { repo, kind: issueData.kind ?? "issue", targetNumber } as const;
+    const forge = options.forge ?? (await getForge());
+    const result = await forge.upsertComment({
+      ...target,
+      body: buildApprovalCommentBody({
+        label,
+        content,
+        round,
+        headBranch,
+        allowedUsers: options.allowedUsers,
+      }),
+      marker: getApprovalCommentMarker(headBranch),
+    });
+    const location = result.htmlUrl ? ` at ${result.htmlUrl}` : ".";
+    logger.info(`Posted the ${label} for approval (round ${round})${location}`);
+
+    // Comment ids increase monotonically, which unlike timestamps is immune to clock skew.
+    const lastSeenId = Math.max(0, ...(await forge.listComments(target)).map(({ id }) => id));
+    const deadline = Date.now() + options.timeoutMs;
+    while (Date.now() < deadline) {
+      await sleep(Math.min(options.pollIntervalMs, Math.max(0, deadline - Date.now())));
+      let comments: ForgeComment[];
+      try {
+        comments = await forge.listComments(target);
+      } catch (error) {
+        // A single failed poll, e.g. from rate limiting, should not end a long wait.
+        logger.error(`Failed to fetch replies to the ${label}: ${getErrorMessage(error)}`);
+        continue;
+      }
+      for (const comment of comments) {
+        if (comment.id <= lastSeenId) continue;
+        if (!comment.author || !allowedUsers.has(comment.author.toLowerCase())) continue;
+        const decision = parseApprovalReply(comment.body, headBranch);
+        if (!decision) continue;
+        const command = decision.action === "accept" ? "/approve" : "/revise";
+        logger.info(`@${comment.author} replied to the ${label} with ${command}.`);
+        return decision;
+      }
+    }
+    logger.error(`No reply to the ${label} within ${options.timeoutMs / 60_000} minutes.`);
+    return { action: "abort" };
+  };
+}
+
+/**
+ * Parses `/approve <branch>` or `/revise <branch> <feedback>` at the start of a reply, ignoring
+ * replies meant for another branch. The branch may be wrapped in backticks as in the comment.
+ */
+export function parseApprovalReply(body: string, headBranch: string): ApprovalDecision | undefined {
+  const match = /^\/(approve|revise)\s+`?([^\s`]+)`?(.*)$/is.exec(body.trim());
+  if (!match || match[2] !== headBranch) return undefined;
+  if (match[1]?.toLowerCase() === "approve") return { action: "accept" };
+  const feedback = match[3]?.trim();
+  return feedback ? { action: "reject", feedback } : undefined;
+}
+
+function getApprovalCommentMarker(headBranch: string): string {
+  return `<!-- o-agents:approval:${headBranch} -->`;
+}
+
+function buildApprovalCommentBody(options: {
+  label: string;
+  content: string;
+  round: number;
+  headBranch: string;
+  allowedUsers: string[];
+}): string {
+  const { label, content, round, headBranch } = options;
+  const users = options.allowedUsers.map((user) => `@${user}`).join(", ");
+  return [
+    getApprovalCommentMarker(headBranch),
+    `## o-agents ${label} for review`,
+    "",
+    `Branch: \`${headBranch}\` (round ${round})`,
+    "",
+    content,
+    "",
+    "---",
+    `${users}: reply with \`/approve ${headBranch}\` to continue, or \`/revise ${headBranch} <feedback>\` to produce the ${label} again.`,
+  ].join("\n");
+}
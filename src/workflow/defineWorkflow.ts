@@ -0,0 +1,102 @@
+import type { z, ZodType } from "zod";
+
+import { getErrorMessage } from "../utils/error.ts";
+import { logger } from "../utils/logger.ts";
+import type { DefinedWorkflow, WorkflowContext, WorkflowFunction } from "./workflowModule.ts";
+
+/** Values steps hand to later steps. Built-in steps use `plan` and `changeSummary`. */
+export type WorkflowState = {
+  plan?: string;
+  changeSummary?: string;
+  /** Why the result of the step being re-run by `approveStep` was rejected. */
+  feedback?: string;
+  [key: string]: unknown;
+};
+
+export type StepContext<P> = WorkflowContext & { params: P; state: WorkflowState };
+
+export type WorkflowStep<P> = {
+  /** Shown as the log prefix of everything the step does. */
+  name: string;
+  /** A non-zero exit code ends the workflow with that code; the remaining steps are skipped. */
+  run: (context: StepContext<P>) => Promise<number | void>;
+  skip?: (context: StepContext<P>) => boolean | Promise<boolean>;
+  /** Total attempts including the first one. Defaults to 1 (no retries). */
+  maxAttempts?: number;
+};
+
+/** Overrides accepted by every built-in step. */
+export type StepOptions<P> = Partial<Pick<WorkflowStep<P>, "name" | "skip" | "maxAttempts">>;
+
+/**
+ * Attaches `paramsSchema` to a workflow, typing its params as the schema's output, or builds
+ * a workflow that runs `steps` in order. Export the result as the default export of a
+ * workflow file; the workflow loader validates params against the attached schema.
+ */
+export function defineWorkflow<S extends ZodType>(
+  paramsSchema: S,
+  run: WorkflowFunction<z.output<S>>,
+): DefinedWorkflow<z.output<S>>;
+export function defineWorkflow<S extends ZodType>(definition: {
+  paramsSchema: S;
+  steps: WorkflowStep<z.output<S>>[];
+}): DefinedWorkflow<z.output<S>>;
+export function defineWorkflow(definition: {
+  steps: WorkflowStep<undefined>[];
+}): DefinedWorkflow<undefined>;
+export function defineWorkflow<P>(
+  definition: ZodType<P> | { paramsSchema?: ZodType<P>; steps: WorkflowStep<P>[] },
+  run?: WorkflowFunction<P>,
+): DefinedWorkflow<P> {
+  if (run) {
+    const paramsSchema = definition as ZodType<P>;
+    return Object.assign((context: WorkflowContext, params: P) => run(context, params), {
+      paramsSchema,
+    });
+  }
+  const { paramsSchema, steps } = definition as {
+    paramsSchema?: ZodType<P>;
+    steps: WorkflowStep<P>[];
+  };
+  const runSteps = async (context: WorkflowContext, params: P): Promise<number> => {
+    const stepContext: StepContext<P> = { ...context, params, state: {} };
+    for (const step of steps) {
+      const exitCode = await logger.runWithContext({ prefix: `[${step.name}]` }, () =>
+        runStep(step, stepContext),
+      );
+      if (exitCode) return exitCode;
+    }
+    return 0;
+  };
+  return Object.assign(runSteps, { paramsSchema });
+}
+
+async function runStep<P>(step: WorkflowStep<P>, context: StepContext<P>): Promise<number> {
+  if (await step.skip?.(context)) {
+    logger.info(`Skipped step ${step.name}.`);
+    return 0;
+  }
+  const maxAttempts = step.maxAttempts ?? 1;
+  if (!Number.isInteger(maxAttempts) || maxAttempts <= 0) {
+    throw new Error(`Step ${step.name}: maxAttempts must be a positive integer.`);
+  }
+  const startedAt = Date.now();
+  logger.info(`Started step ${step.name}.`);
+  logger.event({ type: "step_started", step: step.name });
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const exitCode = (await step.run(context)) ?? 0;
+      const durationMs = Date.now() - startedAt;
+      logger.info(
+        `Finished step ${step.name} in ${(durationMs / 1000).toFixed(1)}s (exit ${exitCode}).`,
+      );
+      logger.event({ type: "step_finished", step: step.name, exitCode, durationMs });
+      return exitCode;
+    } catch (error) {
+      if (attempt >= maxAttempts) throw error;
+      logger.error(
+        `Step ${step.name} attempt ${attempt}/${maxAttempts} failed: ${getErrorMessage(error)} Retrying...`,
+      );
+    }
+  }
+}
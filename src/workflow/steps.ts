@@ -0,0 +1,271 @@
+import {
+  buildImplementationPrompt,
+  buildPlanPrompt,
+  buildRefactoringPrompt,
+  buildReviewPrompt,
+  buildReviewResolutionPrompt,
+  buildTestFixPrompt,
+  prependRejectionFeedback,
+  reviewCommentSchema,
+  reviewResponseSchema,
+} from "../agent/prompt.ts";
+import { runNonInteractiveAgent, runNonInteractiveAgents } from "../agent/workflowRunner.ts";
+import { createPullRequest, ensureCommitAndPushChanges } from "../git/git.ts";
+import type { ReviewComment } from "../github/gh.ts";
+import { buildPullRequestBody } from "../github/pullRequest.ts";
+import type { AgentTool } from "../types.ts";
+import { logger } from "../utils/logger.ts";
+import { runCommandWithOutput } from "../utils/run.ts";
+import { type Approver, getDefaultApprover, isAutoApproveEnabled } from "./approval.ts";
+import type { StepContext, StepOptions, WorkflowStep } from "./defineWorkflow.ts";
+
+export type ReviewerComments = { reviewer: AgentTool; comments: ReviewComment[] };
+
+// Keyed by head branch, so that the comparison of parallel runs can report each one's tests.
+const testExitCodeByBranch = new Map<string, number>();
+
+/**
+ * Asks the agent for an implementation plan of the issue and stores it as `state.plan`.
+ * When re-run after `state.feedback` rejected the plan, the agent revises the previous one.
+ */
+export function planStep<P>(options: StepOptions<P> = {}): WorkflowStep<P> {
+  return {
+    name: "plan",
+    ...options,
+    run: async ({ tool, issueData, cwd, state }) => {
+      const revision =
+        state.plan && state.feedback ? { plan: state.plan, feedback: state.feedback } : undefined;
+      state.plan = await runNonInteractiveAgent({
+        tool,
+        prompt: buildPlanPrompt({ issueData, revision }),
+        cwd,
+      });
+    },
+  };
+}
+
+/**
+ * Runs `step`, then lets `approver` (by default the operator in the terminal, or replies to an issue
+ * comment with `approval = "comment"` in the config) accept its result in `state[stateKey]`,
+ * replace it with an edited version, reject it, or abort the workflow.
+ * A rejected result is produced again by re-running `step` with the reason in `state.feedback`.
+ * With `--yes`, every result is accepted without asking.
+ */
+export function approveStep<P>(
+  step: WorkflowStep<P>,
+  options: {
+    /** Defaults to `plan`. */
+    stateKey?: string;
+    approver?: Approver;
+  } = {},
+): WorkflowStep<P> {
+  const { stateKey = "plan" } = options;
+  return {
+    ...step,
+    run: async (context) => {
+      const { state } = context;
+      for (let round = 1; ; round++) {
+        const exitCode = await step.run(context);
+        state.feedback = undefined;
+        if (exitCode) return exitCode;
+        if (isAutoApproveEnabled()) {
+          logger.info(`Auto-approved the ${stateKey} (--yes).`);
+          return 0;
+        }
+        const content = state[stateKey];
+        if (typeof content !== "string") {
+          throw new Error(
+            `Step ${step.name} did not store a text to approve in state.${stateKey}.`,
+          );
+        }
+        // Resolved per call, since workflow modules may be loaded before the config is applied.
+        const approver = options.approver ?? getDefaultApprover();
+        const decision = await approver({ label: stateKey, content, round, context });
+        switch (decision.action) {
+          case "accept":
+            logger.info(`The ${stateKey} was accepted.`);
+            return 0;
+          case "edit":
+            state[stateKey] = decision.content;
+            logger.info(`The edited ${stateKey} was accepted.`);
+            return 0;
+          case "abort":
+            logger.error(`The ${stateKey} was rejected; aborting the workflow.`);
+            return 1;
+          case "reject":
+            logger.info(
+              `The ${stateKey} was rejected: ${decision.feedback}\nRe-running ${step.name}...`,
+            );
+            state.feedback = decision.feedback;
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Implements `state.plan`, storing the agent's summary as `state.changeSummary`, and pushes the result.
+ * Like the other built-in agent steps, it hands `state.feedback` from `approveStep` to the agent.
+ */
+export function implementStep<P>(options: StepOptions<P> = {}): WorkflowStep<P> {
+  return {
+    name: "implement",
+    ...options,
+    run: async ({ tool, cwd, state }) => {
+      if (!state.plan) throw new Error("implementStep requires a preceding planStep.");
+      state.changeSummary = await runNonInteractiveAgent({
+        tool,
+        prompt: prependRejectionFeedback(
+          buildImplementationPrompt({ plan: state.plan }),
+          state.feedback,
+        ),
+        cwd,
+      });
+      await ensureCommitAndPushChanges("chore: apply changes from implementation agent", { cwd });
+    },
+  };
+}
+
+export function createPullRequestStep<P>(options: StepOptions<P> = {}): WorkflowStep<P> {
+  return {
+    name: "pull-request",
+    ...options,
+    run: async ({ issueData, baseBranch, headBranch, cwd, state }) => {
+      if (state.feedback) {
+        throw new Error(
+          "createPullRequestStep cannot take feedback into account; approve the step that produces the changes instead.",
+        );
+      }
+      await createPullRequest(
+        baseBranch,
+        headBranch,
+        buildPullRequestBody(issueData, state.plan, state.changeSummary),
+        { cwd },
+      );
+    },
+  };
+}
+
+/**
+ * Reviews the branch and resolves the comments until the reviewers have none left or
+ * `maxRounds` is reached. The hooks let a workflow e.g. publish the comments on the PR;
+ * whatever `onComments` returns is handed to `onResponses` of the same round.
+ */
+export function reviewLoopStep<P, T = void>(
+  options: StepOptions<P> & {
+    /** Defaults to the workflow's agent; several reviewers run in parallel. */
+    reviewers?: AgentTool[];
+    maxRounds?: number;
+    onComments?: (context: StepContext<P>, reviews: ReviewerComments[]) => Promise<T>;
+    onResponses?: (context: StepContext<P>, responses: string[], published: T) => Promise<void>;
+  } = {},
+): WorkflowStep<P> {
+  const { reviewers, maxRounds = 3, onComments, onResponses, ...stepOptions } = options;
+  return {
+    name: "review",
+    ...stepOptions,
+    run: async (context) => {
+      const { tool, headBranch, cwd, state } = context;
+      const tools = reviewers ?? [tool];
+      for (let round = 1; round <= maxRounds; round++) {
+        const commentsList = await runNonInteractiveAgents({
+          tools,
+          prompt: prependRejectionFeedback(buildReviewPrompt({ headBranch }), state.feedback),
+          schema: reviewCommentSchema,
+          cwd,
+        });
+        const reviewComments = commentsList.flat();
+        if (reviewComments.length === 0) return;
+
+        logger.info(`Review round ${round}/${maxRounds}: ${reviewComments.length} comment(s).`);
+        const published = (await onComments?.(
+          context,
+          tools.map((reviewer, index) => ({ reviewer, comments: commentsList[index] ?? [] })),
+        )) as T;
+        const responses = await runNonInteractiveAgent({
+          tool,
+          prompt: prependRejectionFeedback(
+            buildReviewResolutionPrompt({ reviewComments }),
+            state.feedback,
+          ),
+          schema: reviewResponseSchema,
+          cwd,
+        });
+        await ensureCommitAndPushChanges("chore: apply changes from review resolution agent", {
+          cwd,
+        });
+        await onResponses?.(context, responses, published);
+      }
+    },
+  };
+}
+
+/**
+ * Runs the tests and lets the agent fix them until they pass. Skipped when `testCommand`
+ * yields undefined and rejected when it yields an empty command; ends the workflow with the
+ * last exit code when the tests keep failing.
+ */
+export function testFixLoopStep<P>(
+  options: StepOptions<P> & {
+    testCommand: string[] | ((context: StepContext<P>) => string[] | undefined);
+    /** Test runs before giving up. Defaults to 5. */
+    maxTestRuns?: number;
+  },
+): WorkflowStep<P> {
+  const { testCommand, maxTestRuns = 5, ...stepOptions } = options;
+  return {
+    name: "test-fix",
+    ...stepOptions,
+    run: async (context) => {
+      const { tool, headBranch, cwd, state } = context;
+      const resolvedCommand =
+        typeof testCommand === "function" ? testCommand(context) : testCommand;
+      if (!resolvedCommand) {
+        logger.info("No test command provided, skipping tests...");
+        return 0;
+      }
+      const [command, ...args] = resolvedCommand;
+      if (!command) {
+        throw new Error("testCommand must not be empty.");
+      }
+      let lastExitCode = 0;
+      for (let run = 0; run < maxTestRuns; run++) {
+        const { combined, exitCode } = await runCommandWithOutput(command, args, { cwd });
+        lastExitCode = exitCode;
+        testExitCodeByBranch.set(headBranch, exitCode);
+        if (exitCode === 0) return 0;
+
+        logger.info("Tests failed, running test-fixing agent...");
+        await runNonInteractiveAgent({
+          tool,
+          prompt: prependRejectionFeedback(
+            buildTestFixPrompt({ headBranch, testOutput: combined }),
+            state.feedback,
+          ),
+          cwd,
+        });
+        await ensureCommitAndPushChanges("chore: apply changes from test-fixing agent", { cwd });
+      }
+      return lastExitCode || 1;
+    },
+  };
+}
+
+/** Exit code of the last test run of `testFixLoopStep` on `branchName`, if it ran tests. */
+export function getTestExitCodeForBranch(branchName: string): number | undefined {
+  return testExitCodeByBranch.get(branchName);
+}
+
+export function refactorStep<P>(options: StepOptions<P> = {}): WorkflowStep<P> {
+  return {
+    name: "refactor",
+    ...options,
+    run: async ({ tool, headBranch, cwd, state }) => {
+      await runNonInteractiveAgent({
+        tool,
+        prompt: prependRejectionFeedback(buildRefactoringPrompt({ headBranch }), state.feedback),
+        cwd,
+      });
+    },
+  };
+}
@@ -0,0 +1,30 @@
+import type { ZodType } from "zod";
+
+import type { AgentTool, IssueData } from "../types.ts";
+
+/** What o-agents passes to a workflow: the agent to use and the worktree prepared for it. */
+export type WorkflowContext = {
+  tool: AgentTool;
+  issueData: IssueData;
+  baseBranch: string;
+  headBranch: string;
+  cwd: string;
+};
+
+/** Resolves to the process exit code of the run; non-zero marks the run as failed. */
+export type WorkflowFunction<P = unknown> = (
+  context: WorkflowContext,
+  params: P,
+) => Promise<number>;
+
+/** A workflow function that carries the schema its params are validated against. */
+export type DefinedWorkflow<P = unknown> = WorkflowFunction<P> & { paramsSchema?: ZodType<P> };
+
+/**
+ * The exports of a workflow file. The params schema may be exported next to the default
+ * export or attached to it by `defineWorkflow`, but not both.
+ */
+export type WorkflowModule<P = unknown> = {
+  default: DefinedWorkflow<P>;
+  paramsSchema?: ZodType<P>;
+};
@@ -2,7 +2,7 @@ import { expect, test } from "bun:test";
 import { mkdirSync, rmSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 
-import { buildAgentCommand } from "../../../src/agent/agentCommand.ts";
+import { buildAgentCommand, resolveAgentChain } from "../../../src/agent/agentCommand.ts";
 import { createTestSubDir } from "../../../src/utils/testDir.ts";
 
 test("buildAgentCommand appends prompt and preserves terminal flag", () => {
@@ -47,6 +47,49 @@ cmd = ["noversion"]
   }
 });
 
+test("resolveAgentChain appends configured fallbacks and resolves aliases", () => {
+  const tempDir = createTestSubDir("agent-command");
+  try {
+    writeConfig(
+      tempDir,
+      `
+[fallbacks]
+codex = ["claude", "gemini-cli"]
+`,
+    );
+
+    expect(resolveAgentChain("codex-cli", tempDir)).toEqual([
+      "codex-cli",
+      "claude-code",
+      "gemini-cli",
+    ]);
+    expect(resolveAgentChain("claude", tempDir)).toEqual(["claude-code"]);
+    // An explicit chain replaces the configured fallbacks.
+    expect(resolveAgentChain(["codex", "opencode"], tempDir)).toEqual(["codex-cli", "opencode-ai"]);
+  } finally {
+    rmSync(tempDir, { recursive: true, force: true });
+  }
+});
+
+test("resolveAgentChain rejects unknown fallback agents", () => {
+  const tempDir = createTestSubDir("agent-command");
+  try {
+    writeConfig(
+      tempDir,
+      `
+[fallbacks]
+codex-cli = ["missing"]
+`,
+    );
+
+    expect(() => resolveAgentChain("codex-cli", tempDir)).toThrow(
+      "Invalid fallbacks entry 'codex-cli': unknown agent 'missing'.",
+    );
+  } finally {
+    rmSync(tempDir, { recursive: true, force: true });
+  }
+});
+
 function writeConfig(baseDir: string, contents: string): void {
   const configDir = join(baseDir, "o-agents");
   mkdirSync(configDir, { recursive: true });
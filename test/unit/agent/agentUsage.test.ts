@@ -0,0 +1,93 @@
+import { expect, test } from "bun:test";
+
+import {
+  assertWithinAgentBudget,
+  recordAgentUsage,
+  runWithAgentCallLog,
+} from "../../../src/agent/agentCalls.ts";
+import { createAgentRegistry, getAgentDefinition } from "../../../src/agent/agentRegistry.ts";
+import {
+  addAgentUsage,
+  createUsagePatternExtractor,
+  formatAgentUsage,
+} from "../../../src/agent/agentUsage.ts";
+
+test("createUsagePatternExtractor reads the last match of each pattern", () => {
+  const extract = createUsagePatternExtractor({
+    inputTokens: "input tokens: ([\\d,]+)",
+    outputTokens: "output tokens: ([\\d,]+)",
+    costUsd: "cost: \\$([\\d.]+)",
+  });
+  const output = [
+    "input tokens: 100",
+    "output tokens: 20",
+    "cost: $0.01",
+    "input tokens: 12,000",
+    "output tokens: 3,400",
+    "cost: $0.42",
+  ].join("\n");
+
+  expect(extract(output)).toEqual({
+    inputTokens: 12000,
+    outputTokens: 3400,
+    totalTokens: 15400,
+    costUsd: 0.42,
+  });
+  expect(extract("no usage here")).toBeUndefined();
+});
+
+test("codex-cli extracts the token count printed by codex exec", () => {
+  const codex = getAgentDefinition(createAgentRegistry(), "codex");
+
+  expect(codex?.usageExtractor?.("done\ntokens used\n12,345\n")).toEqual({ totalTokens: 12345 });
+  expect(codex?.usageExtractor?.("tokens used: 678")).toEqual({ totalTokens: 678 });
+});
+
+test("claude-code extracts the tokens and cost of its JSON result", () => {
+  const claude = getAgentDefinition(createAgentRegistry(), "claude");
+  const output = JSON.stringify({
+    type: "result",
+    result: "Done.",
+    total_cost_usd: 0.1234,
+    usage: {
+      input_tokens: 12,
+      cache_creation_input_tokens: 5000,
+      cache_read_input_tokens: 20000,
+      output_tokens: 345,
+    },
+  });
+
+  expect(claude?.reportsCost).toBe(true);
+  expect(claude?.usageExtractor?.(output)).toEqual({
+    inputTokens: 12,
+    outputTokens: 345,
+    totalTokens: 357,
+    costUsd: 0.1234,
+  });
+  expect(claude?.usageExtractor?.('{"total_cost_usd":1.5e-5}')).toEqual({ costUsd: 0.000015 });
+});
+
+test("addAgentUsage sums figures reported by either side", () => {
+  const total = addAgentUsage({ totalTokens: 10, costUsd: 0.5 }, { totalTokens: 5 });
+
+  expect(total).toEqual({ totalTokens: 15, costUsd: 0.5 });
+  expect(addAgentUsage(undefined, undefined)).toBeUndefined();
+  expect(formatAgentUsage(total)).toBe("tokens=15 cost=$0.50");
+  expect(formatAgentUsage(undefined)).toBe("usage=N/A");
+});
+
+test("assertWithinAgentBudget throws once the reported cost exceeds the budget", async () => {
+  await runWithAgentCallLog(
+    [],
+    async () => {
+      recordAgentUsage({ costUsd: 0.6 });
+      expect(() => assertWithinAgentBudget()).not.toThrow();
+      recordAgentUsage({ totalTokens: 100 });
+      recordAgentUsage({ costUsd: 0.5 });
+      expect(() => assertWithinAgentBudget()).toThrow(
+        "Budget of $1.00 exceeded: agents reported $1.10; aborting workflow.",
+      );
+    },
+    { budgetUsd: 1 },
+  );
+});
@@ -0,0 +1,72 @@
+import { expect, test } from "bun:test";
+
+import {
+  buildCiFixPrompt,
+  buildReviewThreadsPrompt,
+  prependRejectionFeedback,
+  RESULT_DELIVERY_INSTRUCTION,
+} from "../../../src/agent/prompt.ts";
+
+test("buildReviewThreadsPrompt lists each thread with its id, location, and conversation", () => {
+  const prompt = buildReviewThreadsPrompt({
+    reviewThreads: [
+      {
+        id: "PRRT_1",
+        path: "src/a.ts",
+        line: 12,
+        diffHunk: "@@ -1 +1 @@\n-old\n+new",
+        isResolved: false,
+        comments: [
+          { author: "alice", body: "Rename this." },
+          { author: "bob", body: "Agreed." },
+        ],
+      },
+      { id: "PRRT_2", path: "src/b.ts", isResolved: false, comments: [] },
+    ],
+  });
+
+  expect(prompt).toContain(`threadId: PRRT_1
+  path: src/a.ts
+  line: 12`);
+  expect(prompt).toContain("author: alice");
+  expect(prompt).toContain("body: Agreed.");
+  expect(prompt).toContain("threadId: PRRT_2");
+  // Outdated threads have no line.
+  expect(prompt).not.toContain("line: undefined");
+  expect(prompt).toEndWith(RESULT_DELIVERY_INSTRUCTION);
+});
+
+test("buildCiFixPrompt renders a section with the log excerpt of each failed check", () => {
+  const prompt = buildCiFixPrompt({
+    headBranch: "o-agents/pr-4-1",
+    failedChecks: [
+      {
+        name: "test",
+        workflow: "CI",
+        link: "https://github.com/o/r/actions/runs/11/job/22",
+        log: "expected 1, got 2\n",
+      },
+      { name: "external" },
+    ],
+  });
+
+  expect(prompt).toContain("current branch `o-agents/pr-4-1`");
+  expect(prompt).toContain(`### CI / test
+Details: https://github.com/o/r/actions/runs/11/job/22
+~~~~
+expected 1, got 2
+~~~~
+
+### external
+~~~~
+No log available.
+~~~~`);
+  expect(prompt).toEndWith(RESULT_DELIVERY_INSTRUCTION);
+});
+
+test("prependRejectionFeedback puts the feedback before the prompt only when there is some", () => {
+  expect(prependRejectionFeedback("Implement the plan.", undefined)).toBe("Implement the plan.");
+  expect(prependRejectionFeedback("Implement the plan.", "Keep the old flag.")).toBe(
+    "Note: A reviewer rejected the result of a previous run of this task. Address their feedback this time.\n\nFeedback:\nKeep the old flag.\n\nImplement the plan.",
+  );
+});
@@ -0,0 +1,71 @@
+import { afterEach, expect, test } from "bun:test";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+import { buildPlanPrompt, RESULT_DELIVERY_INSTRUCTION } from "../../../src/agent/prompt.ts";
+import { loadPromptTemplates } from "../../../src/agent/promptTemplates.ts";
+import { createTestSubDir } from "../../../src/utils/testDir.ts";
+
+const issueData = {
+  title: "Add {{plan}} support",
+  body: "Body",
+  url: "https://github.com/o/r/issues/1",
+  comments: [],
+  kind: "issue" as const,
+  number: 1,
+};
+
+// Loaded templates are module state; reset them so that other tests see the defaults.
+afterEach(() => {
+  loadPromptTemplates(path.join(createTestSubDir("prompt-templates"), "missing"));
+});
+
+test("buildPlanPrompt renders an override from o-agents/prompts", () => {
+  const tempDir = createPromptsDir({
+    "plan.md": "Plan this:\n{{ issue }}\n\n{{RESULT_DELIVERY_INSTRUCTION}}\n",
+  });
+  try {
+    expect(loadPromptTemplates(tempDir).has("plan")).toBe(true);
+
+    const prompt = buildPlanPrompt({ issueData });
+
+    // Placeholder-like text inside values must not be expanded again.
+    expect(prompt).toStartWith("Plan this:\ntitle: Add {{plan}} support");
+    expect(prompt).toEndWith(RESULT_DELIVERY_INSTRUCTION);
+  } finally {
+    rmSync(tempDir, { recursive: true, force: true });
+  }
+});
+
+test("buildPlanPrompt falls back to the default template without an override", () => {
+  loadPromptTemplates(path.join(createTestSubDir("prompt-templates"), "missing"));
+
+  const prompt = buildPlanPrompt({ issueData });
+
+  expect(prompt).toStartWith("Create an implementation plan");
+  expect(prompt).not.toContain("{{issue}}");
+});
+
+test("loadPromptTemplates reports missing, unknown placeholders and unknown templates", () => {
+  const tempDir = createPromptsDir({
+    "testFix.md": "Fix {{headBranch}} on {{branch}}",
+    "deploy.md": "Deploy",
+  });
+  try {
+    expect(() => loadPromptTemplates(tempDir)).toThrow(
+      /- deploy\.md: unknown template[^\n]*\n- testFix\.md: missing placeholder \{\{testOutput\}\}\n- testFix\.md: unknown placeholder \{\{branch\}\}/,
+    );
+  } finally {
+    rmSync(tempDir, { recursive: true, force: true });
+  }
+});
+
+function createPromptsDir(files: Record<string, string>): string {
+  const tempDir = createTestSubDir("prompt-templates");
+  const promptsDir = path.join(tempDir, "o-agents", "prompts");
+  mkdirSync(promptsDir, { recursive: true });
+  for (const [name, contents] of Object.entries(files)) {
+    writeFileSync(path.join(promptsDir, name), contents, "utf8");
+  }
+  return tempDir;
+}
@@ -0,0 +1,60 @@
+import { expect, test } from "bun:test";
+import { z } from "zod";
+
+import { startResultServer } from "../../../src/agent/resultServer.ts";
+
+const schema = z.object({
+  status: z.enum(["ok", "ng"]),
+  items: z.array(z.object({ name: z.string() })),
+});
+
+test("startResultServer reports every issue with its JSON path and a schema excerpt", async () => {
+  const server = await startResultServer(schema);
+  try {
+    const response = await postJson(server.url, { status: "maybe", items: [{ name: 1 }] });
+    const text = await response.text();
+
+    expect(response.status).toBe(400);
+    expect(text).toContain("Result rejected (attempt 1).");
+    expect(text).toContain("- $.status:");
+    expect(text).toContain("- $.items[0].name:");
+    expect(text).toContain("Expected JSON Schema:");
+    expect(text).toContain('"required":["status","items"]');
+    expect(server.rejectedResults).toHaveLength(1);
+
+    const accepted = await postJson(server.url, { status: "ok", items: [] });
+    expect(accepted.status).toBe(200);
+    expect((await server.waitForResult).result).toEqual({ status: "ok", items: [] });
+  } finally {
+    await server.close();
+  }
+});
+
+test("startResultServer fails with every rejected payload once the cap is reached", async () => {
+  const server = await startResultServer(schema, { maxRejectedResults: 2 });
+  const outcome = server.waitForResult.then(
+    () => undefined,
+    (error: Error) => error,
+  );
+  try {
+    const first = await postJson(server.url, { status: "maybe", items: [] });
+    expect(await first.text()).toContain("attempt 1 of 2");
+    const second = await postJson(server.url, { items: "none" });
+    expect(await second.text()).toContain("No more attempts are allowed");
+
+    const error = await outcome;
+    expect(error?.message).toContain("Agent result was rejected 2 times; giving up.");
+    expect(error?.message).toContain('payload: {"status":"maybe","items":[]}');
+    expect(error?.message).toContain('payload: {"items":"none"}');
+  } finally {
+    await server.close();
+  }
+});
+
+function postJson(url: string, payload: unknown): Promise<Response> {
+  return fetch(url, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(payload),
+  });
+}
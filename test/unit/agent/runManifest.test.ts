@@ -0,0 +1,85 @@
+import { expect, test } from "bun:test";
+import { rmSync } from "node:fs";
+import { z } from "zod";
+
+import {
+  claimAgentCheckpoint,
+  createRunManifest,
+  loadRunManifest,
+  runWithAgentCheckpoints,
+} from "../../../src/agent/runManifest.ts";
+import { createTestSubDir } from "../../../src/utils/testDir.ts";
+
+test("claimAgentCheckpoint returns undefined outside a checkpoint scope", () => {
+  expect(claimAgentCheckpoint("codex-cli", "prompt", undefined)).toBeUndefined();
+});
+
+test("resumed manifest replays completed steps and continues from the first unfinished one", async () => {
+  const tempDir = createTestSubDir("run-manifest");
+  try {
+    const store = createRunManifest(tempDir, { runTimestamp: "ts", argv: ["--target", "1"] });
+    await runWithAgentCheckpoints(store.createCheckpointScope("main-1"), async () => {
+      claimAgentCheckpoint("codex-cli", "plan", undefined)?.complete("the plan", "codex-cli");
+      claimAgentCheckpoint("codex-cli", "implement", undefined)?.complete("done", "codex-cli");
+      // The third step never completes, as if the process died mid-call.
+      claimAgentCheckpoint("codex-cli", "review", undefined);
+    });
+
+    const resumed = loadRunManifest(tempDir);
+    expect(resumed.data.argv).toEqual(["--target", "1"]);
+    await runWithAgentCheckpoints(resumed.createCheckpointScope("main-1"), async () => {
+      expect(claimAgentCheckpoint("codex-cli", "plan", undefined)?.replayed).toEqual({
+        result: "the plan",
+        tool: "codex-cli",
+      });
+      expect(claimAgentCheckpoint("codex-cli", "implement", undefined)?.replayed).toEqual({
+        result: "done",
+        tool: "codex-cli",
+      });
+      expect(claimAgentCheckpoint("codex-cli", "review", undefined)?.replayed).toBeUndefined();
+    });
+  } finally {
+    rmSync(tempDir, { recursive: true, force: true });
+  }
+});
+
+test("changed prompts stop replay for the rest of the scope", async () => {
+  const tempDir = createTestSubDir("run-manifest");
+  try {
+    const store = createRunManifest(tempDir, { runTimestamp: "ts", argv: [] });
+    await runWithAgentCheckpoints(store.createCheckpointScope("main-1"), async () => {
+      claimAgentCheckpoint("codex-cli", "plan", undefined)?.complete("old plan", "codex-cli");
+      claimAgentCheckpoint("codex-cli", "implement", undefined)?.complete("done", "codex-cli");
+    });
+
+    const resumed = loadRunManifest(tempDir);
+    await runWithAgentCheckpoints(resumed.createCheckpointScope("main-1"), async () => {
+      expect(claimAgentCheckpoint("codex-cli", "new plan", undefined)?.replayed).toBeUndefined();
+      expect(claimAgentCheckpoint("codex-cli", "implement", undefined)?.replayed).toBeUndefined();
+    });
+    expect(resumed.getSteps("main-1")).toEqual([]);
+  } finally {
+    rmSync(tempDir, { recursive: true, force: true });
+  }
+});
+
+test("recorded results that no longer match the schema are not replayed", async () => {
+  const tempDir = createTestSubDir("run-manifest");
+  const schema = z.object({ status: z.literal("ok") });
+  try {
+    const store = createRunManifest(tempDir, { runTimestamp: "ts", argv: [] });
+    await runWithAgentCheckpoints(store.createCheckpointScope("main-1"), async () => {
+      claimAgentCheckpoint("codex-cli", "check", undefined)?.complete(
+        { status: "ng" },
+        "codex-cli",
+      );
+    });
+
+    const resumed = loadRunManifest(tempDir);
+    await runWithAgentCheckpoints(resumed.createCheckpointScope("main-1"), async () => {
+      expect(claimAgentCheckpoint("codex-cli", "check", schema)?.replayed).toBeUndefined();
+    });
+  } finally {
+    rmSync(tempDir, { recursive: true, force: true });
+  }
+});
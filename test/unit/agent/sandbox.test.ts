@@ -0,0 +1,209 @@
+import { expect, test } from "bun:test";
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
+import { createServer } from "node:http";
+import { connect } from "node:net";
+import { homedir, tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+
+import {
+  buildSandboxCommand,
+  isHostAllowed,
+  type SandboxNetwork,
+  type SandboxOptions,
+  startAgentSandbox,
+  startEgressProxy,
+} from "../../../src/agent/sandbox.ts";
+
+const context = {
+  cwd: "/work/repo-o-agents-issue-1",
+  mounts: [{ path: "/work/repo/.git", readOnly: true }, { path: "/work/repo/.git/objects" }],
+};
+const network: SandboxNetwork = {
+  socketDir: "/tmp/o-agents-sandbox-1",
+  forwards: [
+    [3128, "/tmp/o-agents-sandbox-1/proxy.sock"],
+    [43210, "/tmp/o-agents-sandbox-1/port-43210.sock"],
+  ],
+};
+
+test("buildSandboxCommand mounts only the worktree and the given paths into bwrap", () => {
+  const options: SandboxOptions = { kind: "bwrap", mounts: ["~/.codex"], env: [] };
+
+  const command = buildSandboxCommand(options, ["codex", "exec", "prompt"], context);
+
+  expect(command.slice(0, 4)).toEqual([
+    "bwrap",
+    "--die-with-parent",
+    "--unshare-all",
+    "--share-net",
+  ]);
+  expect(command.join(" ")).toContain(`--tmpfs ${homedir()}`);
+  // Mounted in order so that the writable objects directory covers the read-only .git.
+  expect(command.join(" ")).toContain(
+    [
+      `--bind-try ${context.cwd} ${context.cwd}`,
+      `--bind-try ${join(homedir(), ".codex")} ${join(homedir(), ".codex")}`,
+      "--ro-bind-try /work/repo/.git /work/repo/.git",
+      "--bind-try /work/repo/.git/objects /work/repo/.git/objects",
+    ].join(" "),
+  );
+  expect(command.slice(-6)).toEqual(["--chdir", context.cwd, "--", "codex", "exec", "prompt"]);
+});
+
+test("buildSandboxCommand passes only the configured variables into bwrap", () => {
+  const saved = { OPENAI_API_KEY: process.env.OPENAI_API_KEY, GH_TOKEN: process.env.GH_TOKEN };
+  process.env.OPENAI_API_KEY = "sk-test";
+  process.env.GH_TOKEN = "ghp_test";
+  try {
+    const command = buildSandboxCommand(
+      { kind: "bwrap", mounts: [], env: ["OPENAI_API_KEY", "UNSET_VARIABLE"] },
+      ["codex"],
+      context,
+    );
+
+    const joined = command.join(" ");
+    expect(command[4]).toBe("--clearenv");
+    expect(joined).toContain(`--setenv PATH ${process.env.PATH}`);
+    expect(joined).toContain("--setenv OPENAI_API_KEY sk-test");
+    expect(joined).not.toContain("UNSET_VARIABLE");
+    expect(joined).not.toContain("GH_TOKEN");
+  } finally {
+    for (const [name, value] of Object.entries(saved)) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  }
+});
+
+test("buildSandboxCommand cuts bwrap off the network and starts the agent behind the forwarder", () => {
+  const command = buildSandboxCommand({ kind: "bwrap", mounts: [], env: [] }, ["codex"], {
+    ...context,
+    network,
+  });
+
+  const joined = command.join(" ");
+  expect(command.slice(0, 4)).toEqual([
+    "bwrap",
+    "--die-with-parent",
+    "--unshare-all",
+    "--clearenv",
+  ]);
+  expect(joined).toContain("--setenv HTTPS_PROXY http://127.0.0.1:3128");
+  expect(joined).toContain("--setenv NO_PROXY 127.0.0.1,localhost");
+  expect(joined).toContain(
+    "--bind-try /work/repo/.git/objects /work/repo/.git/objects --bind-try /tmp/o-agents-sandbox-1 /tmp/o-agents-sandbox-1",
+  );
+  expect(command.slice(-5)).toEqual([
+    "--",
+    "node",
+    "/tmp/o-agents-sandbox-1/forward.mjs",
+    JSON.stringify(network.forwards),
+    "codex",
+  ]);
+});
+
+test("buildSandboxCommand gives containers no network but the forwarded sockets", () => {
+  const options: SandboxOptions = {
+    kind: "podman",
+    image: "agents:latest",
+    allowedHosts: ["api.openai.com"],
+    mounts: [],
+    env: ["OPENAI_API_KEY"],
+  };
+
+  const command = buildSandboxCommand(options, ["codex", "exec", "prompt"], {
+    ...context,
+    terminal: true,
+    network,
+  });
+
+  expect(command.slice(0, 5)).toEqual(["podman", "run", "--rm", "--init", "-it"]);
+  const joined = command.join(" ");
+  expect(joined).toContain("--network none");
+  expect(joined).toContain(`--volume ${context.cwd}:${context.cwd}`);
+  expect(joined).toContain("--volume /work/repo/.git:/work/repo/.git:ro");
+  expect(joined).toContain("--volume /tmp/o-agents-sandbox-1:/tmp/o-agents-sandbox-1");
+  expect(joined).toContain("--env OPENAI_API_KEY");
+  expect(joined).toContain("--env HTTPS_PROXY=http://127.0.0.1:3128");
+  expect(command.slice(-7)).toEqual([
+    "agents:latest",
+    "node",
+    "/tmp/o-agents-sandbox-1/forward.mjs",
+    JSON.stringify(network.forwards),
+    "codex",
+    "exec",
+    "prompt",
+  ]);
+  expect(buildSandboxCommand(options, ["codex"], context).join(" ")).toContain("--network host");
+  expect(() => buildSandboxCommand({ ...options, image: undefined }, ["codex"], context)).toThrow(
+    'sandboxOptions.image is required when sandbox is "podman".',
+  );
+});
+
+test("isHostAllowed matches exact hosts and wildcard subdomains", () => {
+  const allowedHosts = ["api.openai.com", "*.anthropic.com"];
+
+  expect(isHostAllowed("API.openai.com", allowedHosts)).toBe(true);
+  expect(isHostAllowed("api.anthropic.com", allowedHosts)).toBe(true);
+  expect(isHostAllowed("anthropic.com", allowedHosts)).toBe(false);
+  expect(isHostAllowed("evilanthropic.com", allowedHosts)).toBe(false);
+  expect(isHostAllowed("openai.com", allowedHosts)).toBe(false);
+});
+
+test("startEgressProxy proxies allowed hosts and blocks the others", async () => {
+  const upstream = createServer((_req, res) => res.end("upstream"));
+  await new Promise<void>((resolve) => upstream.listen(0, "127.0.0.1", resolve));
+  const address = upstream.address();
+  const port = typeof address === "object" && address ? address.port : 0;
+  const socketDir = mkdtempSync(join(tmpdir(), "o-agents-proxy-"));
+  const socketPath = join(socketDir, "proxy.sock");
+  const close = await startEgressProxy(["127.0.0.1"], socketPath);
+  try {
+    const allowed = await requestThroughProxy(socketPath, `http://127.0.0.1:${port}/`);
+    expect(allowed).toEqual({ status: 200, body: "upstream" });
+
+    const blocked = await requestThroughProxy(socketPath, "http://example.com/");
+    expect(blocked.status).toBe(403);
+  } finally {
+    await close();
+    upstream.close();
+    rmSync(socketDir, { recursive: true, force: true });
+  }
+});
+
+test("startAgentSandbox removes its socket directory when closed", async () => {
+  const sandbox = await startAgentSandbox(
+    { kind: "bwrap", allowedHosts: [], mounts: [], env: [] },
+    ["agent"],
+    { cwd: context.cwd, mounts: [], loopbackPorts: [43210] },
+  );
+  const forwarderPath = sandbox.commandArgs[sandbox.commandArgs.indexOf("node") + 1] ?? "";
+  const forwards = JSON.parse(sandbox.commandArgs.at(-2) ?? "") as [number, string][];
+
+  expect(existsSync(forwarderPath)).toBe(true);
+  expect(forwards.map(([port]) => port)).toEqual([3128, 43210]);
+  expect(forwards.every(([, socketPath]) => existsSync(socketPath))).toBe(true);
+  await sandbox.close();
+  expect(existsSync(dirname(forwarderPath))).toBe(false);
+});
+
+/** Sends an absolute-form request by hand, since Bun's HTTP client refuses it on a Unix socket. */
+function requestThroughProxy(
+  socketPath: string,
+  targetUrl: string,
+): Promise<{ status: number | undefined; body: string }> {
+  return new Promise((resolve, reject) => {
+    let response = "";
+    const socket = connect(socketPath, () => {
+      socket.write(
+        `GET ${targetUrl} HTTP/1.1\r\nHost: ${new URL(targetUrl).host}\r\nConnection: close\r\n\r\n`,
+      );
+    });
+    socket.on("data", (chunk) => (response += chunk));
+    socket.on("error", reject);
+    socket.on("close", () => {
+      const [head = "", body = ""] = response.split("\r\n\r\n");
+      resolve({ status: Number(head.split(" ")[1]) || undefined, body });
+    });
+  });
+}
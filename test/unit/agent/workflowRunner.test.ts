@@ -0,0 +1,111 @@
+import { expect, test } from "bun:test";
+import { execFileSync } from "node:child_process";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+import { getSandboxMounts, runNonInteractiveAgent } from "../../../src/agent/workflowRunner.ts";
+import { createTestSubDir } from "../../../src/utils/testDir.ts";
+
+// Fails on its first call and posts "fixed" to the result server on the next one.
+const FLAKY_AGENT_SCRIPT = `
+if [ ! -e attempts ]; then echo first > attempts; exit 1; fi
+printf '%s' "$1" > retried-prompt
+url=$(printf '%s' "$1" | grep -o 'http://127.0.0.1:[0-9]*[^ ]*' | head -n 1)
+curl -sS -X POST -H "Content-Type: text/plain" --data-binary fixed "$url"
+`;
+
+function createAgentConfigDir(): string {
+  const dir = createTestSubDir("workflow-runner");
+  mkdirSync(join(dir, "o-agents"));
+  writeFileSync(
+    join(dir, "o-agents", "config.toml"),
+    `[agents.flaky]\ncmd = ["sh", "-c", ${JSON.stringify(FLAKY_AGENT_SCRIPT)}, "sh"]\n`,
+  );
+  return dir;
+}
+
+test("runNonInteractiveAgent retries a failed attempt with a note about the failure", async () => {
+  const dir = createAgentConfigDir();
+  try {
+    const result = await runNonInteractiveAgent({
+      tool: "flaky",
+      prompt: "Fix the bug.",
+      cwd: dir,
+      configDir: dir,
+      maxAttempts: 2,
+      retryDelayMs: 10,
+      agentGracePeriodMs: 100,
+    });
+
+    expect(result).toBe("fixed");
+    const retriedPrompt = readFileSync(join(dir, "retried-prompt"), "utf8");
+    expect(retriedPrompt).toStartWith("Note: This is attempt 2 of 2.");
+    expect(retriedPrompt).toContain("Fix the bug.");
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("runNonInteractiveAgent rejects invalid retry settings before starting the agent", async () => {
+  const dir = createAgentConfigDir();
+  try {
+    for (const retryBackoffFactor of [0, -2, Number.NaN]) {
+      await expect(
+        runNonInteractiveAgent({
+          tool: "flaky",
+          prompt: "Fix the bug.",
+          cwd: dir,
+          configDir: dir,
+          maxAttempts: 2,
+          retryBackoffFactor,
+        }),
+      ).rejects.toThrow("retryBackoffFactor must be a number of at least 1.");
+    }
+    expect(existsSync(join(dir, "attempts"))).toBe(false);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("getSandboxMounts keeps the hooks, the config, and the worktree pointers read-only", () => {
+  const dir = createTestSubDir("sandbox-mounts");
+  const repoDir = join(dir, "repo");
+  const worktreeDir = join(dir, "repo-o-agents-issue-1");
+  const originalCwd = process.cwd();
+  const runGit = (args: string[]) => execFileSync("git", args, { cwd: repoDir, stdio: "ignore" });
+  try {
+    mkdirSync(repoDir);
+    runGit(["init", "-b", "main"]);
+    runGit([
+      "-c",
+      "user.email=test@example.com",
+      "-c",
+      "user.name=Test",
+      "commit",
+      "--allow-empty",
+      "-m",
+      "base",
+    ]);
+    runGit(["worktree", "add", "-b", "fix", worktreeDir]);
+    process.chdir(repoDir);
+
+    const gitDir = join(process.cwd(), ".git");
+    const adminDir = join(gitDir, "worktrees", "repo-o-agents-issue-1");
+    expect(getSandboxMounts(worktreeDir)).toEqual([
+      { path: gitDir, readOnly: true },
+      { path: join(gitDir, "objects") },
+      { path: join(gitDir, "refs") },
+      { path: join(gitDir, "logs") },
+      { path: adminDir },
+      { path: join(adminDir, "commondir"), readOnly: true },
+      { path: join(adminDir, "gitdir"), readOnly: true },
+      { path: join(worktreeDir, ".git"), readOnly: true },
+    ]);
+    // A pointer outside .git/worktrees is not mounted.
+    writeFileSync(join(worktreeDir, ".git"), `gitdir: ${dir}\n`);
+    expect(getSandboxMounts(worktreeDir).map(({ path }) => path)).not.toContain(dir);
+  } finally {
+    process.chdir(originalCwd);
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
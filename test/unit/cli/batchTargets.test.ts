@@ -0,0 +1,33 @@
+import { expect, test } from "bun:test";
+
+import { dedupeTargets, type ResolvedTargetKind } from "../../../src/cli/batchTargets.ts";
+import { githubForge } from "../../../src/github/gh.ts";
+
+const forge = {
+  ...githubForge,
+  resolveTargetKind: async (target: string) => {
+    const number = Number(/(\d+)$/.exec(target)?.[1]);
+    if (!number) throw new Error(`Invalid target: ${target}`);
+    return { kind: "issue" as const, number };
+  },
+};
+
+test("dedupeTargets drops targets naming an earlier one and keeps their resolved kinds", async () => {
+  const targetKinds = new Map<string, ResolvedTargetKind>();
+
+  expect(
+    await dedupeTargets(["https://github.com/o/r/issues/12", "12", "19"], forge, targetKinds),
+  ).toEqual(["https://github.com/o/r/issues/12", "19"]);
+  expect(targetKinds.get("19")).toEqual({ kind: "issue", number: 19 });
+});
+
+test("dedupeTargets keeps targets that fail to resolve for their own run to report", async () => {
+  const targetKinds = new Map<string, ResolvedTargetKind>();
+
+  expect(await dedupeTargets(["12", "oops", "19"], forge, targetKinds)).toEqual([
+    "12",
+    "oops",
+    "19",
+  ]);
+  expect(targetKinds.has("oops")).toBe(false);
+});
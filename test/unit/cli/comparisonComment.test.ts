@@ -0,0 +1,65 @@
+import { expect, test } from "bun:test";
+
+import {
+  buildComparisonCommentBody,
+  buildMetricsTable,
+} from "../../../src/cli/comparisonComment.ts";
+
+const PR_A = "https://github.com/o/r/pull/1";
+const PR_B = "https://github.com/o/r/pull/2";
+
+test("buildMetricsTable renders a row per PR with test, command, and usage columns", () => {
+  const table = buildMetricsTable(
+    [
+      { tool: "codex-cli", pullRequestUrl: PR_A, usage: { totalTokens: 12_345, costUsd: 0.5 } },
+      { tool: "claude-code", pullRequestUrl: PR_B },
+      { tool: "gemini-cli" },
+    ],
+    new Map([
+      [
+        PR_A,
+        {
+          filesChanged: 2,
+          linesAdded: 10,
+          linesRemoved: 3,
+          testExitCode: 0,
+          commands: { lint: 1 },
+        },
+      ],
+      [PR_B, undefined],
+    ]),
+    ["lint"],
+  );
+
+  expect(table).toBe(
+    [
+      "📊 Metrics:",
+      "| PR | Agent | Files | Lines | Tests | lint | Tokens | Cost |",
+      "| --- | --- | --- | --- | --- | --- | --- | --- |",
+      `| ${PR_A} | codex-cli | 2 | +10 / -3 | ✅ | ❌ (exit 1) | 12,345 | $0.50 |`,
+      `| ${PR_B} | claude-code | N/A | N/A | N/A | N/A | N/A | N/A |`,
+    ].join("\n"),
+  );
+});
+
+test("buildComparisonCommentBody names the winning agent and lists votes of a panel", () => {
+  const body = buildComparisonCommentBody({
+    bestPrUrl: PR_B,
+    reason: "Smaller diff.",
+    votes: [
+      { judge: "codex-cli", bestPrUrl: PR_B, reason: "Smaller\ndiff." },
+      { judge: "claude-code", bestPrUrl: PR_A, reason: "Has tests." },
+    ],
+    results: [
+      { tool: "codex-cli", pullRequestUrl: PR_A },
+      { tool: "claude-code", pullRequestUrl: PR_B },
+    ],
+    metricsByUrl: new Map(),
+    metricNames: [],
+  });
+
+  expect(body).toStartWith("<!-- o-agents:compare-result -->\n");
+  expect(body).toContain(`🏆 Winner: ${PR_B} (agent: claude-code)`);
+  expect(body).toContain(`- **codex-cli** picked ${PR_B}: Smaller diff.`);
+  expect(body).toContain(`- **claude-code** picked ${PR_A}: Has tests.`);
+});
@@ -60,6 +60,117 @@ versionCmd = ["custom", "--version"]
     expect(config?.agents.custom?.versionCmd).toEqual(["custom", "--version"]);
   });
 
+  test("loadConfigFile rejects invalid usage patterns", () => {
+    writeConfig(`
+[agents.custom]
+cmd = ["custom"]
+usagePatterns = { costUsd = "cost: ([\\d.]+" }
+`);
+
+    expect(() => loadConfigFile(TEST_DIR)).toThrow(
+      "Invalid agent entry 'custom': usagePatterns.costUsd must be a valid regular expression",
+    );
+  });
+
+  test("loadConfigFile parses comparison metric commands", () => {
+    writeConfig(`
+[metrics]
+test = "bun test"
+lint = "bun run lint"
+`);
+
+    expect(loadConfigFile(TEST_DIR)?.metrics).toEqual({ test: "bun test", lint: "bun run lint" });
+
+    writeConfig(`
+[metrics]
+test = " "
+`);
+    expect(() => loadConfigFile(TEST_DIR)).toThrow(
+      "Invalid metrics entry 'test': must be a non-empty command string",
+    );
+  });
+
+  test("loadConfigFile parses redaction settings", () => {
+    writeConfig(`
+[redaction]
+env = ["DEPLOY_KEY"]
+patterns = ["acme_[0-9a-f]{8}"]
+`);
+
+    expect(loadConfigFile(TEST_DIR)?.redaction).toEqual({
+      env: ["DEPLOY_KEY"],
+      patterns: ["acme_[0-9a-f]{8}"],
+    });
+
+    writeConfig(`
+[redaction]
+patterns = ["acme_("]
+`);
+    expect(() => loadConfigFile(TEST_DIR)).toThrow(
+      "redaction.patterns[0] must be a valid regular expression",
+    );
+  });
+
+  test("loadConfigFile parses comment approval", () => {
+    writeConfig(`
+approval = "comment"
+
+[approvalOptions]
+allowedUsers = ["octocat"]
+timeoutMinutes = 5
+`);
+
+    expect(loadConfigFile(TEST_DIR)?.commentApproval).toEqual({
+      allowedUsers: ["octocat"],
+      timeoutMs: 300_000,
+      pollIntervalMs: 30_000,
+    });
+
+    writeConfig(`approval = "terminal"`);
+    expect(loadConfigFile(TEST_DIR)?.commentApproval).toBeUndefined();
+
+    writeConfig(`approval = "comment"`);
+    expect(() => loadConfigFile(TEST_DIR)).toThrow(
+      'approvalOptions.allowedUsers is required when approval is "comment"',
+    );
+
+    writeConfig(`
+[approvalOptions]
+timeoutMinutes = 0
+`);
+    expect(() => loadConfigFile(TEST_DIR)).toThrow(
+      "approvalOptions.timeoutMinutes must be a positive number",
+    );
+  });
+
+  test("loadConfigFile parses the agent sandbox", () => {
+    writeConfig(`
+sandbox = "docker"
+
+[sandboxOptions]
+image = "ghcr.io/acme/agents:latest"
+allowedHosts = ["api.openai.com"]
+`);
+
+    expect(loadConfigFile(TEST_DIR)?.sandbox).toEqual({
+      kind: "docker",
+      image: "ghcr.io/acme/agents:latest",
+      allowedHosts: ["api.openai.com"],
+      mounts: [],
+      env: [],
+    });
+
+    writeConfig(`sandbox = "podman"`);
+    expect(() => loadConfigFile(TEST_DIR)).toThrow(
+      'sandboxOptions.image is required when sandbox is "podman"',
+    );
+
+    writeConfig(`sandbox = "chroot"`);
+    expect(() => loadConfigFile(TEST_DIR)).toThrow(
+      `'sandbox' must be "bwrap", "docker", or "podman"`,
+    );
+  });
+
   test("loadConfigFile allows agents without config presets", () => {
     writeConfig(`
 [agents.only]
@@ -132,6 +243,24 @@ args = ["--target", "123", "--main", "codex-cli"]
     expect(() => loadConfigFile(TEST_DIR)).toThrow("not allowed");
   });
 
+  test("loadConfigFile throws on --targets in config args", () => {
+    writeConfig(`
+[config.bad]
+args = ["--targets=1,2", "--main", "codex-cli"]
+`);
+
+    expect(() => loadConfigFile(TEST_DIR)).toThrow("not allowed");
+  });
+
+  test("loadConfigFile throws on --targets-query in config args", () => {
+    writeConfig(`
+[config.bad]
+args = ["--targets-query", "label:bug", "--main", "codex-cli"]
+`);
+
+    expect(() => loadConfigFile(TEST_DIR)).toThrow("not allowed");
+  });
+
   test("loadConfigFile throws on missing agent cmd", () => {
     writeConfig(`
 [agents.bad]
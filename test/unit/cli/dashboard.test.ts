@@ -0,0 +1,81 @@
+import { expect, test } from "bun:test";
+
+import {
+  applyLogRecord,
+  type DashboardColumn,
+  startDashboard,
+} from "../../../src/cli/dashboard.ts";
+import { logger } from "../../../src/utils/logger.ts";
+
+test("applyLogRecord tracks each workflow run in the column of its main prefix", () => {
+  const columns = new Map<string, DashboardColumn>();
+  const context = { mainPrefix: "[main-1]" };
+  const time = "2026-01-01T00:00:00.000Z";
+  applyLogRecord(columns, {
+    kind: "event",
+    event: { type: "workflow_started", time, target: "issue-7", tool: "codex", workflow: "w.ts" },
+    context,
+  });
+  applyLogRecord(columns, {
+    kind: "event",
+    event: { type: "step_started", time, step: "plan" },
+    context,
+  });
+  applyLogRecord(columns, {
+    kind: "output",
+    text: "\u001b[31m[plan] thinking\u001b[0m\n",
+    isError: false,
+    context,
+  });
+  applyLogRecord(columns, {
+    kind: "event",
+    event: {
+      type: "workflow_finished",
+      time,
+      exitCode: 0,
+      durationMs: 5,
+      pullRequestUrl: "https://github.com/o/r/pull/1",
+    },
+    context,
+  });
+  applyLogRecord(columns, { kind: "output", text: "outside\n", isError: false, context: {} });
+
+  expect(columns.get("[main-1]")).toEqual({
+    id: "[main-1]",
+    target: "issue-7",
+    tool: "codex",
+    workflow: "w.ts",
+    step: "plan",
+    startedAt: time,
+    finishedAt: time,
+    exitCode: 0,
+    pullRequestUrl: "https://github.com/o/r/pull/1",
+    log: "[plan] thinking\n",
+  });
+  expect(columns.get("run")?.log).toBe("outside\n");
+});
+
+test("startDashboard serves the page and streams logger output", async () => {
+  const dashboard = await startDashboard();
+  try {
+    const page = await fetch(dashboard.url);
+    expect(await page.text()).toContain("EventSource");
+
+    const response = await fetch(new URL("/events", dashboard.url));
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    const snapshot = decoder.decode((await reader.read()).value);
+    expect(snapshot).toStartWith("event: snapshot\n");
+
+    logger.runWithContext({ mainPrefix: "[compare-2]" }, () => {
+      logger.info("hello dashboard");
+    });
+    const output = decoder.decode((await reader.read()).value);
+    expect(output).toContain("event: output\n");
+    expect(output).toContain('"id":"[compare-2]"');
+    expect(output).toContain("hello dashboard");
+    await reader.cancel();
+  } finally {
+    await dashboard.close();
+  }
+});
@@ -0,0 +1,72 @@
+import { expect, test } from "bun:test";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { basename, dirname, join } from "node:path";
+
+import { printDryRunPlan } from "../../../src/cli/dryRun.ts";
+import { parseArgs } from "../../../src/cli/parseArgs.ts";
+import type { Forge } from "../../../src/forge/forge.ts";
+import { githubForge } from "../../../src/github/gh.ts";
+import { logger } from "../../../src/utils/logger.ts";
+import { createTestSubDir } from "../../../src/utils/testDir.ts";
+
+const forge: Forge = {
+  ...githubForge,
+  resolveTargetKind: async () => ({ kind: "issue", number: 7 }),
+};
+
+test("printDryRunPlan prints the worktree, branch, agent command, and init command of each run", async () => {
+  const cwd = createTestSubDir("dry-run");
+  mkdirSync(join(cwd, "o-agents"));
+  writeFileSync(
+    join(cwd, "o-agents", "config.toml"),
+    'sandbox = "bwrap"\n[sandboxOptions]\nallowedHosts = ["api.openai.com"]\n',
+  );
+  const lines: string[] = [];
+  const unsubscribe = logger.subscribe((record) => {
+    if (record.kind === "output") lines.push(record.text.trimEnd());
+  });
+  try {
+    await printDryRunPlan({
+      args: parseArgs([
+        "node",
+        "o-agents",
+        "--target",
+        "7",
+        "--main",
+        "codex",
+        "--compare",
+        "claude",
+        "--init",
+        "bun install",
+      ]),
+      targets: ["7"],
+      cwd,
+      forge,
+    });
+  } finally {
+    unsubscribe();
+    rmSync(cwd, { recursive: true, force: true });
+  }
+
+  const output = lines.join("\n");
+  expect(output).toContain("Sandbox: bwrap (network: api.openai.com)");
+  expect(output).toContain("Target: issue #7");
+  for (const [runIndex, label] of [
+    [1, "[main-1] agent=codex-cli"],
+    [2, "[compare-2] agent=claude-code"],
+  ] as const) {
+    expect(output).toContain(label);
+    expect(output).toMatch(
+      new RegExp(`branch=o-agents/issue-7-\\d{8}-\\d{6}_\\d{4}-${runIndex}\\n`),
+    );
+    const worktreePath = lines
+      .find((line) => line.includes("worktree=") && line.endsWith(`-${runIndex}`))
+      ?.split("worktree=")[1];
+    expect(worktreePath).toStartWith(join(dirname(cwd), `${basename(cwd)}-o-agents-issue-7-`));
+    // Sandboxed agents start in the run's own worktree.
+    expect(output).toContain(`--chdir ${worktreePath} -- `);
+  }
+  expect(output).toContain("@openai/codex@latest exec");
+  expect(output).toContain("'<prompt>'");
+  expect(output).toContain("init=bun install");
+});
@@ -0,0 +1,74 @@
+import { expect, test } from "bun:test";
+
+import { collectJudgeVotes, tallyJudgeVotes } from "../../../src/cli/judgeVotes.ts";
+
+const PR_A = "https://github.com/o/r/pull/1";
+const PR_B = "https://github.com/o/r/pull/2";
+
+test("tallyJudgeVotes picks the PR with the most votes", () => {
+  const result = tallyJudgeVotes(
+    [
+      { judge: "codex-cli", bestPrUrl: PR_A, reason: "A is simpler." },
+      { judge: "claude-code", bestPrUrl: `${PR_B}/`, reason: "B has tests." },
+      { judge: "gemini-cli", bestPrUrl: PR_B, reason: "B is correct." },
+    ],
+    [PR_A, PR_B],
+  );
+
+  expect(result.bestPrUrl).toBe(PR_B);
+  expect(result.reason).toBe("Selected by claude-code, gemini-cli (2/3 votes).\nB has tests.");
+});
+
+test("tallyJudgeVotes breaks ties by judge order and ignores abstentions", () => {
+  const result = tallyJudgeVotes(
+    [
+      { judge: "gemini-cli", bestPrUrl: "N/A", reason: "Neither works." },
+      { judge: "claude-code", bestPrUrl: PR_B, reason: "B." },
+      { judge: "codex-cli", bestPrUrl: PR_A, reason: "A." },
+    ],
+    [PR_A, PR_B],
+  );
+
+  expect(result.bestPrUrl).toBe(PR_B);
+  expect(result.reason).toStartWith(
+    "Selected by claude-code (1/3 votes; tie broken by judge order).",
+  );
+});
+
+test("tallyJudgeVotes returns N/A when every judge abstains", () => {
+  const result = tallyJudgeVotes(
+    [
+      { judge: "codex-cli", bestPrUrl: "N/A", reason: "None." },
+      { judge: "claude-code", bestPrUrl: "https://github.com/o/r/pull/9", reason: "Unknown." },
+    ],
+    [PR_A, PR_B],
+  );
+
+  expect(result).toEqual({ bestPrUrl: "N/A", reason: "No judge selected an acceptable PR." });
+});
+
+test("collectJudgeVotes records a failed judge as an abstention", async () => {
+  const votes = await collectJudgeVotes(["codex-cli", "claude-code"], async (judge) => {
+    if (judge === "codex-cli") throw new Error("Agent exited before posting a result (exit 1).");
+    return { bestPrUrl: PR_B, reason: "B has tests." };
+  });
+
+  expect(votes).toEqual([
+    {
+      judge: "codex-cli",
+      bestPrUrl: "N/A",
+      reason: "Abstained: the judge failed.",
+      error: "Agent exited before posting a result (exit 1).",
+    },
+    { judge: "claude-code", bestPrUrl: PR_B, reason: "B has tests." },
+  ]);
+  expect(tallyJudgeVotes(votes, [PR_A, PR_B]).bestPrUrl).toBe(PR_B);
+});
+
+test("collectJudgeVotes fails when every judge failed", async () => {
+  await expect(
+    collectJudgeVotes(["codex-cli", "claude-code"], async (judge) => {
+      throw new Error(`${judge} crashed`);
+    }),
+  ).rejects.toThrow("codex-cli crashed");
+});
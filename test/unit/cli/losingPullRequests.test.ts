@@ -0,0 +1,110 @@
+import { afterEach, expect, test } from "bun:test";
+
+import { handleLosingPullRequests, LOST_LABEL } from "../../../src/cli/losingPullRequests.ts";
+import type { Forge } from "../../../src/forge/forge.ts";
+import { githubForge } from "../../../src/github/gh.ts";
+import { gitlabForge } from "../../../src/gitlab/glab.ts";
+import { installFakeCli } from "../../../src/utils/testCli.ts";
+
+const PR_A = "https://github.com/o/r/pull/1";
+const PR_B = "https://github.com/o/r/pull/2";
+const PR_C = "https://github.com/o/r/pull/3";
+
+let restoreCli: (() => void) | undefined;
+
+afterEach(() => {
+  restoreCli?.();
+  restoreCli = undefined;
+});
+
+/** A forge that records the PRs it labels and fails for those in `failingUrls`. */
+function createLabelingForge(failingUrls: string[] = []): { forge: Forge; labeled: string[] } {
+  const labeled: string[] = [];
+  const forge: Forge = {
+    ...githubForge,
+    addPullRequestLabel: async ({ pullRequestUrl, label }) => {
+      if (failingUrls.includes(pullRequestUrl)) throw new Error("HTTP 502");
+      expect(label).toBe(LOST_LABEL);
+      labeled.push(pullRequestUrl);
+    },
+  };
+  return { forge, labeled };
+}
+
+test("handleLosingPullRequests acts on every compared PR except the winner", async () => {
+  const { forge, labeled } = createLabelingForge();
+
+  const outcomes = await handleLosingPullRequests({
+    bestPrUrl: ` ${PR_B}\n`,
+    pullRequests: [{ pullRequestUrl: PR_A }, { pullRequestUrl: PR_B }, { pullRequestUrl: PR_C }],
+    action: "label",
+    deleteBranches: false,
+    forge,
+  });
+
+  expect(labeled).toEqual([PR_A, PR_C]);
+  expect(outcomes).toEqual([
+    { pullRequestUrl: PR_A, action: "label", branchDeleted: undefined },
+    { pullRequestUrl: PR_C, action: "label", branchDeleted: undefined },
+  ]);
+});
+
+test("handleLosingPullRequests leaves every PR open when no compared PR was picked", async () => {
+  const { forge, labeled } = createLabelingForge();
+
+  const outcomes = await handleLosingPullRequests({
+    bestPrUrl: "N/A",
+    pullRequests: [{ pullRequestUrl: PR_A }, { pullRequestUrl: PR_B }],
+    action: "label",
+    deleteBranches: false,
+    forge,
+  });
+
+  expect(outcomes).toEqual([]);
+  expect(labeled).toEqual([]);
+});
+
+test("handleLosingPullRequests reports a failed PR and continues with the rest", async () => {
+  const { forge, labeled } = createLabelingForge([PR_A]);
+
+  const outcomes = await handleLosingPullRequests({
+    bestPrUrl: PR_C,
+    pullRequests: [{ pullRequestUrl: PR_A }, { pullRequestUrl: PR_B }, { pullRequestUrl: PR_C }],
+    action: "label",
+    deleteBranches: false,
+    forge,
+  });
+
+  expect(labeled).toEqual([PR_B]);
+  expect(outcomes).toEqual([
+    { pullRequestUrl: PR_A, action: "label", error: "HTTP 502" },
+    { pullRequestUrl: PR_B, action: "label", branchDeleted: undefined },
+  ]);
+});
+
+test("handleLosingPullRequests drafts GitLab merge requests by prefixing their title once", async () => {
+  const mergeRequestUrl = (iid: number) =>
+    `https://gitlab.com/group/project/-/merge_requests/${iid}`;
+  const cli = installFakeCli("glab", [
+    { match: "--method PUT", stdout: "{}" },
+    { match: "merge_requests/1", stdout: JSON.stringify({ iid: 1, title: "Add cache" }) },
+    { match: "merge_requests/2", stdout: JSON.stringify({ iid: 2, title: "Draft: Add index" }) },
+  ]);
+  restoreCli = cli.restore;
+
+  const outcomes = await handleLosingPullRequests({
+    bestPrUrl: mergeRequestUrl(3),
+    pullRequests: [1, 2, 3].map((iid) => ({ pullRequestUrl: mergeRequestUrl(iid) })),
+    action: "draft",
+    deleteBranches: false,
+    forge: gitlabForge,
+  });
+
+  expect(outcomes.map((outcome) => outcome.error)).toEqual([undefined, undefined]);
+  expect(cli.calls()).toEqual([
+    ["api", "projects/:id/merge_requests/1"],
+    ["api", "--method", "PUT", "projects/:id/merge_requests/1", "-f", "title=Draft: Add cache"],
+    // Already a draft, so the title is left alone.
+    ["api", "projects/:id/merge_requests/2"],
+  ]);
+});
@@ -2,7 +2,13 @@ import { expect, test, describe, beforeEach, afterEach } from "bun:test";
 import { existsSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 
-import { parseArgs, parseArgsWithConfig } from "../../../src/cli/parseArgs.ts";
+import {
+  parseArgs,
+  parseArgsWithConfig,
+  parseReportArgs,
+  parseResumeArgs,
+} from "../../../src/cli/parseArgs.ts";
+import { createAgentRegistry } from "../../../src/agent/agentRegistry.ts";
 
 const DEFAULT_WORKFLOW = "o-agents/workflowNoTest.ts";
 const TEST_DIR = join(import.meta.dir, ".test-parseargs");
@@ -36,6 +42,84 @@ test("parseArgs defaults shorthand main workflow", () => {
   expect(parsed.main?.params).toBeUndefined();
   expect(parsed.concurrency).toBe(1);
   expect(parsed.commandConcurrency).toBeUndefined();
+  expect(parsed.dryRun).toBe(false);
+});
+
+test("parseArgs enables auto-approval with --yes", () => {
+  const argvBase = ["node", "o-agents", "--target", "123", "--main", "codex"];
+  expect(parseArgs(argvBase).autoApprove).toBe(false);
+  expect(parseArgs([...argvBase, "--yes"]).autoApprove).toBe(true);
+});
+
+test("parseArgs enables dry-run mode", () => {
+  const argv = ["node", "o-agents", "--target", "123", "--main", "codex", "--dry-run"];
+  const parsed = parseArgs(argv);
+  expect(parsed.dryRun).toBe(true);
+});
+
+test("parseArgs accepts an extra run report path", () => {
+  const argv = ["node", "o-agents", "--target", "123", "--main", "codex", "--report", "out.json"];
+  const parsed = parseArgs(argv);
+  expect(parsed.reportPath).toBe("out.json");
+});
+
+test("parseArgs resolves judge aliases and rejects unknown judges", () => {
+  const argvBase = ["node", "o-agents", "--target", "123", "--main", "codex"];
+  expect(parseArgs([...argvBase, "--judges", "codex, claude,codex"]).judges).toEqual([
+    "codex-cli",
+    "claude-code",
+  ]);
+  expect(parseArgs(argvBase).judges).toBeUndefined();
+  expect(() => parseArgs([...argvBase, "--judges", "codex,nope"])).toThrow('Unknown judge "nope".');
+});
+
+test("parseArgs validates how losing PRs are handled", () => {
+  const argvBase = ["node", "o-agents", "--target", "123", "--main", "codex"];
+  const parsed = parseArgs([...argvBase, "--losers", "close", "--delete-loser-branches"]);
+  expect(parsed.loserAction).toBe("close");
+  expect(parsed.deleteLoserBranches).toBe(true);
+  expect(parseArgs(argvBase).loserAction).toBeUndefined();
+  expect(() => parseArgs([...argvBase, "--losers", "merge"])).toThrow(
+    "--losers must be one of: close, draft, label.",
+  );
+  expect(() => parseArgs([...argvBase, "--losers", "label", "--delete-loser-branches"])).toThrow(
+    "--delete-loser-branches requires --losers close.",
+  );
+});
+
+test("parseArgs accepts a positive budget in USD", () => {
+  const argvBase = ["node", "o-agents", "--target", "123", "--main", "codex"];
+  const registry = createCostReportingRegistry({});
+  expect(parseArgs([...argvBase, "--budget", "2.5"], registry).budgetUsd).toBe(2.5);
+  expect(parseArgs([...argvBase, "--budget", "$3"], registry).budgetUsd).toBe(3);
+  expect(parseArgs(argvBase, registry).budgetUsd).toBeUndefined();
+  expect(() => parseArgs([...argvBase, "--budget", "0"], registry)).toThrow(
+    "--budget must be a positive number of USD.",
+  );
+});
+
+test("parseArgs rejects --budget when an agent of the run does not report its cost", () => {
+  const registry = createCostReportingRegistry({ codex: ["gemini"] });
+  const argv = ["node", "o-agents", "--target", "123", "--main", "codex", "--budget", "1"];
+
+  expect(() => parseArgs([...argv, "--compare", "opencode"], registry)).toThrow(
+    "--budget requires agents that report their cost, but gemini-cli, opencode-ai do not.",
+  );
+  // claude-code reports its cost out of the box.
+  expect(
+    parseArgs(["node", "o-agents", "--target", "123", "--main", "claude", "--budget", "1"])
+      .budgetUsd,
+  ).toBe(1);
+});
+
+test("parseArgs serves the dashboard on a free or given port with --ui", () => {
+  const argvBase = ["node", "o-agents", "--target", "123", "--main", "codex"];
+  expect(parseArgs(argvBase).uiPort).toBeUndefined();
+  expect(parseArgs([...argvBase, "--ui"]).uiPort).toBe(0);
+  expect(parseArgs([...argvBase, "--ui", "4310"]).uiPort).toBe(4310);
+  expect(() => parseArgs([...argvBase, "--ui", "http"])).toThrow(
+    "--ui port must be an integer between 0 and 65535.",
+  );
 });
 
 test("parseArgs inherits main workflow and params for shorthand compare", () => {
@@ -111,6 +195,50 @@ test("parseArgs rejects non-positive command concurrency", () => {
   );
 });
 
+test("parseArgs splits comma-separated --targets", () => {
+  const argv = ["node", "o-agents", "--targets", "12, 15,,19", "--main", "codex"];
+  const parsed = parseArgs(argv);
+  expect(parsed.target).toBeUndefined();
+  expect(parsed.targets).toEqual(["12", "15", "19"]);
+});
+
+test("parseArgs accepts --targets-query", () => {
+  const argv = ["node", "o-agents", "--targets-query", "label:agent-ready", "--main", "codex"];
+  const parsed = parseArgs(argv);
+  expect(parsed.targetsQuery).toBe("label:agent-ready");
+});
+
+test("parseArgs rejects combining target options", () => {
+  const argv = ["node", "o-agents", "--target", "1", "--targets", "2,3", "--main", "codex"];
+  expect(() => parseArgs(argv)).toThrow("Use only one of --target, --targets, or --targets-query.");
+});
+
+test("parseResumeArgs extracts the run timestamp", () => {
+  expect(parseResumeArgs(["node", "o-agents", "resume", "20250101-120000_0001"])).toBe(
+    "20250101-120000_0001",
+  );
+  expect(parseResumeArgs(["node", "o-agents", "--target", "123"])).toBeUndefined();
+  expect(() => parseResumeArgs(["node", "o-agents", "resume"])).toThrow(
+    "Provide the run timestamp to resume",
+  );
+  expect(() => parseResumeArgs(["node", "o-agents", "resume", "../../etc"])).toThrow(
+    'Invalid run timestamp "../../etc".',
+  );
+  expect(() => parseReportArgs(["node", "o-agents", "report", "a\\b"])).toThrow(
+    'Invalid run timestamp "a\\b".',
+  );
+});
+
+test("parseReportArgs extracts the run timestamp", () => {
+  expect(parseReportArgs(["node", "o-agents", "report", "20250101-120000_0001"])).toBe(
+    "20250101-120000_0001",
+  );
+  expect(parseReportArgs(["node", "o-agents", "resume", "20250101-120000_0001"])).toBeUndefined();
+  expect(() => parseReportArgs(["node", "o-agents", "report", "a", "b"])).toThrow(
+    "Unexpected arguments after report: b",
+  );
+});
+
 describe("parseArgsWithConfig", () => {
   beforeEach(() => {
     if (!existsSync(TEST_DIR)) {
@@ -194,3 +322,16 @@ function writeConfig(contents: string): void {
   mkdirSync(CONFIG_DIR, { recursive: true });
   writeFileSync(CONFIG_PATH, contents);
 }
+
+/** Registry in which only codex-cli reports its cost. */
+function createCostReportingRegistry(fallbacks: Record<string, string[]>) {
+  return createAgentRegistry({
+    config: {},
+    agents: {
+      "codex-cli": { cmd: ["codex", "exec"], usagePatterns: { costUsd: "cost: ([\\d.]+)" } },
+    },
+    fallbacks,
+    metrics: {},
+    redaction: {},
+  });
+}
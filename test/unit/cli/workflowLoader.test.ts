@@ -0,0 +1,46 @@
+import { expect, test } from "bun:test";
+import { z } from "zod";
+
+import { validateWorkflowModule } from "../../../src/cli/workflowLoader.ts";
+import { defineWorkflow } from "../../../src/workflow/defineWorkflow.ts";
+
+const source = "file:///workflow.ts";
+
+test("validateWorkflowModule accepts a schema exported next to the default function", () => {
+  const paramsSchema = z.object({ retries: z.number() });
+  const run = async () => 0;
+
+  expect(validateWorkflowModule({ default: run, paramsSchema }, source)).toEqual({
+    run,
+    paramsSchema,
+  });
+});
+
+test("validateWorkflowModule picks up the schema attached by defineWorkflow", async () => {
+  const paramsSchema = z.object({ retries: z.number().default(1) });
+  const workflow = defineWorkflow(paramsSchema, async (_context, params) => params.retries);
+
+  const loaded = validateWorkflowModule({ default: workflow }, source);
+
+  expect(loaded.paramsSchema).toBe(paramsSchema);
+  expect(await loaded.run({} as never, { retries: 3 })).toBe(3);
+});
+
+test("validateWorkflowModule rejects modules that break the contract", () => {
+  const paramsSchema = z.object({});
+  expect(() => validateWorkflowModule({}, source)).toThrow(
+    "Workflow file must export a default function",
+  );
+  expect(() =>
+    validateWorkflowModule({ default: async (_a: unknown, _b: unknown, _c: unknown) => 0 }, source),
+  ).toThrow("must take (context, params)");
+  expect(() =>
+    validateWorkflowModule(
+      { default: defineWorkflow(paramsSchema, async () => 0), paramsSchema },
+      source,
+    ),
+  ).toThrow("not both");
+  expect(() =>
+    validateWorkflowModule({ default: async () => 0, paramsSchema: { parse: "no" } }, source),
+  ).toThrow("Workflow paramsSchema must be a Zod schema");
+});
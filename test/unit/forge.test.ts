@@ -0,0 +1,15 @@
+import { expect, test } from "bun:test";
+
+import { detectForgeKind } from "../../src/forge/forge.ts";
+
+test("detectForgeKind recognizes GitLab remotes in scp, ssh, and https form", () => {
+  expect(detectForgeKind("git@gitlab.com:group/sub/project.git")).toBe("gitlab");
+  expect(detectForgeKind("ssh://git@gitlab.example.com:2222/group/project.git")).toBe("gitlab");
+  expect(detectForgeKind("https://gitlab.internal.example.com/group/project")).toBe("gitlab");
+});
+
+test("detectForgeKind defaults to GitHub", () => {
+  expect(detectForgeKind("git@github.com:octo-org/octo-repo.git")).toBe("github");
+  expect(detectForgeKind("https://git.example.com/group/project.git")).toBe("github");
+  expect(detectForgeKind(undefined)).toBe("github");
+});
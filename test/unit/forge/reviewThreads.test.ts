@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { execFileSync } from "node:child_process";
+import { rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+import {
+  buildReviewThreadReplies,
+  deferReviewThreadResponses,
+  getOpenReviewThreads,
+  publishReviewThreadResponses,
+} from "../../../src/forge/reviewThreads.ts";
+import type { IssueData, ReviewThread } from "../../../src/types.ts";
+import { installFakeCli } from "../../../src/utils/testCli.ts";
+import { createTestSubDir } from "../../../src/utils/testDir.ts";
+
+const openThread: ReviewThread = {
+  id: "T_1",
+  path: "src/a.ts",
+  line: 3,
+  isResolved: false,
+  comments: [{ author: "alice", body: "Rename this." }],
+};
+const resolvedThread: ReviewThread = { ...openThread, id: "T_2", isResolved: true };
+
+const originalCwd = process.cwd();
+let repoDir: string;
+let restoreCli: (() => void) | undefined;
+
+beforeEach(() => {
+  repoDir = createTestSubDir("review-threads");
+  runGit(["init", "-b", "main"]);
+  runGit(["config", "user.email", "test@example.com"]);
+  runGit(["config", "user.name", "Test User"]);
+  commitFile("base.txt");
+  runGit(["checkout", "-b", "fix"]);
+  commitFile("fix.txt");
+  process.chdir(repoDir);
+});
+
+afterEach(() => {
+  process.chdir(originalCwd);
+  restoreCli?.();
+  restoreCli = undefined;
+  rmSync(repoDir, { recursive: true, force: true });
+});
+
+test("getOpenReviewThreads returns the unresolved threads of PR targets only", () => {
+  const pr: IssueData = {
+    title: "PR",
+    body: "",
+    url: "https://github.com/o/r/pull/4",
+    comments: [],
+    kind: "pr",
+    number: 4,
+    reviewThreads: [openThread, resolvedThread],
+  };
+
+  expect(getOpenReviewThreads(pr)).toEqual([openThread]);
+  expect(getOpenReviewThreads({ ...pr, kind: "issue" })).toEqual([]);
+  expect(getOpenReviewThreads({ ...pr, number: undefined })).toEqual([]);
+});
+
+test("buildReviewThreadReplies drops unknown threads and links the changes", () => {
+  const responses = [
+    { threadId: "T_1", addressed: true, response: "Renamed." },
+    { threadId: "T_9", addressed: true, response: "Made up." },
+  ];
+
+  expect(
+    buildReviewThreadReplies({
+      reviewThreads: [openThread],
+      responses,
+      pullRequestUrl: "https://github.com/o/r/pull/5",
+    }),
+  ).toEqual([
+    {
+      threadId: "T_1",
+      addressed: true,
+      response: "Renamed.\n\nChanges: https://github.com/o/r/pull/5",
+    },
+  ]);
+  expect(
+    buildReviewThreadReplies({ reviewThreads: [openThread], responses, pullRequestUrl: undefined }),
+  ).toEqual([{ threadId: "T_1", addressed: true, response: "Renamed." }]);
+});
+
+test("publishReviewThreadResponses replies once for the selected run", async () => {
+  const calls = fakeGh();
+  deferReviewThreadResponses("fix", { ...pending("From the selected run."), resolve: false });
+  deferReviewThreadResponses("other", { ...pending("From another run."), resolve: false });
+
+  await publishReviewThreadResponses({ selectedBranch: "fix", branches: ["fix", "other"] });
+  // The other run's replies were discarded, so publishing again posts nothing.
+  await publishReviewThreadResponses({ selectedBranch: "other", branches: ["fix", "other"] });
+
+  const graphqlCalls = calls().map((args) => args.join(" "));
+  expect(graphqlCalls).toHaveLength(1);
+  expect(graphqlCalls[0]).toContain("addPullRequestReviewThreadReply");
+  expect(graphqlCalls[0]).toContain("body=From the selected run.");
+});
+
+test("publishReviewThreadResponses resolves addressed threads of a fix stacked on the reviewed branch", async () => {
+  const calls = fakeGh();
+  // "fix" is stacked on the reviewed "main" and never merged into it during the run.
+  deferReviewThreadResponses("fix", pending("Renamed."));
+
+  await publishReviewThreadResponses({ selectedBranch: "fix", branches: ["fix"] });
+
+  const graphqlCalls = calls().map((args) => args.join(" "));
+  expect(graphqlCalls).toHaveLength(2);
+  expect(graphqlCalls[0]).toContain("addPullRequestReviewThreadReply");
+  expect(graphqlCalls[1]).toContain("resolveReviewThread(input");
+  expect(graphqlCalls[1]).toContain("threadId=T_1");
+});
+
+test("publishReviewThreadResponses leaves threads open when the run committed nothing", async () => {
+  const calls = fakeGh();
+  runGit(["branch", "reviewed", "fix"]);
+  deferReviewThreadResponses("fix", { ...pending("Renamed."), reviewedBranch: "reviewed" });
+
+  await publishReviewThreadResponses({ selectedBranch: "fix", branches: ["fix"] });
+
+  const graphqlCalls = calls().map((args) => args.join(" "));
+  expect(graphqlCalls).toHaveLength(1);
+  expect(graphqlCalls[0]).toContain("addPullRequestReviewThreadReply");
+});
+
+function pending(response: string) {
+  return {
+    pullRequestNumber: 4,
+    reviewedBranch: "main",
+    responses: [{ threadId: "T_1", addressed: true, response }],
+    resolve: true,
+  };
+}
+
+function fakeGh(): () => string[][] {
+  const cli = installFakeCli("gh", [{ match: "api graphql", stdout: "{}" }]);
+  restoreCli = cli.restore;
+  return cli.calls;
+}
+
+function commitFile(name: string): void {
+  writeFileSync(join(repoDir, name), name, "utf8");
+  runGit(["add", "."]);
+  runGit(["commit", "-m", `add ${name}`]);
+}
+
+function runGit(args: string[]): void {
+  execFileSync("git", args, { cwd: repoDir, stdio: "ignore" });
+}
@@ -0,0 +1,108 @@
+import { expect, test } from "bun:test";
+import { execFileSync } from "node:child_process";
+import { chmodSync, existsSync, mkdirSync, rmSync, unlinkSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+import {
+  ensureCommitAndPushChanges,
+  getDiffStats,
+  getHeadCommit,
+  setGitHooksDisabled,
+} from "../../../src/git/git.ts";
+import { createTestSubDir } from "../../../src/utils/testDir.ts";
+
+test("getDiffStats counts the files and lines HEAD changed since leaving the base branch", async () => {
+  const repoDir = createTestSubDir("diff-stats");
+  const runGit = (args: string[]) => execFileSync("git", args, { cwd: repoDir, stdio: "ignore" });
+  try {
+    runGit(["init", "-b", "main"]);
+    runGit(["config", "user.email", "test@example.com"]);
+    runGit(["config", "user.name", "Test User"]);
+    writeFileSync(join(repoDir, "kept.txt"), "a\nb\nc\n");
+    writeFileSync(join(repoDir, "removed.txt"), "x\ny\n");
+    runGit(["add", "."]);
+    runGit(["commit", "-m", "base"]);
+
+    runGit(["checkout", "-b", "feature"]);
+    writeFileSync(join(repoDir, "kept.txt"), "a\nB\nc\nd\n");
+    unlinkSync(join(repoDir, "removed.txt"));
+    writeFileSync(join(repoDir, "added.txt"), "1\n2\n3\n");
+    writeFileSync(join(repoDir, "image.bin"), Buffer.from([0, 1, 2, 0, 255]));
+    runGit(["add", "-A"]);
+    runGit(["commit", "-m", "change"]);
+    // Commits on the base branch after the fork point are not part of the diff.
+    runGit(["checkout", "main"]);
+    writeFileSync(join(repoDir, "later.txt"), "later\n");
+    runGit(["add", "."]);
+    runGit(["commit", "-m", "later"]);
+    runGit(["checkout", "feature"]);
+
+    // Binary files count as changed without line counts.
+    expect(await getDiffStats(repoDir, "main")).toEqual({
+      filesChanged: 4,
+      linesAdded: 5,
+      linesRemoved: 3,
+    });
+  } finally {
+    rmSync(repoDir, { recursive: true, force: true });
+  }
+});
+
+test("setGitHooksDisabled keeps commits from running hooks the worktree points git at", async () => {
+  const repoDir = createTestSubDir("hooks-disabled");
+  const runGit = (args: string[]) => execFileSync("git", args, { cwd: repoDir, stdio: "ignore" });
+  // Configuration passed through the environment, e.g. by CI, could disable hooks already.
+  const configEnv = Object.entries(process.env).filter(([name]) => name.startsWith("GIT_CONFIG_"));
+  for (const [name] of configEnv) delete process.env[name];
+  try {
+    runGit(["init", "-b", "main"]);
+    runGit(["config", "user.email", "test@example.com"]);
+    runGit(["config", "user.name", "Test User"]);
+    runGit(["config", "core.hooksPath", ".hooks"]);
+    mkdirSync(join(repoDir, ".hooks"));
+    writeFileSync(join(repoDir, ".hooks", "pre-commit"), "#!/bin/sh\ntouch hook-ran\n");
+    chmodSync(join(repoDir, ".hooks", "pre-commit"), 0o755);
+
+    setGitHooksDisabled(true);
+    await ensureCommitAndPushChanges("add hook", { cwd: repoDir });
+
+    expect(existsSync(join(repoDir, "hook-ran"))).toBe(false);
+  } finally {
+    setGitHooksDisabled(false);
+    Object.assign(process.env, Object.fromEntries(configEnv));
+    rmSync(repoDir, { recursive: true, force: true });
+  }
+});
+
+test("ensureCommitAndPushChanges pushes HEAD to pushTo also when the agent committed itself", async () => {
+  const dir = createTestSubDir("push-to");
+  const originDir = join(dir, "origin.git");
+  const repoDir = join(dir, "repo");
+  const git = (cwd: string, args: string[]) =>
+    execFileSync("git", args, { cwd, encoding: "utf8" }).trim();
+  try {
+    mkdirSync(originDir);
+    mkdirSync(repoDir);
+    git(originDir, ["init", "--bare", "-b", "main"]);
+    git(repoDir, ["init", "-b", "main"]);
+    git(repoDir, ["config", "user.email", "test@example.com"]);
+    git(repoDir, ["config", "user.name", "Test User"]);
+    git(repoDir, ["remote", "add", "origin", originDir]);
+    git(repoDir, ["commit", "--allow-empty", "-m", "base"]);
+    git(repoDir, ["push", "origin", "main"]);
+    git(repoDir, ["checkout", "-b", "o-agents/pr-1"]);
+    writeFileSync(join(repoDir, "fix.txt"), "fix\n");
+    git(repoDir, ["add", "."]);
+    git(repoDir, ["commit", "-m", "fix: by the agent"]);
+
+    await ensureCommitAndPushChanges("fix: repair failing CI checks", {
+      cwd: repoDir,
+      pushTo: "main",
+    });
+
+    expect(git(originDir, ["rev-parse", "main"])).toBe(await getHeadCommit(repoDir));
+    expect(git(originDir, ["branch", "--list", "o-agents/pr-1"])).toBe("");
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,174 @@
+import { afterEach, expect, test } from "bun:test";
+
+import {
+  type CheckRun,
+  fetchFailedChecks,
+  githubForge,
+  waitForPullRequestChecks,
+} from "../../../src/github/gh.ts";
+import { type FakeCliResponse, installFakeCli } from "../../../src/utils/testCli.ts";
+
+const pullRequestUrl = "https://github.com/o/r/pull/4";
+
+let restoreCli: (() => void) | undefined;
+
+afterEach(() => {
+  restoreCli?.();
+  restoreCli = undefined;
+});
+
+function fakeGh(responses: FakeCliResponse[]): () => string[][] {
+  const cli = installFakeCli("gh", responses);
+  restoreCli = cli.restore;
+  return cli.calls;
+}
+
+test("fetchIssueOrPullRequestData maps GraphQL review threads of a PR", async () => {
+  const calls = fakeGh([
+    {
+      match: "pr view 4",
+      stdout: JSON.stringify({
+        title: "Fix",
+        body: "Body",
+        url: "https://github.com/o/r/pull/4",
+        comments: [{ author: { login: "alice" }, body: "Looks good." }],
+        headRefName: "feature",
+      }),
+    },
+    { match: "repo view", stdout: JSON.stringify({ nameWithOwner: "o/r" }) },
+    {
+      match: "api graphql",
+      stdout: JSON.stringify({
+        data: {
+          repository: {
+            pullRequest: {
+              reviewThreads: {
+                nodes: [
+                  {
+                    id: "PRRT_1",
+                    path: "src/a.ts",
+                    line: 12,
+                    isResolved: false,
+                    comments: {
+                      nodes: [
+                        { author: { login: "bob" }, body: "Rename this.", diffHunk: "@@ -1 +1 @@" },
+                        { author: null, body: "Bump.", diffHunk: "@@ -1 +1 @@" },
+                      ],
+                    },
+                  },
+                  {
+                    id: "PRRT_2",
+                    path: "src/b.ts",
+                    line: null,
+                    isResolved: true,
+                    comments: { nodes: [] },
+                  },
+                ],
+              },
+            },
+          },
+        },
+      }),
+    },
+  ]);
+
+  const data = await githubForge.fetchIssueOrPullRequestData("pr", 4);
+
+  expect(data).toEqual({
+    title: "Fix",
+    body: "Body",
+    url: "https://github.com/o/r/pull/4",
+    comments: [{ author: "alice", body: "Looks good." }],
+    headBranch: "feature",
+    kind: "pr",
+    number: 4,
+    reviewThreads: [
+      {
+        id: "PRRT_1",
+        path: "src/a.ts",
+        line: 12,
+        diffHunk: "@@ -1 +1 @@",
+        isResolved: false,
+        comments: [
+          { author: "bob", body: "Rename this." },
+          { author: undefined, body: "Bump." },
+        ],
+      },
+      {
+        id: "PRRT_2",
+        path: "src/b.ts",
+        line: undefined,
+        diffHunk: undefined,
+        isResolved: true,
+        comments: [],
+      },
+    ],
+  });
+  const graphqlCall = calls().find((args) => args[1] === "graphql");
+  expect(graphqlCall).toContain("owner=o");
+  expect(graphqlCall).toContain("name=r");
+  expect(graphqlCall).toContain("number=4");
+});
+
+test("waitForPullRequestChecks returns the checks once none is pending", async () => {
+  const checks: CheckRun[] = [
+    { name: "test", workflow: "CI", state: "SUCCESS", bucket: "pass" },
+    { name: "lint", workflow: "CI", state: "SKIPPED", bucket: "skipping" },
+  ];
+  fakeGh([{ match: "pr checks", stdout: JSON.stringify(checks) }]);
+
+  expect(
+    await waitForPullRequestChecks(pullRequestUrl, { pollIntervalMs: 1, timeoutMs: 1_000 }),
+  ).toEqual(checks);
+});
+
+test("waitForPullRequestChecks fails when no check is reported before the timeout", async () => {
+  const calls = fakeGh([
+    { match: "pr checks", stderr: "no checks reported on the 'fix' branch", exitCode: 1 },
+  ]);
+
+  await expect(
+    waitForPullRequestChecks(pullRequestUrl, { pollIntervalMs: 1, timeoutMs: 1_000 }),
+  ).rejects.toThrow(`No checks were reported on ${pullRequestUrl} before the timeout.`);
+  // An empty check list is polled again rather than taken as passing.
+  expect(calls().length).toBeGreaterThan(1);
+});
+
+test("fetchFailedChecks attaches the tail of each failed Actions job log", async () => {
+  const log = Array.from({ length: 5 }, (_, index) => `line ${index + 1}`).join("\n");
+  const calls = fakeGh([{ match: "run view 11 --job 22", stdout: `${log}\n` }]);
+
+  const failedChecks = await fetchFailedChecks(
+    pullRequestUrl,
+    [
+      {
+        name: "test",
+        state: "FAILURE",
+        bucket: "fail",
+        link: "https://github.com/o/r/actions/runs/11/job/22",
+      },
+      { name: "external", state: "FAILURE", bucket: "fail", link: "https://ci.example.com/1" },
+      { name: "lint", state: "SUCCESS", bucket: "pass" },
+    ],
+    2,
+  );
+
+  expect(failedChecks).toEqual([
+    {
+      name: "test",
+      state: "FAILURE",
+      bucket: "fail",
+      link: "https://github.com/o/r/actions/runs/11/job/22",
+      log: "line 4\nline 5",
+    },
+    // Logs are only fetched from GitHub Actions.
+    {
+      name: "external",
+      state: "FAILURE",
+      bucket: "fail",
+      link: "https://ci.example.com/1",
+      log: undefined,
+    },
+  ]);
+  expect(calls()).toEqual([["run", "view", "11", "--job", "22", "--log-failed", "--repo", "o/r"]]);
+});
@@ -0,0 +1,175 @@
+import { afterEach, expect, test } from "bun:test";
+
+import { gitlabForge } from "../../../src/gitlab/glab.ts";
+import { type FakeCliResponse, installFakeCli } from "../../../src/utils/testCli.ts";
+
+let restoreCli: (() => void) | undefined;
+
+afterEach(() => {
+  restoreCli?.();
+  restoreCli = undefined;
+});
+
+function fakeGlab(responses: FakeCliResponse[]): () => string[][] {
+  const cli = installFakeCli("glab", responses);
+  restoreCli = cli.restore;
+  return cli.calls;
+}
+
+test("resolveTargetKind parses merge request references and URLs, including nested groups", async () => {
+  const calls = fakeGlab([]);
+
+  expect(await gitlabForge.resolveTargetKind("!5")).toEqual({ kind: "pr", number: 5 });
+  expect(
+    await gitlabForge.resolveTargetKind("https://gitlab.com/group/sub/project/-/merge_requests/5"),
+  ).toEqual({ kind: "pr", number: 5 });
+  expect(
+    await gitlabForge.resolveTargetKind(
+      "https://gitlab.example.com/a/b/c/project/-/issues/12#note_1",
+    ),
+  ).toEqual({ kind: "issue", number: 12 });
+  expect(
+    await gitlabForge.resolveTargetKind("https://gitlab.com/group/project/-/work_items/9"),
+  ).toEqual({ kind: "issue", number: 9 });
+  await expect(gitlabForge.resolveTargetKind("5!")).rejects.toThrow(
+    'Invalid target "5!". Provide an issue/MR number, !<MR number>, or GitLab URL.',
+  );
+  expect(calls()).toEqual([]);
+});
+
+test("resolveTargetKind looks up plain numbers as issues before merge requests", async () => {
+  const calls = fakeGlab([
+    { match: "api projects/:id/issues/12", exitCode: 1 },
+    { match: "api projects/:id/merge_requests/12", stdout: '{"iid":12}' },
+  ]);
+
+  expect(await gitlabForge.resolveTargetKind("#12")).toEqual({ kind: "pr", number: 12 });
+  expect(calls()).toEqual([
+    ["api", "projects/:id/issues/12"],
+    ["api", "projects/:id/merge_requests/12"],
+  ]);
+});
+
+test("getRepoInfo maps the current project", async () => {
+  fakeGlab([
+    {
+      match: "api projects/:id",
+      stdout: JSON.stringify({ path_with_namespace: "group/sub/project", default_branch: "main" }),
+    },
+  ]);
+
+  expect(await gitlabForge.getRepoInfo()).toEqual({
+    forge: "gitlab",
+    fullName: "group/sub/project",
+    defaultBranch: "main",
+  });
+});
+
+test("fetchIssueOrPullRequestData maps a merge request with its notes and review threads", async () => {
+  fakeGlab([
+    {
+      match: "projects/:id/merge_requests/5/notes",
+      stdout: JSON.stringify([
+        { id: 1, body: "added 1 commit", system: true, author: { username: "bot" } },
+        { id: 2, body: "Please add tests.", author: { username: "alice" } },
+      ]),
+    },
+    {
+      match: "projects/:id/merge_requests/5/discussions",
+      stdout: JSON.stringify([
+        {
+          id: "d1",
+          notes: [
+            {
+              id: 3,
+              body: "Rename this.",
+              author: { username: "bob" },
+              resolvable: true,
+              resolved: false,
+              position: { new_path: "src/a.ts", new_line: 4 },
+            },
+            { id: 4, body: "Agreed.", author: { username: "alice" } },
+          ],
+        },
+        {
+          id: "d2",
+          notes: [
+            {
+              id: 5,
+              body: "Outdated.",
+              resolvable: true,
+              resolved: true,
+              position: { old_path: "src/b.ts", new_line: null },
+            },
+          ],
+        },
+        { id: "d3", notes: [{ id: 6, body: "General discussion.", resolvable: false }] },
+      ]),
+    },
+    {
+      match: "projects/:id/merge_requests/5",
+      stdout: JSON.stringify({
+        iid: 5,
+        title: "Add feature",
+        description: null,
+        web_url: "https://gitlab.com/group/sub/project/-/merge_requests/5",
+        source_branch: "feature",
+      }),
+    },
+  ]);
+
+  expect(await gitlabForge.fetchIssueOrPullRequestData("pr", 5)).toEqual({
+    title: "Add feature",
+    body: "",
+    url: "https://gitlab.com/group/sub/project/-/merge_requests/5",
+    comments: [{ author: "alice", body: "Please add tests." }],
+    headBranch: "feature",
+    reviewThreads: [
+      {
+        id: "d1",
+        path: "src/a.ts",
+        line: 4,
+        isResolved: false,
+        comments: [
+          { author: "bob", body: "Rename this." },
+          { author: "alice", body: "Agreed." },
+        ],
+      },
+      {
+        id: "d2",
+        path: "src/b.ts",
+        line: undefined,
+        isResolved: true,
+        comments: [{ author: undefined, body: "Outdated." }],
+      },
+    ],
+    kind: "pr",
+    number: 5,
+  });
+});
+
+test("fetchIssueOrPullRequestData maps an issue without review threads", async () => {
+  fakeGlab([
+    { match: "projects/:id/issues/12/notes", stdout: "[]" },
+    {
+      match: "projects/:id/issues/12",
+      stdout: JSON.stringify({
+        iid: 12,
+        title: "Bug",
+        description: "It breaks.",
+        web_url: "https://gitlab.com/group/project/-/issues/12",
+      }),
+    },
+  ]);
+
+  expect(await gitlabForge.fetchIssueOrPullRequestData("issue", 12)).toEqual({
+    title: "Bug",
+    body: "It breaks.",
+    url: "https://gitlab.com/group/project/-/issues/12",
+    comments: [],
+    headBranch: undefined,
+    reviewThreads: undefined,
+    kind: "issue",
+    number: 12,
+  });
+});
@@ -2,7 +2,7 @@ import { expect, test } from "bun:test";
 import { readFile, rm } from "node:fs/promises";
 import path from "node:path";
 
-import { logger } from "../../src/utils/logger.ts";
+import { Logger, logger } from "../../src/utils/logger.ts";
 import { createTestSubDir } from "../../src/utils/testDir.ts";
 
 test("logger logs full prompt to file when console output is truncated", async () => {
@@ -48,3 +48,95 @@ test("logger runWithContext scopes output to extra log paths with prefix", async
     await rm(tempDir, { recursive: true, force: true });
   }
 });
+
+test("logger event appends JSON lines tagged with the log context", async () => {
+  const tempDir = createTestSubDir("logger");
+  const eventsPath = path.join(tempDir, "events.jsonl");
+  const eventLogger = new Logger();
+
+  try {
+    eventLogger.event({ type: "run_finished", exitCode: 0, durationMs: 1 });
+    eventLogger.eventsPath = eventsPath;
+    await eventLogger.runWithContext({ mainPrefix: "[main-1]" }, async () => {
+      eventLogger.event({
+        type: "pull_request_created",
+        url: "https://github.com/o/r/pull/2",
+        baseBranch: "main",
+        headBranch: "o-agents/issue-1",
+      });
+      eventLogger.event(
+        { type: "command_exited", commandId: "[3]", exitCode: 0, durationMs: 5 },
+        { mainPrefix: "[compare-2]", prefix: "[3]" },
+      );
+    });
+
+    const events = (await readFile(eventsPath, "utf8"))
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({
+      type: "pull_request_created",
+      url: "https://github.com/o/r/pull/2",
+      mainPrefix: "[main-1]",
+    });
+    expect(typeof events[0].time).toBe("string");
+    expect(events[1]).toMatchObject({
+      type: "command_exited",
+      mainPrefix: "[compare-2]",
+      prefix: "[3]",
+    });
+  } finally {
+    await rm(tempDir, { recursive: true, force: true });
+  }
+});
+
+test("logger event redacts secrets that JSON would escape", async () => {
+  const tempDir = createTestSubDir("logger");
+  const eventsPath = path.join(tempDir, "events.jsonl");
+  const eventLogger = new Logger();
+  eventLogger.eventsPath = eventsPath;
+  // Highlighting inside the token becomes `\u001b` in JSON, which hides it from the patterns.
+  const token = `ghp_${"a".repeat(18)}\u001b[1m${"b".repeat(18)}`;
+
+  try {
+    eventLogger.event({ type: "agent_prompt_sent", tool: "codex-cli", prompt: `use ${token}` });
+    eventLogger.event({
+      type: "agent_result_received",
+      tool: "codex-cli",
+      durationMs: 1,
+      result: { notes: [`used ${token}`] },
+    });
+
+    const content = await readFile(eventsPath, "utf8");
+    expect(content).not.toContain("b".repeat(18));
+    const [prompt, result] = content
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(prompt.prompt).toBe("use [REDACTED]");
+    expect(result.result).toEqual({ notes: ["used [REDACTED]"] });
+  } finally {
+    await rm(tempDir, { recursive: true, force: true });
+  }
+});
+
+test("logger event passes listeners the redacted event even when a pattern spans JSON syntax", () => {
+  const eventLogger = new Logger();
+  // Matched against a JSON line, this pattern would also swallow the closing quote.
+  eventLogger.configureRedaction({ patterns: ["Bearer \\S+"] });
+  const events: unknown[] = [];
+  eventLogger.subscribe((record) => {
+    if (record.kind === "event") events.push(record.event);
+  });
+
+  eventLogger.event({
+    type: "command_spawned",
+    commandId: "[1]",
+    command: "curl",
+    args: ["-H", "Authorization: Bearer abc.def"],
+  });
+
+  expect(events).toHaveLength(1);
+  expect(events[0]).toMatchObject({ args: ["-H", "Authorization: [REDACTED]"] });
+});
@@ -232,6 +232,39 @@ test("runAgentUntilResult ignores output inactivity when output flows", async ()
   }
 });
 
+test("runAgentUntilResult terminates when the wall-clock timeout elapses", async () => {
+  const tempDir = createTestSubDir("run");
+  const terminationPlans: TerminationPlan[] = [];
+  const script = [
+    'const interval = setInterval(() => process.stdout.write("tick\\n"), 10);',
+    "setTimeout(() => { clearInterval(interval); process.exit(0); }, 300);",
+  ].join("");
+
+  const previousEnv = process.env.O_AGENTS_ENV;
+  try {
+    process.env.O_AGENTS_ENV = "test";
+    const waitForResult: Promise<{ result: unknown; receivedAt: string }> = new Promise(
+      (_resolve) => {},
+    );
+    await expect(
+      runAgentUntilResult(process.execPath, ["-e", script], waitForResult, {
+        cwd: tempDir,
+        stream: false,
+        agentGracePeriodMs: 0,
+        inactivityTimeoutMs: 0,
+        timeoutMs: 100,
+        mockTerminateProcessTree: true,
+        onTerminateProcessTree: (plan) => terminationPlans.push(plan),
+      }),
+    ).rejects.toThrow(/did not post a result within 100ms/);
+
+    expect(terminationPlans.length).toBeGreaterThan(0);
+  } finally {
+    process.env.O_AGENTS_ENV = previousEnv;
+    await rm(tempDir, { recursive: true, force: true });
+  }
+});
+
 async function readFileWhenReady(filePath: string): Promise<string> {
   for (let attempt = 0; attempt < 50; attempt += 1) {
     try {
@@ -1,6 +1,6 @@
 import { expect, test } from "bun:test";
 
-import { extractPullRequestUrl } from "../../src/git/git.ts";
+import { extractPullRequestUrl, parsePullRequestUrl } from "../../src/github/gh.ts";
 
 test("extractPullRequestUrl prefers GitHub PR links in stdout", () => {
   const stdout = [
@@ -27,3 +27,16 @@ test("extractPullRequestUrl returns undefined when no URL is present", () => {
 
   expect(url).toBeUndefined();
 });
+
+test("parsePullRequestUrl extracts the repository and number", () => {
+  expect(parsePullRequestUrl("https://github.com/octo-org/octo-repo/pull/7/files")).toEqual({
+    repo: "octo-org/octo-repo",
+    number: 7,
+  });
+});
+
+test("parsePullRequestUrl rejects non-PR URLs", () => {
+  expect(() => parsePullRequestUrl("https://github.com/octo-org/octo-repo/issues/42")).toThrow(
+    "Not a GitHub pull request URL",
+  );
+});
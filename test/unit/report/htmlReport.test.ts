@@ -0,0 +1,105 @@
+import { expect, test } from "bun:test";
+import { rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { readRunEvents, renderHtmlReport } from "../../../src/report/htmlReport.ts";
+import type { RunReport } from "../../../src/report/runReport.ts";
+import type { RecordedRunEvent } from "../../../src/types.ts";
+import { createTestSubDir } from "../../../src/utils/testDir.ts";
+
+const report: RunReport = {
+  version: 1,
+  runTimestamp: "20260101-120000_0001",
+  argv: ["--target", "7", "--main", "codex", "--compare", "claude"],
+  startedAt: "2026-01-01T12:00:00.000Z",
+  finishedAt: "2026-01-01T12:05:00.000Z",
+  durationMs: 300_000,
+  exitCode: 0,
+  targets: [
+    {
+      target: "7",
+      targetLabel: "issue-7",
+      exitCode: 0,
+      comparison: {
+        status: "completed",
+        bestPrUrl: "https://github.com/o/r/pull/2",
+        reason: "Smaller <diff>.",
+      },
+      runs: [
+        {
+          kind: "main",
+          tool: "codex-cli",
+          workflowPath: "o-agents/workflowNoTest.ts",
+          logPath: "/logs/workflow-issue-7-main-1.log",
+          branchName: "o-agents/issue-7-1",
+          pullRequestUrl: "https://github.com/o/r/pull/2",
+          startedAt: "2026-01-01T12:00:00.000Z",
+          durationMs: 65_000,
+          exitCode: 0,
+          agentCalls: [],
+        },
+      ],
+    },
+  ],
+};
+
+const events: RecordedRunEvent[] = [
+  {
+    type: "agent_prompt_sent",
+    time: "2026-01-01T12:00:05.000Z",
+    mainPrefix: "[main-1]",
+    tool: "codex-cli",
+    prompt: "Fix <issue> 7",
+  },
+  {
+    type: "step_finished",
+    time: "2026-01-01T12:01:05.000Z",
+    mainPrefix: "[main-1]",
+    step: "plan",
+    exitCode: 0,
+    durationMs: 60_000,
+  },
+  {
+    type: "step_started",
+    time: "2026-01-01T12:00:00.000Z",
+    mainPrefix: "[compare-2]",
+    step: "elsewhere",
+  },
+];
+
+test("renderHtmlReport renders the verdict, timelines, prompts, diffs and output", () => {
+  const html = renderHtmlReport({
+    report,
+    events,
+    logs: new Map([["/logs/workflow-issue-7-main-1.log", "\u001b[32mdone\u001b[0m\n"]]),
+    diffs: new Map([["o-agents/issue-7-1", "@@ -1 +1 @@\n-old\n+new"]]),
+  });
+
+  expect(html).toContain("<title>o-agents run 20260101-120000_0001</title>");
+  expect(html).toContain("o-agents --target 7 --main codex --compare claude");
+  expect(html).toContain("Smaller &lt;diff&gt;.");
+  expect(html).toContain(
+    "<tr><td>+5s</td><td><details><summary>Prompted codex-cli</summary><pre>Fix &lt;issue&gt; 7</pre></details></td></tr>",
+  );
+  expect(html).toContain("Finished step <strong>plan</strong> in 1m 00s");
+  expect(html).not.toContain("elsewhere");
+  expect(html).toContain('<span class="removed">-old</span>\n<span class="added">+new</span>');
+  expect(html).toContain("<pre>done\n</pre>");
+});
+
+test("readRunEvents skips lines that are not valid JSON", async () => {
+  const tempDir = createTestSubDir("html-report");
+  const eventsPath = path.join(tempDir, "events.jsonl");
+  try {
+    await writeFile(
+      eventsPath,
+      '{"type":"run_finished","time":"t","exitCode":1,"durationMs":2}\n{"type":"run_',
+    );
+    expect(readRunEvents(eventsPath)).toEqual([
+      { type: "run_finished", time: "t", exitCode: 1, durationMs: 2 },
+    ]);
+    expect(readRunEvents(path.join(tempDir, "missing.jsonl"))).toEqual([]);
+  } finally {
+    await rm(tempDir, { recursive: true, force: true });
+  }
+});
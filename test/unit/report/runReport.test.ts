@@ -0,0 +1,131 @@
+import { expect, test } from "bun:test";
+import { readFileSync, rmSync } from "node:fs";
+import path from "node:path";
+
+import {
+  getRunReportPath,
+  readRunReport,
+  type RunReport,
+  runReportSchema,
+  writeRunReport,
+} from "../../../src/report/runReport.ts";
+import { createTestSubDir } from "../../../src/utils/testDir.ts";
+
+const report: RunReport = {
+  version: 1,
+  runTimestamp: "20260101-120000_0001",
+  argv: ["--target", "7", "--main", "codex", "--compare", "claude", "--report", "out.json"],
+  startedAt: "2026-01-01T12:00:00.000Z",
+  finishedAt: "2026-01-01T12:05:00.000Z",
+  durationMs: 300_000,
+  exitCode: 1,
+  error: undefined,
+  targets: [
+    {
+      target: "7",
+      targetLabel: "issue-7",
+      logPath: "/logs/run-issue-7.log",
+      exitCode: 1,
+      comparison: {
+        status: "completed",
+        bestPrUrl: "https://github.com/o/r/pull/2",
+        reason: "Smaller diff.",
+        votes: [
+          { judge: "codex-cli", bestPrUrl: "https://github.com/o/r/pull/2", reason: "Smaller." },
+        ],
+        metrics: [
+          {
+            pullRequestUrl: "https://github.com/o/r/pull/2",
+            filesChanged: 2,
+            linesAdded: 10,
+            linesRemoved: 3,
+            commands: { lint: 0 },
+          },
+        ],
+        losers: [{ pullRequestUrl: "https://github.com/o/r/pull/3", action: "draft" }],
+        commentUrl: "https://github.com/o/r/issues/7#issuecomment-1",
+      },
+      runs: [
+        {
+          kind: "main",
+          tool: "codex-cli",
+          agentVersion: "0.40.0",
+          workflowPath: "o-agents/workflowNoTest.ts",
+          logPath: "/logs/workflow-issue-7-main-1.log",
+          branchName: "o-agents/issue-7-1",
+          pullRequestUrl: "https://github.com/o/r/pull/2",
+          startedAt: "2026-01-01T12:00:00.000Z",
+          durationMs: 65_000,
+          exitCode: 0,
+          usage: { inputTokens: 1200, outputTokens: 300, costUsd: 0.02 },
+          agentCalls: [
+            {
+              requestedTool: "codex-cli",
+              tool: "codex-cli",
+              status: "succeeded",
+              startedAt: "2026-01-01T12:00:01.000Z",
+              durationMs: 60_000,
+              usage: { inputTokens: 1200, outputTokens: 300, costUsd: 0.02 },
+            },
+          ],
+        },
+        {
+          kind: "compare",
+          tool: "claude-code",
+          workflowPath: "o-agents/workflowNoTest.ts",
+          logPath: "/logs/workflow-issue-7-compare-2.log",
+          startedAt: "2026-01-01T12:00:00.000Z",
+          durationMs: 1_000,
+          exitCode: 1,
+          error: "Agent exited before posting a result (exit 1).",
+          agentCalls: [
+            {
+              requestedTool: "claude-code",
+              status: "failed",
+              startedAt: "2026-01-01T12:00:01.000Z",
+              durationMs: 900,
+              error: "Agent exited before posting a result (exit 1).",
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+test("writeRunReport writes a report that parses with runReportSchema to both paths", () => {
+  const logDir = createTestSubDir("run-report");
+  const extraPath = path.join(logDir, "nested", "out.json");
+  try {
+    expect(writeRunReport(logDir, report, extraPath)).toEqual([
+      getRunReportPath(logDir),
+      extraPath,
+    ]);
+
+    const written = readFileSync(getRunReportPath(logDir), "utf8");
+    expect(readFileSync(extraPath, "utf8")).toBe(written);
+    expect(runReportSchema.parse(JSON.parse(written))).toEqual(report);
+    expect(readRunReport(logDir)).toEqual(report);
+  } finally {
+    rmSync(logDir, { recursive: true, force: true });
+  }
+});
+
+test("writeRunReport writes only run-report.json without --report", () => {
+  const logDir = createTestSubDir("run-report");
+  try {
+    expect(writeRunReport(logDir, report, undefined)).toEqual([getRunReportPath(logDir)]);
+    expect(readRunReport(logDir)).toEqual(report);
+  } finally {
+    rmSync(logDir, { recursive: true, force: true });
+  }
+});
+
+test("readRunReport explains that reports are written when a run finishes", () => {
+  const logDir = createTestSubDir("run-report");
+  try {
+    expect(() => readRunReport(logDir)).toThrow("Reports are written when a run finishes.");
+  } finally {
+    rmSync(logDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,88 @@
+import { afterEach, expect, test } from "bun:test";
+
+import { type ApprovalDecision, setAutoApprove } from "../../../src/workflow/approval.ts";
+import { defineWorkflow } from "../../../src/workflow/defineWorkflow.ts";
+import { approveStep, createPullRequestStep } from "../../../src/workflow/steps.ts";
+import { createTestWorkflowContext } from "../../../src/utils/testWorkflowContext.ts";
+
+const context = createTestWorkflowContext();
+
+afterEach(() => {
+  setAutoApprove(false);
+});
+
+function createPlanningWorkflow(decisions: ApprovalDecision[]) {
+  const feedbacks: (string | undefined)[] = [];
+  const rounds: number[] = [];
+  let approvedPlan: string | undefined;
+  const workflow = defineWorkflow({
+    steps: [
+      approveStep(
+        {
+          name: "plan",
+          run: async ({ state }) => {
+            feedbacks.push(state.feedback);
+            state.plan = `plan ${feedbacks.length}`;
+          },
+        },
+        {
+          approver: async ({ round }) => {
+            rounds.push(round);
+            return decisions.shift() ?? { action: "accept" };
+          },
+        },
+      ),
+      {
+        name: "implement",
+        run: async ({ state }) => {
+          approvedPlan = state.plan;
+        },
+      },
+    ],
+  });
+  return { workflow, feedbacks, rounds, getApprovedPlan: () => approvedPlan };
+}
+
+test("approveStep re-runs the step with the feedback until the result is accepted", async () => {
+  const { workflow, feedbacks, rounds, getApprovedPlan } = createPlanningWorkflow([
+    { action: "reject", feedback: "Cover the CLI too." },
+  ]);
+
+  expect(await workflow(context, undefined)).toBe(0);
+  expect(feedbacks).toEqual([undefined, "Cover the CLI too."]);
+  expect(rounds).toEqual([1, 2]);
+  expect(getApprovedPlan()).toBe("plan 2");
+});
+
+test("approveStep continues with the edited result", async () => {
+  const { workflow, getApprovedPlan } = createPlanningWorkflow([
+    { action: "edit", content: "edited plan" },
+  ]);
+
+  expect(await workflow(context, undefined)).toBe(0);
+  expect(getApprovedPlan()).toBe("edited plan");
+});
+
+test("approveStep ends the workflow when aborted", async () => {
+  const { workflow, getApprovedPlan } = createPlanningWorkflow([{ action: "abort" }]);
+
+  expect(await workflow(context, undefined)).toBe(1);
+  expect(getApprovedPlan()).toBeUndefined();
+});
+
+test("approveStep accepts without asking when auto-approval is enabled", async () => {
+  setAutoApprove(true);
+  const { workflow, rounds, getApprovedPlan } = createPlanningWorkflow([{ action: "abort" }]);
+
+  expect(await workflow(context, undefined)).toBe(0);
+  expect(rounds).toEqual([]);
+  expect(getApprovedPlan()).toBe("plan 1");
+});
+
+test("createPullRequestStep refuses to be re-run with feedback it cannot use", async () => {
+  const step = createPullRequestStep();
+
+  await expect(
+    step.run({ ...context, params: undefined, state: { feedback: "Use a better title." } }),
+  ).rejects.toThrow("createPullRequestStep cannot take feedback into account");
+});
@@ -0,0 +1,79 @@
+import { expect, test } from "bun:test";
+
+import type { ForgeComment } from "../../../src/forge/forge.ts";
+import { githubForge } from "../../../src/github/gh.ts";
+import {
+  createCommentApprover,
+  parseApprovalReply,
+} from "../../../src/workflow/commentApprover.ts";
+import { createTestWorkflowContext } from "../../../src/utils/testWorkflowContext.ts";
+
+const headBranch = "o-agents/issue-1-20260101-120000_0001-1";
+
+const context = { ...createTestWorkflowContext({ headBranch }), params: undefined, state: {} };
+
+test("parseApprovalReply recognizes /approve and /revise with feedback for the branch", () => {
+  expect(parseApprovalReply(`/approve ${headBranch}`, headBranch)).toEqual({ action: "accept" });
+  expect(parseApprovalReply(`  /APPROVE \`${headBranch}\` looks good`, headBranch)).toEqual({
+    action: "accept",
+  });
+  expect(
+    parseApprovalReply(`/revise ${headBranch} Cover the CLI too.\nAnd the docs.`, headBranch),
+  ).toEqual({ action: "reject", feedback: "Cover the CLI too.\nAnd the docs." });
+});
+
+test("parseApprovalReply ignores other comments and replies to other branches", () => {
+  expect(parseApprovalReply(`Looks good, /approve ${headBranch}`, headBranch)).toBeUndefined();
+  expect(parseApprovalReply(`/approved ${headBranch}`, headBranch)).toBeUndefined();
+  expect(parseApprovalReply("/approve", headBranch)).toBeUndefined();
+  expect(parseApprovalReply(`/approve ${headBranch.slice(0, -1)}2`, headBranch)).toBeUndefined();
+  expect(parseApprovalReply(`/revise ${headBranch}   `, headBranch)).toBeUndefined();
+});
+
+test("createCommentApprover only obeys new replies of allowed users to its branch", async () => {
+  const earlier: ForgeComment = { id: 5, author: "octocat", body: `/approve ${headBranch}` };
+  const replies: ForgeComment[] = [
+    earlier,
+    { id: 6, author: "mallory", body: `/approve ${headBranch}` },
+    { id: 7, author: "octocat", body: "/approve o-agents/issue-1-20260101-120000_0001-2" },
+    { id: 8, author: "OctoCat", body: `/revise ${headBranch} Cover the CLI too.` },
+  ];
+  const bodies: string[] = [];
+  let polls = 0;
+  const approver = createCommentApprover({
+    allowedUsers: ["octocat"],
+    timeoutMs: 5_000,
+    pollIntervalMs: 1,
+    forge: {
+      ...githubForge,
+      upsertComment: async ({ body }) => {
+        bodies.push(body);
+        return { action: "created" };
+      },
+      // The first call, made right after posting, sets the cutoff.
+      listComments: async () => (polls++ === 0 ? [earlier] : replies),
+    },
+  });
+
+  const decision = await approver({ label: "plan", content: "The plan.", round: 1, context });
+
+  expect(decision).toEqual({ action: "reject", feedback: "Cover the CLI too." });
+  expect(bodies[0]).toContain(`reply with \`/approve ${headBranch}\``);
+});
+
+test("createCommentApprover aborts when no reply arrives in time", async () => {
+  const approver = createCommentApprover({
+    allowedUsers: ["octocat"],
+    timeoutMs: 20,
+    pollIntervalMs: 5,
+    forge: {
+      ...githubForge,
+      upsertComment: async () => ({ action: "updated" }),
+      listComments: async () => [],
+    },
+  });
+
+  expect(await approver({ label: "plan", content: "The plan.", round: 2, context })).toEqual({
+    action: "abort",
+  });
+});
@@ -0,0 +1,97 @@
+import { expect, test } from "bun:test";
+import { z } from "zod";
+
+import { defineWorkflow } from "../../../src/workflow/defineWorkflow.ts";
+import { createTestWorkflowContext } from "../../../src/utils/testWorkflowContext.ts";
+
+const context = createTestWorkflowContext();
+
+test("defineWorkflow runs steps in order and shares state between them", async () => {
+  const paramsSchema = z.object({ greeting: z.string() });
+  const calls: string[] = [];
+  const workflow = defineWorkflow({
+    paramsSchema,
+    steps: [
+      {
+        name: "first",
+        run: async ({ params, state }) => {
+          state.plan = `${params.greeting} plan`;
+          calls.push("first");
+        },
+      },
+      {
+        name: "second",
+        run: async ({ state }) => {
+          calls.push(`second:${state.plan}`);
+        },
+      },
+    ],
+  });
+
+  expect(workflow.paramsSchema).toBe(paramsSchema);
+  expect(await workflow(context, { greeting: "hello" })).toBe(0);
+  expect(calls).toEqual(["first", "second:hello plan"]);
+});
+
+test("defineWorkflow skips steps whose skip condition holds", async () => {
+  const calls: string[] = [];
+  const workflow = defineWorkflow({
+    steps: [
+      { name: "skipped", skip: () => true, run: async () => void calls.push("skipped") },
+      { name: "run", skip: async () => false, run: async () => void calls.push("run") },
+    ],
+  });
+
+  expect(await workflow(context, undefined)).toBe(0);
+  expect(calls).toEqual(["run"]);
+});
+
+test("defineWorkflow retries failing steps up to maxAttempts", async () => {
+  let attempts = 0;
+  const workflow = defineWorkflow({
+    steps: [
+      {
+        name: "flaky",
+        maxAttempts: 3,
+        run: async () => {
+          attempts++;
+          if (attempts < 3) throw new Error("flaky");
+        },
+      },
+    ],
+  });
+
+  expect(await workflow(context, undefined)).toBe(0);
+  expect(attempts).toBe(3);
+});
+
+test("defineWorkflow rethrows the error of a step's last attempt", async () => {
+  let attempts = 0;
+  const workflow = defineWorkflow({
+    steps: [
+      {
+        name: "broken",
+        maxAttempts: 2,
+        run: async () => {
+          attempts++;
+          throw new Error(`broken ${attempts}`);
+        },
+      },
+    ],
+  });
+
+  await expect(workflow(context, undefined)).rejects.toThrow("broken 2");
+});
+
+test("defineWorkflow stops at the first non-zero exit code", async () => {
+  const calls: string[] = [];
+  const workflow = defineWorkflow({
+    steps: [
+      { name: "failing", run: async () => 2 },
+      { name: "never", run: async () => void calls.push("never") },
+    ],
+  });
+
+  expect(await workflow(context, undefined)).toBe(2);
+  expect(calls).toEqual([]);
+});
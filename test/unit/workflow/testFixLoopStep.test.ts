@@ -0,0 +1,33 @@
+import { expect, test } from "bun:test";
+
+import { defineWorkflow } from "../../../src/workflow/defineWorkflow.ts";
+import { getTestExitCodeForBranch, testFixLoopStep } from "../../../src/workflow/steps.ts";
+import { createTestWorkflowContext } from "../../../src/utils/testWorkflowContext.ts";
+
+const context = createTestWorkflowContext({ headBranch: "o-agents/issue-1-tests" });
+
+test("testFixLoopStep keeps maxAttempts for retrying the step itself", () => {
+  const step = testFixLoopStep({ testCommand: ["true"], maxAttempts: 2, maxTestRuns: 3 });
+
+  expect(step.maxAttempts).toBe(2);
+});
+
+test("testFixLoopStep rejects an empty test command", async () => {
+  const workflow = defineWorkflow({ steps: [testFixLoopStep({ testCommand: [] })] });
+
+  await expect(workflow(context, undefined)).rejects.toThrow("testCommand must not be empty.");
+});
+
+test("testFixLoopStep skips the tests when no test command is configured", async () => {
+  const workflow = defineWorkflow({ steps: [testFixLoopStep({ testCommand: () => undefined })] });
+
+  expect(await workflow(context, undefined)).toBe(0);
+  expect(getTestExitCodeForBranch(context.headBranch)).toBeUndefined();
+});
+
+test("testFixLoopStep records the exit code of passing tests for the branch", async () => {
+  const workflow = defineWorkflow({ steps: [testFixLoopStep({ testCommand: ["true"] })] });
+
+  expect(await workflow(context, undefined)).toBe(0);
+  expect(getTestExitCodeForBranch(context.headBranch)).toBe(0);
+});